@@ -0,0 +1,83 @@
+/**
+ * Create the Notion databases (or add their missing properties) from the
+ * command line, using the same schema as the setupDatabases tool.
+ *
+ *   npm run setup-databases -- --parent <page id> [--databases pantry,recipes] [--dry-run]
+ *
+ * Reads NOTION_TOKEN, any NOTION_*_DB IDs that are already set and
+ * NOTION_PROPERTY_MAP from .env or the environment.
+ */
+import * as dotenv from 'dotenv';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { NotionDatabaseSetup } from '../src/services/databaseSetup';
+import {
+    NOTION_DATABASE_SETTINGS,
+    parseNotionPropertyMap,
+    type NotionCredentials,
+    type NotionDatabaseName
+} from '../src/types';
+
+dotenv.config({ path: resolve(dirname(fileURLToPath(import.meta.url)), '../.env') });
+
+const DATABASE_NAMES = Object.keys(NOTION_DATABASE_SETTINGS) as NotionDatabaseName[];
+
+function readArgument(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+    if (!process.env.NOTION_TOKEN) {
+        console.error('NOTION_TOKEN is not set. Add it to .env or the environment.');
+        process.exit(1);
+    }
+
+    const databases = readArgument('databases')?.split(',').map(name => name.trim()) as NotionDatabaseName[] | undefined;
+    const unknown = databases?.filter(name => !DATABASE_NAMES.includes(name)) ?? [];
+    if (unknown.length > 0) {
+        console.error(`Unknown database(s): ${unknown.join(', ')}. Expected: ${DATABASE_NAMES.join(', ')}`);
+        process.exit(1);
+    }
+
+    // Databases that aren't configured yet are looked up under the parent page
+    const databaseIds = Object.fromEntries(
+        Object.values(NOTION_DATABASE_SETTINGS).map(setting => [setting.credential, process.env[setting.variable] || undefined])
+    );
+    const credentials = {
+        token: process.env.NOTION_TOKEN,
+        ...databaseIds,
+        propertyMap: parseNotionPropertyMap(process.env.NOTION_PROPERTY_MAP)
+    } as NotionCredentials;
+
+    const setup = new NotionDatabaseSetup(credentials, process.env.NOTION_API_BASE_URL);
+    const report = await setup.setupDatabases({
+        parentPageId: readArgument('parent') ?? process.env.NOTION_PARENT_PAGE,
+        databases,
+        dryRun: process.argv.includes('--dry-run')
+    });
+
+    for (const result of report.databases) {
+        console.log(`${result.title}: ${result.status}${result.databaseId ? ` (${result.databaseId})` : ''}`);
+        if (result.addedProperties.length > 0) console.log(`  added: ${result.addedProperties.join(', ')}`);
+        for (const skipped of result.skippedProperties) console.log(`  skipped ${skipped.name}: ${skipped.reason}`);
+        for (const conflict of result.conflicts) console.log(`  conflict: ${conflict}`);
+        if (result.error) console.log(`  error: ${result.error}`);
+    }
+
+    if (Object.keys(report.settings).length > 0) {
+        console.log(`\n${report.dryRun ? 'Dry run, nothing was changed. ' : ''}Database IDs for .dev.vars or wrangler secrets:`);
+        for (const [variable, id] of Object.entries(report.settings)) {
+            console.log(`${variable}=${id}`);
+        }
+    }
+
+    if (report.databases.some(result => result.status === 'failed')) {
+        process.exit(1);
+    }
+}
+
+main().catch(error => {
+    console.error('Error setting up Notion databases:', error);
+    process.exit(1);
+});
@@ -0,0 +1,143 @@
+// src/auth/authHandler.ts
+import { Hono } from "hono";
+import { html } from "hono/html";
+import type { AuthRequest, ClientInfo } from "@cloudflare/workers-oauth-provider";
+import type { Env } from "../index";
+import {
+    DEFAULT_HOUSEHOLD_ID,
+    getHouseholdRegistry,
+    verifyHouseholdPassword
+} from "../services/householdRegistry";
+import householdAdmin from "./householdAdmin";
+import { PANTRY_SCOPES, type AuthProps } from "./scopes";
+
+const app = new Hono<{ Bindings: Env }>();
+
+app.get("/", (c) => c.text("Pantry MCP Server. Connect an MCP client to /mcp."));
+
+app.route("/admin/households", householdAdmin);
+
+/**
+ * Consent page: shows which client is asking for access and lets a household
+ * sign in and choose between read-only and read/write access
+ */
+app.get("/authorize", async (c) => {
+    const oauthRequest = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw);
+    const client = await c.env.OAUTH_PROVIDER.lookupClient(oauthRequest.clientId);
+
+    if (!client) {
+        return c.text("Unknown client", 400);
+    }
+
+    return c.html(renderApprovalPage(oauthRequest, client));
+});
+
+/**
+ * Check the household password and issue a grant for that household with
+ * the chosen scopes
+ */
+app.post("/authorize", async (c) => {
+    const form = await c.req.parseBody();
+
+    let oauthRequest: AuthRequest;
+    try {
+        oauthRequest = JSON.parse(atob(String(form.request)));
+    } catch {
+        return c.text("Invalid authorization request", 400);
+    }
+
+    // The request round-trips through the browser, so check it again
+    const client = await c.env.OAUTH_PROVIDER.lookupClient(oauthRequest.clientId);
+    if (!client || !client.redirectUris.includes(oauthRequest.redirectUri)) {
+        return c.text("Invalid authorization request", 400);
+    }
+
+    const householdId = String(form.household ?? "").trim().toLowerCase() || DEFAULT_HOUSEHOLD_ID;
+
+    if (householdId === DEFAULT_HOUSEHOLD_ID && !c.env.OAUTH_OWNER_PASSWORD) {
+        return c.text("Set OAUTH_OWNER_PASSWORD before authorizing clients for the default household", 500);
+    }
+
+    if (!(await checkHouseholdPassword(c.env, householdId, String(form.password ?? "")))) {
+        return c.html(renderApprovalPage(oauthRequest, client, "Incorrect household or password", householdId), 401);
+    }
+
+    const scopes: string[] = form.write === "on"
+        ? [PANTRY_SCOPES.read, PANTRY_SCOPES.write]
+        : [PANTRY_SCOPES.read];
+
+    // Grants belong to the household, so removing it can revoke them all
+    const props: AuthProps = { userId: householdId, householdId, scopes };
+
+    const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
+        request: oauthRequest,
+        userId: householdId,
+        metadata: { label: client.clientName ?? client.clientId },
+        scope: scopes,
+        props
+    });
+
+    return c.redirect(redirectTo);
+});
+
+// ====== HELPER FUNCTIONS ======
+
+/**
+ * The default household uses OAUTH_OWNER_PASSWORD; registered households
+ * use the password stored with them
+ */
+async function checkHouseholdPassword(env: Env, householdId: string, password: string): Promise<boolean> {
+    if (householdId === DEFAULT_HOUSEHOLD_ID) {
+        return passwordsMatch(password, env.OAUTH_OWNER_PASSWORD ?? "");
+    }
+
+    const household = await getHouseholdRegistry(env).getHousehold(householdId);
+    return household !== null && verifyHouseholdPassword(household, password);
+}
+
+/**
+ * Compare passwords in constant time by comparing their digests
+ */
+async function passwordsMatch(given: string, expected: string): Promise<boolean> {
+    const encoder = new TextEncoder();
+    const [givenDigest, expectedDigest] = await Promise.all([
+        crypto.subtle.digest("SHA-256", encoder.encode(given)),
+        crypto.subtle.digest("SHA-256", encoder.encode(expected))
+    ]);
+
+    return crypto.subtle.timingSafeEqual(givenDigest, expectedDigest);
+}
+
+function renderApprovalPage(oauthRequest: AuthRequest, client: ClientInfo, error?: string, householdId?: string) {
+    // Offer write access by default only when the client asked for it, or asked for nothing specific
+    const requestsWrite = oauthRequest.scope.length === 0 || oauthRequest.scope.includes(PANTRY_SCOPES.write);
+
+    return html`<!doctype html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>Authorize ${client.clientName ?? "MCP client"}</title>
+    <style>
+        body { font-family: system-ui, sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem; }
+        label { display: block; margin: 0.75rem 0; }
+        .error { color: #b00020; }
+    </style>
+</head>
+<body>
+    <h1>Pantry MCP Server</h1>
+    <p><strong>${client.clientName ?? client.clientId}</strong> wants access to your pantry.</p>
+    ${error ? html`<p class="error">${error}</p>` : ""}
+    <form method="post" action="/authorize">
+        <input type="hidden" name="request" value="${btoa(JSON.stringify(oauthRequest))}">
+        <label><input type="checkbox" checked disabled> Read your pantry, recipes, shopping list and meal plan</label>
+        <label><input type="checkbox" name="write" ${requestsWrite ? "checked" : ""}> Add, change and remove items</label>
+        <label>Household <input type="text" name="household" value="${householdId ?? ""}" placeholder="${DEFAULT_HOUSEHOLD_ID}"></label>
+        <label>Password <input type="password" name="password" required autofocus></label>
+        <button type="submit">Approve</button>
+    </form>
+</body>
+</html>`;
+}
+
+export default app;
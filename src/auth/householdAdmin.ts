@@ -0,0 +1,151 @@
+// src/auth/householdAdmin.ts
+import { Hono } from "hono";
+import { z } from "zod";
+import type { Env } from "../index";
+import {
+    DEFAULT_HOUSEHOLD_ID,
+    getHouseholdRegistry,
+    hashHouseholdPassword
+} from "../services/householdRegistry";
+import {
+    HOUSEHOLD_ID_PATTERN,
+    PANTRY_EVENT_TYPES,
+    resolveNotionPropertyMap,
+    toHouseholdSummary,
+    type Household,
+    type NotionPropertyMapOverrides
+} from "../types";
+
+const householdSchema = z.object({
+    name: z.string().min(1),
+    password: z.string().min(8).optional().describe("Required when creating a household; omit to keep the current one"),
+    notion: z.object({
+        token: z.string().min(1),
+        pantryDb: z.string().min(1),
+        recipesDb: z.string().min(1),
+        shoppingListDb: z.string().min(1),
+        recipeIngredientsDb: z.string().min(1).optional(),
+        mealPlanDb: z.string().min(1).optional(),
+        propertyMap: z.record(z.record(z.union([
+            z.string().min(1),
+            z.object({ name: z.string().min(1), type: z.string() })
+        ]))).optional().describe("Property names that differ from the defaults, keyed by database and field")
+    }),
+    webhooks: z.array(z.object({
+        url: z.string().url(),
+        secret: z.string().min(1),
+        events: z.array(z.enum(PANTRY_EVENT_TYPES)).min(1)
+    })).optional().describe("Where to send the household's pantry events")
+});
+
+/**
+ * Admin API for registering households and their Notion workspaces.
+ * Every request needs `Authorization: Bearer <HOUSEHOLD_ADMIN_TOKEN>`.
+ */
+const app = new Hono<{ Bindings: Env }>();
+
+app.use("*", async (c, next) => {
+    if (!c.env.HOUSEHOLD_ADMIN_TOKEN) {
+        return c.text("Set HOUSEHOLD_ADMIN_TOKEN to manage households", 404);
+    }
+
+    const expected = new TextEncoder().encode(`Bearer ${c.env.HOUSEHOLD_ADMIN_TOKEN}`);
+    const given = new TextEncoder().encode(c.req.header("Authorization") ?? "");
+
+    if (given.byteLength !== expected.byteLength || !crypto.subtle.timingSafeEqual(given, expected)) {
+        return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    await next();
+});
+
+app.get("/", async (c) => {
+    const households = await getHouseholdRegistry(c.env).listHouseholds();
+    return c.json({ households: households.map(toHouseholdSummary) });
+});
+
+app.get("/:id", async (c) => {
+    const household = await getHouseholdRegistry(c.env).getHousehold(c.req.param("id"));
+
+    if (!household) {
+        return c.json({ error: "Household not found" }, 404);
+    }
+
+    return c.json(toHouseholdSummary(household));
+});
+
+/**
+ * Create or replace a household
+ */
+app.put("/:id", async (c) => {
+    const id = c.req.param("id");
+
+    if (!HOUSEHOLD_ID_PATTERN.test(id) || id === DEFAULT_HOUSEHOLD_ID) {
+        return c.json({ error: `Household IDs use lowercase letters, digits and dashes, and "${DEFAULT_HOUSEHOLD_ID}" is reserved` }, 400);
+    }
+
+    const parsed = householdSchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success) {
+        return c.json({ error: "Invalid household", issues: parsed.error.issues }, 400);
+    }
+
+    try {
+        resolveNotionPropertyMap(parsed.data.notion.propertyMap as NotionPropertyMapOverrides);
+    } catch (error: any) {
+        return c.json({ error: error.message }, 400);
+    }
+
+    const registry = getHouseholdRegistry(c.env);
+    const existing = await registry.getHousehold(id);
+
+    if (!existing && !parsed.data.password) {
+        return c.json({ error: "A password is required for a new household" }, 400);
+    }
+
+    const password = parsed.data.password
+        ? await hashHouseholdPassword(parsed.data.password)
+        : { hash: existing!.passwordHash, salt: existing!.passwordSalt };
+
+    const now = new Date().toISOString();
+    const household: Household = {
+        id,
+        name: parsed.data.name,
+        notion: parsed.data.notion as Household['notion'],
+        webhooks: parsed.data.webhooks,
+        passwordHash: password.hash,
+        passwordSalt: password.salt,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+    };
+
+    await registry.saveHousehold(household);
+
+    return c.json(toHouseholdSummary(household), existing ? 200 : 201);
+});
+
+/**
+ * Remove a household and revoke every client it has approved
+ */
+app.delete("/:id", async (c) => {
+    const id = c.req.param("id");
+    const deleted = await getHouseholdRegistry(c.env).deleteHousehold(id);
+
+    if (!deleted) {
+        return c.json({ error: "Household not found" }, 404);
+    }
+
+    let revokedGrants = 0;
+    let cursor: string | undefined;
+    do {
+        const grants = await c.env.OAUTH_PROVIDER.listUserGrants(id, { cursor });
+        for (const grant of grants.items) {
+            await c.env.OAUTH_PROVIDER.revokeGrant(grant.id, id);
+            revokedGrants++;
+        }
+        cursor = grants.cursor;
+    } while (cursor);
+
+    return c.json({ deleted: id, revokedGrants });
+});
+
+export default app;
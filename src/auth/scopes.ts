@@ -0,0 +1,56 @@
+// src/auth/scopes.ts
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { errorResult } from "../tools/toolOutputs";
+import { InsufficientScopeError } from "../types/errors";
+
+/**
+ * OAuth scopes a client can be granted
+ */
+export const PANTRY_SCOPES = {
+    read: "pantry:read",
+    write: "pantry:write"
+} as const;
+
+/**
+ * Props the OAuth provider passes to the MCP agent for each grant
+ */
+export type AuthProps = {
+    userId: string;
+    householdId: string;
+    scopes: string[];
+};
+
+/**
+ * Whether two grants carry the same scopes, in any order
+ */
+export function hasSameScopes(granted: string[], other: string[]): boolean {
+    const scopes = new Set(granted);
+    return scopes.size === new Set(other).size && other.every(scope => scopes.has(scope));
+}
+
+/**
+ * Make write tools reject the call when the token lacks the write scope.
+ * Call before registering tools. Tools count as read-only when registered
+ * with the `readOnlyHint` annotation; every other tool needs write access.
+ */
+export function enforceToolScopes(server: McpServer, scopes: string[]): void {
+    if (scopes.includes(PANTRY_SCOPES.write)) return;
+
+    const tool = server.tool.bind(server) as (...args: unknown[]) => RegisteredTool;
+    const registerTool = server.registerTool.bind(server) as (...args: unknown[]) => RegisteredTool;
+
+    server.tool = ((...args: unknown[]) => requireWriteScope(tool(...args), args[0])) as McpServer['tool'];
+    server.registerTool = ((...args: unknown[]) => requireWriteScope(registerTool(...args), args[0])) as McpServer['registerTool'];
+}
+
+function requireWriteScope(tool: RegisteredTool, name: unknown): RegisteredTool {
+    if (!tool.annotations?.readOnlyHint) {
+        tool.update({
+            callback: async () => errorResult(
+                new InsufficientScopeError(`${name} changes your pantry data and needs the ${PANTRY_SCOPES.write} scope`)
+            )
+        });
+    }
+
+    return tool;
+}
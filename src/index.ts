@@ -1,20 +1,53 @@
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import OAuthProvider, { type OAuthHelpers } from "@cloudflare/workers-oauth-provider";
 
 // Import Pantry-specific resources and tools (TODO: work on these resources)
 import { registerPantryResources } from "./resources/pantryResources";
 import { registerPantryTools } from "./tools/pantryTools";
-import { NotionPantryService } from "./services/notionPantryService";
-import type { DurableObjectNamespace } from "@cloudflare/workers-types";
+import {
+    createDatabaseSetup,
+    createPantryRepository,
+    createSetupDiagnostics
+} from "./services/repositoryFactory";
+import { WorkerEntrypoint } from "cloudflare:workers";
 import { registerUnitConversionTools } from "./tools/unitConversionTools";
+import { registerRecipeTools } from "./tools/recipeTools";
+import { registerMealPlanTools } from "./tools/mealPlanTools";
+import { registerJobResources } from "./resources/jobResources";
+import { registerWebhookResources } from "./resources/webhookResources";
+import { registerSetupResources } from "./resources/setupResources";
+import { registerSetupTools } from "./tools/setupTools";
+import { registerHouseholdPrompts } from "./prompts/householdPrompts";
+import { registerResourceSubscriptions } from "./resources/subscriptionResources";
+import { ResourceWatcher } from "./services/resourceWatcher";
+import { HouseholdEventNotifier } from "./services/webhooks";
+import authHandler from "./auth/authHandler";
+import { DEFAULT_HOUSEHOLD_ID, HouseholdRegistry, loadNotionCredentials } from "./services/householdRegistry";
+import { getHouseholdPantry, HouseholdPantry } from "./services/householdPantry";
+import { enforceToolScopes, hasSameScopes, PANTRY_SCOPES, type AuthProps } from "./auth/scopes";
+import type { NotionCredentials } from "./types";
 
 // Environment variables
 export interface Env {
-    PantryMcpServer: DurableObjectNamespace; // Durable Object for our agent
+    PantryMcpServer: DurableObjectNamespace<PantryMcpServer>; // Durable Object for our agent
+    HouseholdRegistry: DurableObjectNamespace<HouseholdRegistry>; // Durable Object holding every household's credentials
+    HouseholdPantry: DurableObjectNamespace<HouseholdPantry>; // Durable Object per household running its jobs and holding its durable-object backend pantry
     NOTION_TOKEN: string;                   // Notion API token
     NOTION_PANTRY_DB: string;               // Notion database ID for pantry
     NOTION_RECIPES_DB: string;              // Notion database ID for Recipes
     NOTION_SHOPPING_LIST_DB: string;        // Notion database ID for Shopping List 
+    NOTION_RECIPE_INGREDIENTS_DB?: string;  // Optional Notion database ID for Recipe Ingredients
+    NOTION_MEAL_PLAN_DB?: string;           // Optional Notion database ID for the Meal Plan
+    NOTION_PROPERTY_MAP?: string;           // Optional JSON overrides for the Notion property names
+    PANTRY_BACKEND?: string;                // Storage backend: notion (default), memory or durable-object
+    NOTION_API_BASE_URL?: string;           // Override the Notion API host (e.g. the local fake)
+    SCHEDULED_JOBS?: string;                // Optional JSON overrides for the background job schedules
+    WEBHOOKS?: string;                      // Optional JSON array of the default household's outbound webhooks ({url, secret, events})
+    OAUTH_KV: KVNamespace;                  // KV namespace the OAuth provider stores clients and grants in
+    OAUTH_PROVIDER: OAuthHelpers;           // Injected by the OAuth provider for the authorize handler
+    OAUTH_OWNER_PASSWORD?: string;          // Password the owner enters to approve a client for the default household
+    HOUSEHOLD_ADMIN_TOKEN?: string;         // Bearer token for the /admin/households API
 }
 
 // Simple state structure for our agent
@@ -23,7 +56,7 @@ type State = {
     lastUpdated: string;
 };
 
-export class PantryMcpServer extends McpAgent<Env, State> {
+export class PantryMcpServer extends McpAgent<Env, State, AuthProps> {
     
     server = new McpServer({
         name: "Pantry MCP Server",
@@ -41,23 +74,142 @@ export class PantryMcpServer extends McpAgent<Env, State> {
     async init() {
         console.log("Initializing Pantry MCP Agent");
 
-        const notionService = new NotionPantryService(
-            this.env.NOTION_TOKEN,
-            this.env.NOTION_PANTRY_DB,
-            this.env.NOTION_RECIPES_DB,
-            this.env.NOTION_SHOPPING_LIST_DB,
-            false // useDummyData flag - set to true for now
-        );
+        const householdId = await this.getHouseholdId();
+        const notion = await this.loadHouseholdCredentials(householdId);
 
-        registerPantryResources(this.server, notionService);
+        // The household's object runs its jobs and sends its webhooks, once
+        // however many sessions are open
+        const household = getHouseholdPantry(this.env, householdId);
+        await household.start(householdId);
 
-        registerPantryTools(this.server, notionService);
+        const webhooks = new HouseholdEventNotifier(await household.getWebhooks(), household);
+        const resourceWatcher = new ResourceWatcher(uri => this.server.server.sendResourceUpdated({ uri }));
+        const repository = createPantryRepository(this.env, { notifier: webhooks, notion, householdId, changeListener: resourceWatcher });
+        resourceWatcher.watchRepository(repository);
+        const diagnostics = createSetupDiagnostics(this.env, notion);
+        const databaseSetup = createDatabaseSetup(this.env, notion);
+
+        // Write tools refuse tokens that were only granted read access
+        enforceToolScopes(this.server, this.props?.scopes ?? []);
+
+        const pantryResources = registerPantryResources(this.server, repository);
+
+        registerJobResources(this.server, household);
+
+        registerWebhookResources(this.server, household);
+
+        registerSetupResources(this.server, diagnostics);
+
+        registerResourceSubscriptions(this.server, resourceWatcher);
+
+        registerPantryTools(this.server, repository);
+
+        registerRecipeTools(this.server, repository);
+
+        registerMealPlanTools(this.server, repository);
 
         registerUnitConversionTools(this.server);
 
+        registerSetupTools(this.server, diagnostics, databaseSetup);
+
+        // Prompts embed the resources registered above
+        registerHouseholdPrompts(this.server, pantryResources);
+
         console.log("Pantry MCP Agent initialized successfully");
     }
+
+    /**
+     * The grant this session was opened with, or null for a new session
+     */
+    async getSessionProps(): Promise<AuthProps | null> {
+        const props = await this.ctx.storage.get<AuthProps>("props");
+        return props ?? null;
+    }
+
+    private async getHouseholdId(): Promise<string> {
+        const props = this.props ?? await this.ctx.storage.get<AuthProps>("props");
+        return props?.householdId ?? DEFAULT_HOUSEHOLD_ID;
+    }
+
+    private async loadHouseholdCredentials(householdId: string): Promise<NotionCredentials> {
+        const notion = await loadNotionCredentials(this.env, householdId);
+        if (!notion) {
+            throw new Error(`Household ${householdId} no longer exists`);
+        }
+
+        return notion;
+    }
+}
+
+export { HouseholdRegistry, HouseholdPantry };
+
+const mcpHandler = PantryMcpServer.mount("/mcp", { binding: "PantryMcpServer" });
+
+type McpBindings = Parameters<typeof mcpHandler.fetch>[1];
+
+/**
+ * mount() types its binding as a namespace of the base McpAgent, whose
+ * loosely typed props no subclass's stub can match. The handler only looks
+ * sessions up in the namespace and forwards to them, so any Durable Object
+ * namespace bound to an McpAgent class will do.
+ */
+function isMcpAgentNamespace(binding: DurableObjectNamespace<PantryMcpServer>): binding is typeof binding & McpBindings[string] {
+    return typeof binding.idFromString === "function" && typeof binding.get === "function";
+}
+
+/**
+ * Only let a token reach sessions opened for its own household and with its own scopes
+ */
+class HouseholdMcpHandler extends WorkerEntrypoint<Env> {
+    async fetch(request: Request): Promise<Response> {
+        const props: AuthProps = this.ctx.props;
+        const sessionId = new URL(request.url).searchParams.get("sessionId");
+
+        if (sessionId) {
+            let session: AuthProps | null;
+            try {
+                const stub = this.env.PantryMcpServer.get(this.env.PantryMcpServer.idFromString(sessionId));
+                session = await stub.getSessionProps();
+            } catch {
+                return new Response("Invalid session", { status: 400 });
+            }
+
+            if (session && (session.householdId ?? DEFAULT_HOUSEHOLD_ID) !== (props.householdId ?? DEFAULT_HOUSEHOLD_ID)) {
+                return new Response("Session not found", { status: 404 });
+            }
+
+            // Tool scopes are fixed when the session starts, so another grant can't reuse it
+            if (session && !hasSameScopes(session.scopes ?? [], props.scopes ?? [])) {
+                return new Response("Session was opened with different scopes", { status: 403 });
+            }
+        }
+
+        const namespace = this.env.PantryMcpServer;
+        if (!isMcpAgentNamespace(namespace)) {
+            return new Response("The PantryMcpServer binding is not a Durable Object namespace", { status: 500 });
+        }
+
+        const response = await mcpHandler.fetch(request, { PantryMcpServer: namespace }, this.ctx);
+        return response ?? new Response("Not found", { status: 404 });
+    }
+}
+
+/**
+ * The consent pages and household admin API
+ */
+class AuthEntrypoint extends WorkerEntrypoint<Env> {
+    fetch(request: Request): Promise<Response> {
+        return Promise.resolve(authHandler.fetch(request, this.env, this.ctx));
+    }
 }
 
-// Export the mount function for the Durable Object
-export default PantryMcpServer.mount("/mcp", { binding: "PantryMcpServer" })
\ No newline at end of file
+// Serve the MCP endpoint behind OAuth; everything else is the authorize flow
+export default new OAuthProvider({
+    apiRoute: "/mcp",
+    apiHandler: HouseholdMcpHandler,
+    defaultHandler: AuthEntrypoint,
+    authorizeEndpoint: "/authorize",
+    tokenEndpoint: "/token",
+    clientRegistrationEndpoint: "/register",
+    scopesSupported: [PANTRY_SCOPES.read, PANTRY_SCOPES.write]
+});
@@ -0,0 +1,182 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { PromptMessage, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { FixedResources } from "../resources/pantryResources";
+
+type PromptExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Prompt arguments always arrive as strings
+const wholeNumber = z.string().regex(/^\d+$/, "Expected a whole number");
+
+export function registerHouseholdPrompts(server: McpServer, resources: FixedResources) {
+    // === MEAL PLANNING PROMPTS ===
+
+    /**
+     * Prompt: plan dinners for the rest of the week
+     */
+    server.prompt(
+        "planWeekDinners",
+        "Plan this week's dinners around what's in the pantry, then add the missing ingredients to the shopping list",
+        {
+            nights: wholeNumber.optional().describe("How many dinners to plan (default 7)"),
+            servings: wholeNumber.optional().describe("Servings per dinner (default: each recipe's own servings)"),
+            preferences: z.string().optional().describe("Dietary needs, dislikes or cuisines to favour")
+        },
+        async ({ nights, servings, preferences }, extra) => ({
+            description: "Plan this week's dinners",
+            messages: [
+                ...await embedResources(resources, extra, [
+                    "mcp://resource/meal-plan",
+                    "mcp://resource/pantry",
+                    "mcp://resource/recipes/suggestions"
+                ]),
+                userText([
+                    `Plan ${nights ?? 7} dinners for this week, starting today. The current meal plan, pantry and best-matching recipes are attached.`,
+                    "",
+                    "1. Keep the dinners that are already planned and only fill the empty days.",
+                    "2. Call suggestMeals (mode 'use-it-up' first, then 'best-match') and favour recipes that use food expiring soon. Avoid repeating a recipe in the same week.",
+                    `3. Add each dinner with planMeal using meal 'Dinner'${servings ? ` and ${servings} servings` : ""}.`,
+                    "4. Call addMealPlanToShoppingList for the week so the missing ingredients are on the shopping list.",
+                    "5. Finish with a day-by-day table of the dinners and a short list of what was added to the shopping list.",
+                    ...preferences ? ["", `Preferences: ${preferences}`] : []
+                ])
+            ]
+        })
+    );
+
+    /**
+     * Prompt: dinner tonight within a time limit
+     */
+    server.prompt(
+        "quickDinnerTonight",
+        "Suggest what to cook tonight from what's already in the pantry, within a time limit",
+        {
+            maxMinutes: wholeNumber.describe("Most minutes the meal can take, prep and cooking together"),
+            servings: wholeNumber.optional().describe("How many people are eating")
+        },
+        async ({ maxMinutes, servings }, extra) => ({
+            description: `Dinner tonight in under ${maxMinutes} minutes`,
+            messages: [
+                ...await embedResources(resources, extra, [
+                    "mcp://resource/pantry",
+                    "mcp://resource/recipes/suggestions"
+                ]),
+                userText([
+                    `What can I cook tonight in under ${maxMinutes} minutes? The pantry and the best-matching recipes are attached.`,
+                    "",
+                    "1. Only suggest recipes that can realistically be made in that time. Recipes don't record a cooking time, so judge from tags such as 'Quick' or 'Easy' and from the ingredients and method, and say when you're unsure.",
+                    "2. Prefer recipes the pantry covers completely; call suggestMeals with a higher minMatchPercentage if the attached suggestions don't fit.",
+                    `3. Give up to three options with what's missing for each${servings ? `, scaled with scaleRecipe to ${servings} servings` : ""}.`,
+                    "4. Once I pick one, offer to record it with updatePantryAfterCooking."
+                ])
+            ]
+        })
+    );
+
+    // === SHOPPING PROMPTS ===
+
+    /**
+     * Prompt: get the shopping list ready for a trip to the store
+     */
+    server.prompt(
+        "prepareGroceryTrip",
+        "Bring the shopping list up to date with low staples and the meal plan, then lay it out for the store",
+        {
+            store: z.string().optional().describe("Store being visited, used to order the list by its aisles"),
+            budget: z.string().optional().describe("Spending limit to keep the list within")
+        },
+        async ({ store, budget }, extra) => ({
+            description: "Prepare for a grocery trip",
+            messages: [
+                ...await embedResources(resources, extra, [
+                    "mcp://resource/shopping-list",
+                    "mcp://resource/meal-plan",
+                    "mcp://resource/pantry"
+                ]),
+                userText([
+                    `I'm about to go grocery shopping${store ? ` at ${store}` : ""}. The current shopping list, this week's meal plan and the pantry are attached.`,
+                    "",
+                    "1. Call replenishStaples to add staples that are running low.",
+                    "2. Call addMealPlanToShoppingList so this week's planned meals are covered.",
+                    "3. Call consolidateShoppingList to merge duplicate entries.",
+                    "4. Call getShoppingList and present the unpurchased items grouped by category in the order I'd walk the store, with high-priority items marked.",
+                    "5. Point out anything on the list the pantry already has enough of.",
+                    ...budget ? ["", `Keep the list within ${budget}; suggest what to drop first if it's likely to go over.`] : [],
+                    "",
+                    "When I'm back, offer to run addPurchasedItemsToPantry."
+                ])
+            ]
+        })
+    );
+
+    // === PANTRY PROMPTS ===
+
+    /**
+     * Prompt: use up food before it goes off
+     */
+    server.prompt(
+        "cleanOutFridge",
+        "Find meals that use up food expiring soon and tidy away anything already expired",
+        {
+            expiringWithinDays: wholeNumber.optional().describe("Count items expiring within this many days (default 3)"),
+            location: z.string().optional().describe("Only look at one storage location, such as Fridge or Freezer")
+        },
+        async ({ expiringWithinDays, location }, extra) => {
+            const days = expiringWithinDays ?? "3";
+
+            return {
+                description: "Clean out the fridge",
+                messages: [
+                    ...await embedResources(resources, extra, ["mcp://resource/pantry"]),
+                    userText([
+                        `Help me clean out the ${location ?? "fridge"}. The pantry is attached with each item's location and expiry date.`,
+                        "",
+                        `1. List the items${location ? ` in ${location}` : ""} that have expired or expire within ${days} days, soonest first.`,
+                        `2. Call suggestMeals with mode 'use-it-up' and expiringWithinDays ${days}, and suggest meals that use as many of those items as possible.`,
+                        "3. For items no recipe uses, suggest simple ways to use or preserve them (freezing, stock, snacks).",
+                        "4. Ask before calling removeExpiredItems for anything already past its date, and record what I cook with updatePantryAfterCooking."
+                    ])
+                ]
+            };
+        }
+    );
+}
+
+// ====== HELPER METHODS ======
+
+function userText(lines: string[]): PromptMessage {
+    return {
+        role: "user",
+        content: { type: "text", text: lines.join("\n") }
+    };
+}
+
+/**
+ * Read resources the server already registers, so the prompt carries
+ * exactly what a client would get by reading them itself
+ */
+async function embedResources(resources: FixedResources, extra: PromptExtra, uris: string[]): Promise<PromptMessage[]> {
+    const messages: PromptMessage[] = [];
+
+    for (const uri of uris) {
+        const resource = resources.get(uri);
+        if (!resource) {
+            throw new Error(`Resource ${uri} is not registered`);
+        }
+
+        const result = await resource.readCallback(new URL(uri), extra);
+
+        for (const contents of result.contents) {
+            messages.push({
+                role: "user",
+                content: {
+                    type: "resource",
+                    resource: { mimeType: "application/json", ...contents }
+                }
+            });
+        }
+    }
+
+    return messages;
+}
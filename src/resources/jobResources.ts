@@ -0,0 +1,40 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { HouseholdPantry } from "../services/householdPantry";
+
+export function registerJobResources(
+    server: McpServer,
+    household: DurableObjectStub<HouseholdPantry>
+) {
+    // === SCHEDULED JOB RESOURCES ===
+
+    // Background jobs - schedule, last run status and recent results
+    server.resource(
+        "jobs",
+        "mcp://resource/jobs",
+        async (uri) => {
+            try {
+                const jobs = await household.getJobStatus();
+
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        text: JSON.stringify({
+                            jobs,
+                            failingJobs: jobs
+                                .filter(job => job.lastRun?.status === 'error')
+                                .map(job => job.name)
+                        }, null, 2)
+                    }]
+                };
+            } catch (error) {
+                console.error("Error fetching scheduled jobs:", error);
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        text: JSON.stringify({ error: "Failed to fetch scheduled jobs" })
+                    }]
+                };
+            }
+        }
+    );
+}
@@ -1,19 +1,53 @@
-import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { NotionPantryService } from "../services/notionPantryService";
+import {
+    McpServer,
+    ResourceTemplate,
+    type ListResourcesCallback,
+    type ReadResourceCallback,
+    type RegisteredResource
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Resource } from "@modelcontextprotocol/sdk/types.js";
+import { groupMealPlanByDay, resolveMealPlanRange } from "../services/mealPlanning";
+import type { PantryRepository } from "../services/pantryRepository";
+import { canMakeRecipe, checkIngredientAvailability, findPantryItem, type IngredientStatus } from "../types/recipeIngredients";
+
+// Number of entries returned by each paged resource read
+const RESOURCE_PAGE_SIZE = 50;
+
+// Cursor value that requests the first page of a paged resource
+const FIRST_PAGE_CURSOR = "start";
+
+// How each ingredient's availability reads in the recipe resource
+const AVAILABILITY_LABELS: Record<IngredientStatus, string> = {
+    available: "Yes",
+    insufficient: "Insufficient",
+    missing: "No",
+    unknown: "Unknown"
+};
+
+/**
+ * The fixed-URI resources by URI, for prompts that embed them
+ */
+export type FixedResources = ReadonlyMap<string, RegisteredResource>;
 
 export function registerPantryResources(
     server: McpServer,
-    notionService: NotionPantryService
-) {
+    repository: PantryRepository
+): FixedResources {
+    const fixedResources = new Map<string, RegisteredResource>();
+
+    const registerFixed = (name: string, uri: string, readCallback: ReadResourceCallback) => {
+        fixedResources.set(uri, server.resource(name, uri, readCallback));
+    };
+
     // === PANTRY RESOURCES ===
 
     // Main pantry resource - provides summary of pantry inventory
-    server.resource(
+    registerFixed(
         "pantry",
         "mcp://resource/pantry",
         async (uri) => {
             try {
-                const items = await notionService.getPantryItems();
+                const items = await repository.getPantryItems();
 
                 // Calculate stats for the pantry
                 const categories = new Map<string, number>();
@@ -63,6 +97,7 @@ export function registerPantryResources(
                                     stapleCount: items.filter(item => item.isStaple).length,
                                     expiringItemsCount: expiringItems,
                                     lowStapleItemsCount: lowStapleItems,
+                                    firstPage: `pantry-page://${FIRST_PAGE_CURSOR}`,
                                     items: items.map(item => ({
                                         id: item.id,
                                         name: item.name,
@@ -92,13 +127,64 @@ export function registerPantryResources(
         }
     );
 
-    // Pantry statistics resource - provides analytics about the pantry
+    // Paged pantry resource - walks the inventory one page at a time
     server.resource(
+        "pantryPage",
+        new ResourceTemplate("pantry-page://{cursor}", { list: undefined }),
+        async (uri, vars) => {
+            try {
+                const cursor = Array.isArray(vars.cursor) ? vars.cursor[0] : vars.cursor;
+                const page = await repository.getPantryItemsPage(
+                    cursor === FIRST_PAGE_CURSOR ? undefined : cursor,
+                    RESOURCE_PAGE_SIZE
+                );
+
+                return {
+                    contents: [
+                        {
+                            uri: uri.href,
+                            text: JSON.stringify(
+                                {
+                                    count: page.items.length,
+                                    hasMore: page.hasMore,
+                                    nextCursor: page.nextCursor,
+                                    nextPage: page.nextCursor ? `pantry-page://${page.nextCursor}` : null,
+                                    items: page.items.map(item => ({
+                                        id: item.id,
+                                        name: item.name,
+                                        quantity: `${item.quantity} ${item.unit}`,
+                                        category: item.category,
+                                        location: item.location,
+                                        expiry: item.expiryDate || "No expiry"
+                                    }))
+                                },
+                                null,
+                                2
+                            )
+                        }
+                    ]
+                };
+            } catch (error) {
+                console.error(`Error fetching pantry page ${vars.cursor}:`, error);
+                return {
+                    contents: [
+                        {
+                            uri: uri.href,
+                            text: JSON.stringify({ error: "Failed to fetch pantry page" }, null, 2)
+                        }
+                    ]
+                };
+            }
+        }
+    );
+
+    // Pantry statistics resource - provides analytics about the pantry
+    registerFixed(
         "pantryStats",
         "mcp://resource/pantry/stats",
         async (uri) => {
             try {
-                const items = await notionService.getPantryItems();
+                const items = await repository.getPantryItems();
 
                 // Calculate statistics
                 const totalItems = items.length;
@@ -185,12 +271,12 @@ export function registerPantryResources(
     );
 
     // Pantry categories resource - list all categories
-    server.resource(
+    registerFixed(
         "pantryCategories",
         "mcp://resource/pantry/categories",
         async (uri) => {
             try {
-                const items = await notionService.getPantryItems();
+                const items = await repository.getPantryItems();
                 const categories = [...new Set(items.map(item => item.category))];
 
                 return {
@@ -218,11 +304,25 @@ export function registerPantryResources(
     // Individual pantry item resource
     server.resource(
         "pantryItem",
-        new ResourceTemplate("pantry-item://{itemId}", { list: undefined }),
+        new ResourceTemplate("pantry-item://{itemId}", {
+            list: listTemplateResources("pantry items", async () => {
+                const items = await repository.getPantryItems();
+                return items.map(item => ({
+                    uri: `pantry-item://${encodeURIComponent(item.id)}`,
+                    name: item.name,
+                    description: `${item.quantity} ${item.unit} in ${item.location}`,
+                    mimeType: "application/json"
+                }));
+            }),
+            complete: {
+                // Typing part of an item's name completes its ID
+                itemId: async (value) => completeIds(await repository.getPantryItems(), value)
+            }
+        }),
         async (uri, vars) => {
             try {
-                const itemId = Array.isArray(vars.itemId) ? vars.itemId[0] : vars.itemId;
-                const item = await notionService.getPantryItemById(itemId);
+                const itemId = decodeURIComponent(Array.isArray(vars.itemId) ? vars.itemId[0] : vars.itemId);
+                const item = await repository.getPantryItemById(itemId);
 
                 if (!item) {
                     return {
@@ -272,11 +372,27 @@ export function registerPantryResources(
     // Pantry items by category
     server.resource(
         "pantryCategory",
-        new ResourceTemplate("pantry-category://{category}", { list: undefined }),
+        new ResourceTemplate("pantry-category://{category}", {
+            list: listTemplateResources("pantry categories", async () => {
+                const items = await repository.getPantryItems();
+                return countValues(items.map(item => item.category)).map(([category, count]) => ({
+                    uri: `pantry-category://${encodeURIComponent(category)}`,
+                    name: category,
+                    description: `${count} pantry item${count === 1 ? "" : "s"}`,
+                    mimeType: "application/json"
+                }));
+            }),
+            complete: {
+                category: async (value) => {
+                    const items = await repository.getPantryItems();
+                    return completeValues(items.map(item => item.category), value);
+                }
+            }
+        }),
         async (uri, vars) => {
             try {
-                const category = Array.isArray(vars.category) ? vars.category[0] : vars.category;
-                const items = await notionService.getPantryItemsByCategory(category);
+                const category = decodeURIComponent(Array.isArray(vars.category) ? vars.category[0] : vars.category);
+                const items = await repository.getPantryItemsByCategory(category);
 
                 return {
                     contents: [
@@ -317,12 +433,12 @@ export function registerPantryResources(
     // === RECIPE RESOURCES ===
 
     // Recipe list resource
-    server.resource(
+    registerFixed(
         "recipes",
         "mcp://resource/recipes",
         async (uri) => {
             try {
-                const recipes = await notionService.getRecipes();
+                const recipes = await repository.getRecipes();
                 return {
                     contents: [
                         {
@@ -331,6 +447,7 @@ export function registerPantryResources(
                                 {
                                     total: recipes.length,
                                     tags: [...new Set(recipes.flatMap(recipe => recipe.tags))],
+                                    firstPage: `recipes-page://${FIRST_PAGE_CURSOR}`,
                                     recipes: recipes.map(recipe => ({
                                         id: recipe.id,
                                         name: recipe.name,
@@ -359,14 +476,64 @@ export function registerPantryResources(
         }
     );
 
-    // Recipe suggestions resource
+    // Paged recipe resource - walks the recipe collection one page at a time
     server.resource(
+        "recipesPage",
+        new ResourceTemplate("recipes-page://{cursor}", { list: undefined }),
+        async (uri, vars) => {
+            try {
+                const cursor = Array.isArray(vars.cursor) ? vars.cursor[0] : vars.cursor;
+                const page = await repository.getRecipesPage(
+                    cursor === FIRST_PAGE_CURSOR ? undefined : cursor,
+                    RESOURCE_PAGE_SIZE
+                );
+
+                return {
+                    contents: [
+                        {
+                            uri: uri.href,
+                            text: JSON.stringify(
+                                {
+                                    count: page.items.length,
+                                    hasMore: page.hasMore,
+                                    nextCursor: page.nextCursor,
+                                    nextPage: page.nextCursor ? `recipes-page://${page.nextCursor}` : null,
+                                    recipes: page.items.map(recipe => ({
+                                        id: recipe.id,
+                                        name: recipe.name,
+                                        tags: recipe.tags,
+                                        tried: recipe.tried ? "Yes" : "No",
+                                        link: recipe.link || "No link"
+                                    }))
+                                },
+                                null,
+                                2
+                            )
+                        }
+                    ]
+                };
+            } catch (error) {
+                console.error(`Error fetching recipes page ${vars.cursor}:`, error);
+                return {
+                    contents: [
+                        {
+                            uri: uri.href,
+                            text: JSON.stringify({ error: "Failed to fetch recipes page" }, null, 2)
+                        }
+                    ]
+                };
+            }
+        }
+    );
+
+    // Recipe suggestions resource
+    registerFixed(
         "recipeSuggestions",
         "mcp://resource/recipes/suggestions",
         async (uri) => {
             try {
-                const pantryItems = await notionService.getPantryItems();
-                const suggestions = await notionService.suggestMeals(pantryItems, 5);
+                const pantryItems = await repository.getPantryItems();
+                const suggestions = await repository.suggestMeals(pantryItems, { maxResults: 5 });
 
                 return {
                     contents: [
@@ -376,14 +543,19 @@ export function registerPantryResources(
                                 {
                                     count: suggestions.length,
                                     suggestions: suggestions.map(suggestion => ({
+                                        rank: suggestion.rank,
                                         id: suggestion.recipe.id,
                                         name: suggestion.recipe.name,
                                         tags: suggestion.recipe.tags,
                                         tried: suggestion.recipe.tried ? "Yes" : "No",
-                                        ingredients: suggestion.ingredients.map(ing => ({
-                                            name: ing.name,
-                                            quantity: `${ing.quantity} ${ing.unit}`,
-                                            optional: ing.isOptional ? "Yes" : "No"
+                                        matchPercentage: suggestion.matchPercentage,
+                                        explanation: suggestion.explanation,
+                                        missingIngredients: suggestion.missingIngredients.map(missing => ({
+                                            name: missing.name,
+                                            status: missing.status === 'unknown' ? "unknown, can't compare units" : missing.status,
+                                            need: `${missing.need} ${missing.unit}`,
+                                            // Unknown amounts stay in the pantry's own unit
+                                            have: `${missing.have} ${missing.status === 'unknown' ? missing.pantryUnit : missing.unit}`
                                         }))
                                     }))
                                 },
@@ -408,12 +580,12 @@ export function registerPantryResources(
     );
 
     // Recipe tags resource
-    server.resource(
+    registerFixed(
         "recipeTags",
         "mcp://resource/recipes/tags",
         async (uri) => {
             try {
-                const recipes = await notionService.getRecipes();
+                const recipes = await repository.getRecipes();
                 const tags = [...new Set(recipes.flatMap(recipe => recipe.tags))];
 
                 // Count recipes per tag
@@ -454,11 +626,25 @@ export function registerPantryResources(
     // Individual recipe resource
     server.resource(
         "recipe",
-        new ResourceTemplate("recipe://{recipeId}", { list: undefined }),
+        new ResourceTemplate("recipe://{recipeId}", {
+            list: listTemplateResources("recipes", async () => {
+                const recipes = await repository.getRecipes();
+                return recipes.map(recipe => ({
+                    uri: `recipe://${encodeURIComponent(recipe.id)}`,
+                    name: recipe.name,
+                    description: recipe.tags.length > 0 ? recipe.tags.join(", ") : undefined,
+                    mimeType: "application/json"
+                }));
+            }),
+            complete: {
+                // Typing part of a recipe's name completes its ID
+                recipeId: async (value) => completeIds(await repository.getRecipes(), value)
+            }
+        }),
         async (uri, vars) => {
             try {
-                const recipeId = Array.isArray(vars.recipeId) ? vars.recipeId[0] : vars.recipeId;
-                const recipeWithIngredients = await notionService.getRecipeWithIngredients(recipeId);
+                const recipeId = decodeURIComponent(Array.isArray(vars.recipeId) ? vars.recipeId[0] : vars.recipeId);
+                const recipeWithIngredients = await repository.getRecipeWithIngredients(recipeId);
 
                 if (!recipeWithIngredients) {
                     return {
@@ -472,22 +658,20 @@ export function registerPantryResources(
                 }
 
                 // Get pantry info for checking ingredient availability
-                const pantryItems = await notionService.getPantryItems();
+                const pantryItems = await repository.getPantryItems();
 
-                // Check which ingredients we have
+                // Check which ingredients we have, converting units the same way suggestions do
                 const ingredientsWithAvailability = recipeWithIngredients.ingredients.map(ingredient => {
-                    const pantryItem = pantryItems.find(item =>
-                        item.name.toLowerCase() === ingredient.name.toLowerCase()
-                    );
+                    const pantryItem = findPantryItem(ingredient, pantryItems);
+                    const availability = checkIngredientAvailability(ingredient, pantryItems);
 
                     return {
                         name: ingredient.name,
                         quantity: `${ingredient.quantity} ${ingredient.unit}`,
                         optional: ingredient.isOptional ? "Yes" : "No",
-                        available: pantryItem
-                            ? (pantryItem.quantity >= ingredient.quantity ? "Yes" : "Insufficient")
-                            : "No",
-                        haveQuantity: pantryItem ? `${pantryItem.quantity} ${pantryItem.unit}` : "0"
+                        available: AVAILABILITY_LABELS[availability.status],
+                        haveQuantity: pantryItem ? `${pantryItem.quantity} ${pantryItem.unit}` : "0",
+                        ...(availability.reason ? { reason: availability.reason } : {})
                     };
                 });
 
@@ -504,9 +688,7 @@ export function registerPantryResources(
                                     link: recipeWithIngredients.recipe.link || "No link",
                                     createdAt: recipeWithIngredients.recipe.createdAt,
                                     ingredients: ingredientsWithAvailability,
-                                    canMake: ingredientsWithAvailability.every(ing =>
-                                        ing.optional === "Yes" || ing.available === "Yes"
-                                    )
+                                    canMake: canMakeRecipe(recipeWithIngredients, pantryItems)
                                 },
                                 null,
                                 2
@@ -531,11 +713,27 @@ export function registerPantryResources(
     // Recipes by tag resource
     server.resource(
         "recipesByTag",
-        new ResourceTemplate("recipes-by-tag://{tag}", { list: undefined }),
+        new ResourceTemplate("recipes-by-tag://{tag}", {
+            list: listTemplateResources("recipe tags", async () => {
+                const recipes = await repository.getRecipes();
+                return countValues(recipes.flatMap(recipe => recipe.tags)).map(([tag, count]) => ({
+                    uri: `recipes-by-tag://${encodeURIComponent(tag)}`,
+                    name: `Recipes tagged ${tag}`,
+                    description: `${count} recipe${count === 1 ? "" : "s"}`,
+                    mimeType: "application/json"
+                }));
+            }),
+            complete: {
+                tag: async (value) => {
+                    const recipes = await repository.getRecipes();
+                    return completeValues(recipes.flatMap(recipe => recipe.tags), value);
+                }
+            }
+        }),
         async (uri, vars) => {
             try {
-                const tag = Array.isArray(vars.tag) ? vars.tag[0] : vars.tag;
-                const recipes = await notionService.getRecipesByTag(tag);
+                const tag = decodeURIComponent(Array.isArray(vars.tag) ? vars.tag[0] : vars.tag);
+                const recipes = await repository.getRecipesByTag(tag);
 
                 return {
                     contents: [
@@ -576,12 +774,12 @@ export function registerPantryResources(
     // === SHOPPING LIST RESOURCES ===
 
     // Shopping list resource
-    server.resource(
+    registerFixed(
         "shoppingList",
         "mcp://resource/shopping-list",
         async (uri) => {
             try {
-                const shoppingList = await notionService.getShoppingList();
+                const shoppingList = await repository.getShoppingList();
 
                 // Group by category
                 const categories = new Map<string, typeof shoppingList>();
@@ -632,4 +830,117 @@ export function registerPantryResources(
             }
         }
     );
-}
\ No newline at end of file
+
+    // === MEAL PLAN RESOURCES ===
+
+    // This week's meal plan with the combined ingredient needs
+    registerFixed(
+        "mealPlan",
+        "mcp://resource/meal-plan",
+        async (uri) => {
+            try {
+                const needs = await repository.getMealPlanNeeds(resolveMealPlanRange());
+
+                const result = {
+                    startDate: needs.startDate,
+                    endDate: needs.endDate,
+                    plannedMeals: needs.entries.length,
+                    days: groupMealPlanByDay(needs.entries).map(day => ({
+                        date: day.date,
+                        meals: day.meals.map(entry => ({
+                            id: entry.id,
+                            meal: entry.meal,
+                            recipeId: entry.recipeId,
+                            recipe: entry.recipeName,
+                            servings: entry.servings,
+                            notes: entry.notes
+                        }))
+                    })),
+                    ingredients: needs.ingredients.map(ingredient => ({
+                        name: ingredient.name,
+                        need: `${ingredient.need} ${ingredient.unit}`,
+                        have: `${ingredient.have} ${ingredient.unit}`,
+                        onShoppingList: `${ingredient.onShoppingList} ${ingredient.unit}`,
+                        shortfall: ingredient.shortfall > 0 ? `${ingredient.shortfall} ${ingredient.unit}` : "None",
+                        recipes: ingredient.recipes
+                    })),
+                    unitMismatches: needs.unitMismatches,
+                    missingRecipes: needs.missingRecipes
+                };
+
+                return {
+                    contents: [
+                        {
+                            uri: uri.href,
+                            text: JSON.stringify(result, null, 2)
+                        }
+                    ]
+                };
+            } catch (error) {
+                console.error("Error fetching meal plan:", error);
+                return {
+                    contents: [
+                        {
+                            uri: uri.href,
+                            text: JSON.stringify({ error: "Failed to fetch meal plan" }, null, 2)
+                        }
+                    ]
+                };
+            }
+        }
+    );
+
+    return fixedResources;
+}
+
+// ====== HELPER METHODS ======
+
+/**
+ * List callback for a resource template. A failed lookup lists nothing
+ * instead of failing the whole resources/list request.
+ */
+function listTemplateResources(description: string, list: () => Promise<Resource[]>): ListResourcesCallback {
+    return async () => {
+        try {
+            return { resources: await list() };
+        } catch (error) {
+            console.error(`Error listing ${description}:`, error);
+            return { resources: [] };
+        }
+    };
+}
+
+/**
+ * Distinct values with how often each occurs, alphabetically
+ */
+function countValues(values: string[]): [string, number][] {
+    const counts = new Map<string, number>();
+    values.filter(Boolean).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+    return Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Distinct values matching what's been typed: those starting with it
+ * first, then those containing it anywhere
+ */
+function completeValues(values: string[], typed: string): string[] {
+    const query = typed.trim().toLowerCase();
+    const distinct = countValues(values).map(([value]) => value);
+
+    return [
+        ...distinct.filter(value => value.toLowerCase().startsWith(query)),
+        ...distinct.filter(value => !value.toLowerCase().startsWith(query) && value.toLowerCase().includes(query))
+    ];
+}
+
+/**
+ * IDs of the entries whose name matches what's been typed, or whose ID starts with it
+ */
+function completeIds(entries: { id: string; name: string }[], typed: string): string[] {
+    const names = completeValues(entries.map(entry => entry.name), typed);
+    const byName = names.flatMap(name => entries.filter(entry => entry.name === name).map(entry => entry.id));
+    const byId = entries.filter(entry => entry.id.startsWith(typed)).map(entry => entry.id);
+
+    return [...new Set([...byName, ...byId])];
+}
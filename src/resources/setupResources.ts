@@ -0,0 +1,35 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { SetupDiagnostics } from "../services/setupDiagnostics";
+
+export function registerSetupResources(
+    server: McpServer,
+    diagnostics: SetupDiagnostics
+) {
+    // === SETUP RESOURCES ===
+
+    // Setup health - database access and schema drift
+    server.resource(
+        "setupHealth",
+        "mcp://resource/setup/health",
+        async (uri) => {
+            try {
+                const report = await diagnostics.diagnose();
+
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        text: JSON.stringify(report, null, 2)
+                    }]
+                };
+            } catch (error) {
+                console.error("Error checking setup health:", error);
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        text: JSON.stringify({ error: "Failed to check setup health" })
+                    }]
+                };
+            }
+        }
+    );
+}
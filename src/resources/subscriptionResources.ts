@@ -0,0 +1,23 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { ResourceWatcher } from "../services/resourceWatcher";
+
+export function registerResourceSubscriptions(
+    server: McpServer,
+    watcher: ResourceWatcher
+) {
+    // === RESOURCE SUBSCRIPTIONS ===
+
+    // McpServer doesn't handle subscriptions itself, so they're answered by the underlying server
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        watcher.subscribe(request.params.uri);
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        watcher.unsubscribe(request.params.uri);
+        return {};
+    });
+}
@@ -0,0 +1,42 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { HouseholdPantry } from "../services/householdPantry";
+
+export function registerWebhookResources(
+    server: McpServer,
+    household: DurableObjectStub<HouseholdPantry>
+) {
+    // === WEBHOOK RESOURCES ===
+
+    // Outbound webhooks - configured endpoints and recent deliveries
+    server.resource(
+        "webhookDeliveries",
+        "mcp://resource/webhooks/deliveries",
+        async (uri) => {
+            try {
+                const [webhooks, deliveries] = await Promise.all([
+                    household.getWebhooks(),
+                    household.getDeliveryLog()
+                ]);
+
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        text: JSON.stringify({
+                            webhooks,
+                            failedCount: deliveries.filter(delivery => delivery.status === 'failed').length,
+                            deliveries
+                        }, null, 2)
+                    }]
+                };
+            } catch (error) {
+                console.error("Error fetching webhook deliveries:", error);
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        text: JSON.stringify({ error: "Failed to fetch webhook deliveries" })
+                    }]
+                };
+            }
+        }
+    );
+}
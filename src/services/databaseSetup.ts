@@ -0,0 +1,331 @@
+// src/services/databaseSetup.ts
+import { APIErrorCode, Client, isNotionClientError } from "@notionhq/client";
+import {
+    getExpectedProperties,
+    NOTION_DATABASE_SETTINGS,
+    NOTION_DATABASE_TITLES,
+    resolveNotionPropertyMap,
+    type ExpectedNotionProperty,
+    type NotionCredentials,
+    type NotionDatabaseName,
+    type NotionPropertyMap
+} from "../types";
+
+// Databases every Notion setup needs; the rest are opt-in
+export const REQUIRED_DATABASES: NotionDatabaseName[] = ['pantry', 'recipes', 'shoppingList'];
+
+// Recipes come before the databases that relate to them
+const SETUP_ORDER: NotionDatabaseName[] = ['pantry', 'recipes', 'shoppingList', 'recipeIngredients', 'mealPlan'];
+
+// Relation properties and the database they point at
+const RELATION_TARGETS: Partial<Record<NotionDatabaseName, Record<string, NotionDatabaseName>>> = {
+    recipeIngredients: { recipeId: 'recipes' },
+    mealPlan: { recipeId: 'recipes' }
+};
+
+export interface DatabaseSetupOptions {
+    /**
+     * Page new databases are created under
+     */
+    parentPageId?: string;
+
+    /**
+     * Which databases to set up, defaulting to the required ones
+     */
+    databases?: NotionDatabaseName[];
+
+    /**
+     * Report what would change without changing anything
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * What happened to one database
+ */
+export interface DatabaseSetupResult {
+    database: NotionDatabaseName;
+    title: string;
+    status: 'created' | 'updated' | 'unchanged' | 'failed';
+    databaseId?: string;
+    addedProperties: string[];
+    skippedProperties: { name: string; reason: string }[];
+    conflicts: string[];
+    error?: string;
+}
+
+export interface DatabaseSetupReport {
+    dryRun: boolean;
+    parentPageId?: string;
+    databases: DatabaseSetupResult[];
+
+    /**
+     * Database IDs to configure, keyed by environment variable
+     */
+    settings: Record<string, string>;
+}
+
+/**
+ * Creates the Notion databases from the schema constants, or adds the
+ * properties an existing database is missing. Existing databases are
+ * found by their configured ID or by title under the parent page, so
+ * running it again changes nothing.
+ */
+export class NotionDatabaseSetup {
+    private client: Client;
+    private propertyMap: NotionPropertyMap;
+
+    constructor(private notion: NotionCredentials, notionBaseUrl?: string) {
+        this.client = new Client({
+            auth: notion.token,
+            baseUrl: notionBaseUrl,
+            fetch: (...args) => fetch(...args)
+        });
+        this.propertyMap = resolveNotionPropertyMap(notion.propertyMap);
+    }
+
+    async setupDatabases(options: DatabaseSetupOptions = {}): Promise<DatabaseSetupReport> {
+        const requested = options.databases?.length ? options.databases : REQUIRED_DATABASES;
+        const dryRun = options.dryRun ?? false;
+
+        const databaseIds = new Map<NotionDatabaseName, string>();
+        const results: DatabaseSetupResult[] = [];
+
+        for (const database of SETUP_ORDER.filter(name => requested.includes(name))) {
+            const result = await this.setupDatabase(database, databaseIds, options.parentPageId, dryRun);
+            results.push(result);
+
+            if (result.databaseId) {
+                databaseIds.set(database, result.databaseId);
+            } else if (dryRun && result.status === 'created') {
+                // Stands in for the ID so relations to it are still planned
+                databaseIds.set(database, `<new ${result.title} database>`);
+            }
+        }
+
+        return {
+            dryRun,
+            parentPageId: options.parentPageId,
+            databases: results,
+            settings: Object.fromEntries(
+                results
+                    .filter(result => result.databaseId)
+                    .map(result => [NOTION_DATABASE_SETTINGS[result.database].variable, result.databaseId!])
+            )
+        };
+    }
+
+    // ====== SETUP ======
+
+    private async setupDatabase(
+        database: NotionDatabaseName,
+        databaseIds: Map<NotionDatabaseName, string>,
+        parentPageId: string | undefined,
+        dryRun: boolean
+    ): Promise<DatabaseSetupResult> {
+        const result: DatabaseSetupResult = {
+            database,
+            title: NOTION_DATABASE_TITLES[database],
+            status: 'unchanged',
+            addedProperties: [],
+            skippedProperties: [],
+            conflicts: []
+        };
+
+        try {
+            const existing = await this.findDatabase(database, parentPageId);
+
+            if (existing) {
+                result.databaseId = existing.id;
+                return await this.addMissingProperties(result, existing, databaseIds, dryRun);
+            }
+
+            if (!parentPageId) {
+                return {
+                    ...result,
+                    status: 'failed',
+                    error: `${NOTION_DATABASE_SETTINGS[database].variable} is not set, so pass a parent page ID to create the ${result.title} database under`
+                };
+            }
+
+            return await this.createDatabase(result, parentPageId, databaseIds, dryRun);
+        } catch (error) {
+            console.error(`Error setting up the ${database} database:`, error);
+            return { ...result, status: 'failed', error: this.describeError(error) };
+        }
+    }
+
+    /**
+     * The configured database, or a database with the expected title under the parent page
+     */
+    private async findDatabase(database: NotionDatabaseName, parentPageId?: string): Promise<any | null> {
+        const configuredId = this.notion[NOTION_DATABASE_SETTINGS[database].credential] as string | undefined;
+
+        // A configured ID that can't be read is an error, not a reason to create another database
+        if (configuredId) {
+            return this.client.databases.retrieve({ database_id: configuredId });
+        }
+
+        if (!parentPageId) return null;
+
+        const title = NOTION_DATABASE_TITLES[database].toLowerCase();
+        let cursor: string | undefined;
+        do {
+            const children: any = await this.client.blocks.children.list({ block_id: parentPageId, start_cursor: cursor });
+            const match = children.results.find((block: any) =>
+                block.type === 'child_database' && block.child_database.title.trim().toLowerCase() === title
+            );
+
+            if (match) {
+                return this.client.databases.retrieve({ database_id: match.id });
+            }
+
+            cursor = children.next_cursor ?? undefined;
+        } while (cursor);
+
+        return null;
+    }
+
+    private async createDatabase(
+        result: DatabaseSetupResult,
+        parentPageId: string,
+        databaseIds: Map<NotionDatabaseName, string>,
+        dryRun: boolean
+    ): Promise<DatabaseSetupResult> {
+        const properties: Record<string, any> = {};
+
+        for (const property of getExpectedProperties(result.database, this.propertyMap)) {
+            const schema = this.toPropertySchema(result.database, property, databaseIds);
+
+            if (typeof schema === 'string') {
+                // Don't create a database the server can't use
+                if (property.required) {
+                    return { ...result, status: 'failed', addedProperties: [], error: `Can't create "${property.name}": ${schema}` };
+                }
+                result.skippedProperties.push({ name: property.name, reason: schema });
+            } else {
+                properties[property.name] = schema;
+                result.addedProperties.push(property.name);
+            }
+        }
+
+        if (!dryRun) {
+            const response = await this.client.databases.create({
+                parent: { type: "page_id", page_id: parentPageId },
+                title: [{ type: "text", text: { content: result.title } }],
+                properties
+            });
+            result.databaseId = response.id;
+        }
+
+        return { ...result, status: 'created' };
+    }
+
+    /**
+     * Add the properties the server reads. Optional schema properties are
+     * left alone, and properties with the wrong type are only reported.
+     */
+    private async addMissingProperties(
+        result: DatabaseSetupResult,
+        existing: any,
+        databaseIds: Map<NotionDatabaseName, string>,
+        dryRun: boolean
+    ): Promise<DatabaseSetupResult> {
+        const actual: Record<string, any> = existing.properties ?? {};
+        const properties: Record<string, any> = {};
+
+        for (const property of getExpectedProperties(result.database, this.propertyMap)) {
+            if (!property.field) continue;
+
+            const found = actual[property.name];
+            if (found) {
+                if (found.type !== property.type) {
+                    result.conflicts.push(`"${property.name}" is ${found.type} but ${property.type} is expected; change it in Notion or map it with NOTION_PROPERTY_MAP`);
+                }
+                continue;
+            }
+
+            // Notion databases always have exactly one title property
+            if (property.type === 'title') {
+                const title = Object.entries(actual).find(([, value]) => value.type === 'title')?.[0];
+                result.conflicts.push(`The title property is "${title}" rather than "${property.name}"; rename it in Notion or map it with NOTION_PROPERTY_MAP`);
+                continue;
+            }
+
+            const schema = this.toPropertySchema(result.database, property, databaseIds);
+            if (typeof schema === 'string') {
+                result.skippedProperties.push({ name: property.name, reason: schema });
+            } else {
+                properties[property.name] = schema;
+                result.addedProperties.push(property.name);
+            }
+        }
+
+        if (result.addedProperties.length === 0) {
+            return result;
+        }
+
+        if (!dryRun) {
+            await this.client.databases.update({ database_id: result.databaseId!, properties });
+        }
+
+        return { ...result, status: 'updated' };
+    }
+
+    // ====== HELPER METHODS ======
+
+    /**
+     * Notion's configuration for a new property, or why it can't be created
+     */
+    private toPropertySchema(
+        database: NotionDatabaseName,
+        property: ExpectedNotionProperty,
+        databaseIds: Map<NotionDatabaseName, string>
+    ): any | string {
+        switch (property.type) {
+            case 'number':
+                return { number: { format: property.format ?? 'number' } };
+            case 'select':
+            case 'multi_select':
+                return { [property.type]: { options: (property.options ?? []).map(name => ({ name })) } };
+            case 'formula':
+                return property.formula
+                    ? { formula: { expression: property.formula } }
+                    : "no formula is defined for it";
+            case 'relation': {
+                const target = property.field ? RELATION_TARGETS[database]?.[property.field] : undefined;
+                const targetId = target && (databaseIds.get(target) ?? this.notion[NOTION_DATABASE_SETTINGS[target].credential] as string | undefined);
+
+                if (!targetId) {
+                    return target
+                        ? `the ${NOTION_DATABASE_TITLES[target]} database has to be set up first; include ${target} or set ${NOTION_DATABASE_SETTINGS[target].variable}`
+                        : "it relates to a database this server doesn't manage; add it in Notion if you need it";
+                }
+
+                return { relation: { database_id: targetId, single_property: {} } };
+            }
+            case 'rollup':
+            case 'people':
+            case 'created_by':
+            case 'last_edited_by':
+                return `${property.type} properties have to be added in Notion`;
+            default:
+                return { [property.type]: {} };
+        }
+    }
+
+    private describeError(error: unknown): string {
+        if (isNotionClientError(error)) {
+            switch (error.code) {
+                case APIErrorCode.Unauthorized:
+                    return "Notion rejected the integration token";
+                case APIErrorCode.ObjectNotFound:
+                    return "The database or parent page wasn't found. Share it with the integration through its Connections menu and check the ID.";
+                case APIErrorCode.RestrictedResource:
+                    return "The integration needs the Read, Update and Insert content capabilities";
+            }
+        }
+
+        return error instanceof Error ? error.message : String(error);
+    }
+}
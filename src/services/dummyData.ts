@@ -0,0 +1,231 @@
+// src/services/dummyData.ts
+import type {
+    PantryItem,
+    Recipe,
+    RecipeIngredient,
+    ShoppingListItem
+} from "../types";
+
+// Sample household data used to seed the in-memory backend
+
+export function getDummyPantryItems(): PantryItem[] {
+    return [
+        {
+            id: "item_1",
+            name: "Eggs",
+            quantity: 12,
+            unit: "count",
+            category: "Dairy & Eggs",
+            location: "Refrigerator",
+            expiryDate: "2025-06-01",
+            isStaple: true,
+            minQuantity: 6,
+            tags: ["Breakfast"],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "item_2",
+            name: "Milk",
+            quantity: 1,
+            unit: "gallon",
+            category: "Dairy & Eggs",
+            location: "Refrigerator",
+            expiryDate: "2025-05-20",
+            isStaple: true,
+            minQuantity: 1,
+            tags: ["Breakfast"],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "item_3",
+            name: "Bread",
+            quantity: 1,
+            unit: "loaf",
+            category: "Bakery",
+            location: "Pantry",
+            expiryDate: "2025-05-18",
+            isStaple: true,
+            minQuantity: 1,
+            tags: [],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "item_4",
+            name: "Apples",
+            quantity: 6,
+            unit: "count",
+            category: "Produce",
+            location: "Refrigerator",
+            expiryDate: "2025-05-25",
+            isStaple: false,
+            tags: ["Snack"],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "item_5",
+            name: "Chicken Breast",
+            quantity: 2,
+            unit: "pounds",
+            category: "Meat & Seafood",
+            location: "Freezer",
+            expiryDate: "2025-05-16",
+            isStaple: false,
+            tags: ["Dinner"],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "item_6",
+            name: "Rice",
+            quantity: 3,
+            unit: "pounds",
+            category: "Grains",
+            location: "Pantry",
+            isStaple: true,
+            minQuantity: 1,
+            tags: [],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "item_7",
+            name: "Onions",
+            quantity: 4,
+            unit: "count",
+            category: "Produce",
+            location: "Pantry",
+            isStaple: true,
+            minQuantity: 2,
+            tags: [],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "item_8",
+            name: "Garlic",
+            quantity: 1,
+            unit: "bulb",
+            category: "Produce",
+            location: "Pantry",
+            isStaple: true,
+            minQuantity: 1,
+            tags: [],
+            lastUpdated: new Date().toISOString(),
+            createdAt: new Date().toISOString()
+        }
+    ];
+}
+
+export function getDummyRecipes(): Recipe[] {
+    return [
+        {
+            id: "recipe_1",
+            name: "Simple Breakfast Sandwich",
+            tried: true,
+            kitchenTools: [],
+            link: "https://example.com/breakfast-sandwich",
+            tags: ["Breakfast", "Easy"],
+            servings: 1,
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "recipe_2",
+            name: "Chicken and Rice",
+            tried: true,
+            kitchenTools: [],
+            link: "https://example.com/chicken-rice",
+            tags: ["Dinner", "Easy"],
+            servings: 2,
+            createdAt: new Date().toISOString()
+        },
+        {
+            id: "recipe_3",
+            name: "Apple Cinnamon Oatmeal",
+            tried: false,
+            kitchenTools: [],
+            link: "https://example.com/apple-oatmeal",
+            tags: ["Breakfast", "Want to Try"],
+            servings: 2,
+            createdAt: new Date().toISOString()
+        }
+    ];
+}
+
+export function getDummyIngredientsForRecipe(recipeId: string): RecipeIngredient[] {
+    switch (recipeId) {
+        case "recipe_1": // Breakfast Sandwich
+            return [
+                { recipeId, name: "Eggs", quantity: 2, unit: "count" },
+                { recipeId, name: "Bread", quantity: 2, unit: "slices" },
+                { recipeId, name: "Cheese", quantity: 1, unit: "slice", isOptional: true },
+                { recipeId, name: "Salt", quantity: 1, unit: "pinch" },
+                { recipeId, name: "Pepper", quantity: 1, unit: "pinch" }
+            ];
+        case "recipe_2": // Chicken and Rice
+            return [
+                { recipeId, name: "Chicken Breast", quantity: 0.5, unit: "pounds" },
+                { recipeId, name: "Rice", quantity: 1, unit: "cup" },
+                { recipeId, name: "Onions", quantity: 0.5, unit: "count" },
+                { recipeId, name: "Garlic", quantity: 2, unit: "cloves" },
+                { recipeId, name: "Chicken Broth", quantity: 2, unit: "cups", isOptional: true },
+                { recipeId, name: "Salt", quantity: 1, unit: "teaspoon" },
+                { recipeId, name: "Pepper", quantity: 0.5, unit: "teaspoon" }
+            ];
+        case "recipe_3": // Apple Cinnamon Oatmeal
+            return [
+                { recipeId, name: "Apples", quantity: 1, unit: "count" },
+                { recipeId, name: "Oats", quantity: 1, unit: "cup" },
+                { recipeId, name: "Milk", quantity: 1, unit: "cup" },
+                { recipeId, name: "Cinnamon", quantity: 1, unit: "teaspoon" },
+                { recipeId, name: "Brown Sugar", quantity: 2, unit: "tablespoons", isOptional: true },
+                { recipeId, name: "Salt", quantity: 1, unit: "pinch" }
+            ];
+        default:
+            return [];
+    }
+}
+
+export function getDummyShoppingList(): ShoppingListItem[] {
+    return [
+        {
+            id: "shopping_1",
+            name: "Tomatoes",
+            quantity: 4,
+            unit: "count",
+            category: "Produce",
+            priority: "Medium",
+            isPurchased: false,
+            isAutoAdded: false,
+            addedAt: new Date().toISOString(),
+            lastUpdated: new Date().toISOString()
+        },
+        {
+            id: "shopping_2",
+            name: "Pasta",
+            quantity: 1,
+            unit: "box",
+            category: "Grains",
+            priority: "Low",
+            isPurchased: false,
+            isAutoAdded: false,
+            addedAt: new Date().toISOString(),
+            lastUpdated: new Date().toISOString()
+        },
+        {
+            id: "shopping_3",
+            name: "Cheese",
+            quantity: 1,
+            unit: "package",
+            category: "Dairy & Eggs",
+            priority: "High",
+            isPurchased: true,
+            isAutoAdded: true,
+            addedAt: new Date().toISOString(),
+            lastUpdated: new Date().toISOString()
+        }
+    ];
+}
@@ -0,0 +1,532 @@
+// src/services/durableObjectPantryRepository.ts
+import type {
+    MealPlanEntry,
+    MealType,
+    PaginatedResult,
+    PantryItem,
+    Recipe,
+    RecipeIngredient,
+    ShoppingListItem
+} from "../types";
+import { NotFoundError } from "../types/errors";
+import {
+    BasePantryRepository,
+    type NewMealPlanEntry,
+    type NewPantryItem,
+    type NewRecipe,
+    type NewRecipeIngredient,
+    type NewShoppingListItem
+} from "./pantryRepository";
+
+// Default page size when a caller doesn't ask for one
+const DEFAULT_PAGE_SIZE = 100;
+
+type Row = Record<string, SqlStorageValue>;
+
+/**
+ * Stores the pantry in the HouseholdPantry Durable Object's own SQLite
+ * database, so the server can run without any Notion workspace.
+ */
+export class DurableObjectPantryRepository extends BasePantryRepository {
+    constructor(private sql: SqlStorage) {
+        super();
+        this.ensureSchema();
+    }
+
+    // ====== PANTRY METHODS ======
+
+    async getPantryItems(): Promise<PantryItem[]> {
+        return this.sql.exec<Row>(`SELECT * FROM pantry_items ORDER BY name ASC`)
+            .toArray()
+            .map(row => this.rowToPantryItem(row));
+    }
+
+    async getPantryItemsPage(cursor?: string, pageSize: number = DEFAULT_PAGE_SIZE): Promise<PaginatedResult<PantryItem>> {
+        const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+
+        // Fetch one extra row to find out whether another page exists
+        const rows = this.sql.exec<Row>(
+            `SELECT * FROM pantry_items ORDER BY name ASC LIMIT ? OFFSET ?`,
+            pageSize + 1,
+            offset
+        ).toArray();
+
+        return this.toPage(rows.map(row => this.rowToPantryItem(row)), offset, pageSize);
+    }
+
+    async getPantryItemById(itemId: string): Promise<PantryItem | null> {
+        const rows = this.sql.exec<Row>(`SELECT * FROM pantry_items WHERE id = ?`, itemId).toArray();
+        return rows.length > 0 ? this.rowToPantryItem(rows[0]) : null;
+    }
+
+    async getPantryItemsByCategory(category: string): Promise<PantryItem[]> {
+        return this.sql.exec<Row>(`SELECT * FROM pantry_items WHERE category = ? ORDER BY name ASC`, category)
+            .toArray()
+            .map(row => this.rowToPantryItem(row));
+    }
+
+    async addPantryItem(item: NewPantryItem): Promise<PantryItem> {
+        const now = new Date().toISOString();
+        const newItem: PantryItem = {
+            ...item,
+            id: crypto.randomUUID(),
+            createdAt: now,
+            lastUpdated: now
+        };
+
+        this.writePantryItem(newItem);
+        this.dataChanged('pantry');
+        return newItem;
+    }
+
+    protected async savePantryItemUpdate(id: string, item: Partial<PantryItem>): Promise<PantryItem> {
+        const existing = await this.getPantryItemById(id);
+        if (!existing) {
+            throw new NotFoundError(`Pantry item ${id} not found`);
+        }
+
+        const updated: PantryItem = {
+            ...existing,
+            ...item,
+            id,
+            lastUpdated: new Date().toISOString()
+        };
+
+        this.writePantryItem(updated);
+        this.dataChanged('pantry');
+        return updated;
+    }
+
+    async deletePantryItem(id: string): Promise<void> {
+        const deleted = this.sql.exec(`DELETE FROM pantry_items WHERE id = ?`, id);
+        if (deleted.rowsWritten === 0) {
+            throw new NotFoundError(`Pantry item ${id} not found`);
+        }
+
+        this.dataChanged('pantry');
+    }
+
+    // ====== RECIPE METHODS ======
+
+    async getRecipes(): Promise<Recipe[]> {
+        return this.sql.exec<Row>(`SELECT * FROM recipes ORDER BY name ASC`)
+            .toArray()
+            .map(row => this.rowToRecipe(row));
+    }
+
+    async getRecipesPage(cursor?: string, pageSize: number = DEFAULT_PAGE_SIZE): Promise<PaginatedResult<Recipe>> {
+        const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+
+        const rows = this.sql.exec<Row>(
+            `SELECT * FROM recipes ORDER BY name ASC LIMIT ? OFFSET ?`,
+            pageSize + 1,
+            offset
+        ).toArray();
+
+        return this.toPage(rows.map(row => this.rowToRecipe(row)), offset, pageSize);
+    }
+
+    async getRecipeById(recipeId: string): Promise<Recipe | null> {
+        const rows = this.sql.exec<Row>(`SELECT * FROM recipes WHERE id = ?`, recipeId).toArray();
+        return rows.length > 0 ? this.rowToRecipe(rows[0]) : null;
+    }
+
+    async getRecipesByTag(tag: string): Promise<Recipe[]> {
+        const recipes = await this.getRecipes();
+        return recipes.filter(recipe => recipe.tags.includes(tag));
+    }
+
+    async addRecipe(recipe: NewRecipe): Promise<Recipe> {
+        const newRecipe: Recipe = {
+            ...recipe,
+            id: crypto.randomUUID(),
+            createdAt: new Date().toISOString()
+        };
+
+        this.writeRecipe(newRecipe);
+        this.dataChanged('recipes');
+        return newRecipe;
+    }
+
+    async updateRecipe(id: string, recipe: Partial<Recipe>): Promise<Recipe> {
+        const existing = await this.getRecipeById(id);
+        if (!existing) {
+            throw new NotFoundError(`Recipe ${id} not found`);
+        }
+
+        const updated: Recipe = { ...existing, ...recipe, id };
+        this.writeRecipe(updated);
+        this.dataChanged('recipes');
+        return updated;
+    }
+
+    async addRecipeIngredient(recipeId: string, ingredient: NewRecipeIngredient): Promise<RecipeIngredient> {
+        if (!await this.getRecipeById(recipeId)) {
+            throw new NotFoundError(`Recipe ${recipeId} not found`);
+        }
+
+        // Append after the recipe's current last ingredient
+        const [{ next_position }] = this.sql.exec<{ next_position: number }>(
+            `SELECT COALESCE(MAX(position), -1) + 1 AS next_position FROM recipe_ingredients WHERE recipe_id = ?`,
+            recipeId
+        ).toArray();
+
+        const newIngredient: RecipeIngredient = {
+            ...ingredient,
+            id: crypto.randomUUID(),
+            recipeId
+        };
+
+        this.writeRecipeIngredient(newIngredient, next_position);
+        this.dataChanged('recipes');
+        return newIngredient;
+    }
+
+    async updateRecipeIngredient(ingredientId: string, ingredient: Partial<NewRecipeIngredient>): Promise<RecipeIngredient> {
+        const rows = this.sql.exec<Row>(`SELECT * FROM recipe_ingredients WHERE id = ?`, ingredientId).toArray();
+        if (rows.length === 0) {
+            throw new NotFoundError(`Ingredient ${ingredientId} not found`);
+        }
+
+        const updated: RecipeIngredient = { ...this.rowToRecipeIngredient(rows[0]), ...ingredient };
+        this.writeRecipeIngredient(updated, Number(rows[0].position));
+        this.dataChanged('recipes');
+        return updated;
+    }
+
+    async removeRecipeIngredient(ingredientId: string): Promise<void> {
+        const deleted = this.sql.exec(`DELETE FROM recipe_ingredients WHERE id = ?`, ingredientId);
+        if (deleted.rowsWritten === 0) {
+            throw new NotFoundError(`Ingredient ${ingredientId} not found`);
+        }
+
+        this.dataChanged('recipes');
+    }
+
+    protected async getIngredientsForRecipe(recipe: Recipe): Promise<RecipeIngredient[]> {
+        return this.sql.exec<Row>(`SELECT * FROM recipe_ingredients WHERE recipe_id = ? ORDER BY position ASC`, recipe.id)
+            .toArray()
+            .map(row => this.rowToRecipeIngredient(row));
+    }
+
+    // ====== SHOPPING LIST METHODS ======
+
+    async getShoppingList(): Promise<ShoppingListItem[]> {
+        return this.sql.exec<Row>(`SELECT * FROM shopping_list_items ORDER BY category ASC, name ASC`)
+            .toArray()
+            .map(row => this.rowToShoppingListItem(row));
+    }
+
+    protected async createShoppingListItem(item: NewShoppingListItem): Promise<ShoppingListItem> {
+        const now = new Date().toISOString();
+        const newItem: ShoppingListItem = {
+            ...item,
+            id: crypto.randomUUID(),
+            addedAt: now,
+            lastUpdated: now
+        };
+
+        this.writeShoppingListItem(newItem);
+        this.dataChanged('shoppingList');
+        return newItem;
+    }
+
+    async updateShoppingListItem(id: string, item: Partial<ShoppingListItem>): Promise<ShoppingListItem> {
+        const rows = this.sql.exec<Row>(`SELECT * FROM shopping_list_items WHERE id = ?`, id).toArray();
+        if (rows.length === 0) {
+            throw new NotFoundError(`Shopping list item ${id} not found`);
+        }
+
+        const updated: ShoppingListItem = {
+            ...this.rowToShoppingListItem(rows[0]),
+            ...item,
+            id,
+            lastUpdated: new Date().toISOString()
+        };
+
+        this.writeShoppingListItem(updated);
+        this.dataChanged('shoppingList');
+        return updated;
+    }
+
+    async deleteShoppingListItem(id: string): Promise<void> {
+        const deleted = this.sql.exec(`DELETE FROM shopping_list_items WHERE id = ?`, id);
+        if (deleted.rowsWritten === 0) {
+            throw new NotFoundError(`Shopping list item ${id} not found`);
+        }
+
+        this.dataChanged('shoppingList');
+    }
+
+    // ====== MEAL PLAN METHODS ======
+
+    async getMealPlan(startDate: string, endDate: string): Promise<MealPlanEntry[]> {
+        return this.sql.exec<Row>(
+            `SELECT * FROM meal_plan_entries WHERE date >= ? AND date <= ? ORDER BY date ASC, created_at ASC`,
+            startDate,
+            endDate
+        )
+            .toArray()
+            .map(row => this.rowToMealPlanEntry(row));
+    }
+
+    async addMealPlanEntry(entry: NewMealPlanEntry): Promise<MealPlanEntry> {
+        const newEntry: MealPlanEntry = {
+            ...entry,
+            id: crypto.randomUUID(),
+            createdAt: new Date().toISOString()
+        };
+
+        this.sql.exec(
+            `INSERT INTO meal_plan_entries (id, date, meal, recipe_id, recipe_name, servings, notes, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            newEntry.id,
+            newEntry.date,
+            newEntry.meal,
+            newEntry.recipeId,
+            newEntry.recipeName,
+            newEntry.servings ?? null,
+            newEntry.notes ?? null,
+            newEntry.createdAt
+        );
+        this.dataChanged('mealPlan');
+
+        return newEntry;
+    }
+
+    async removeMealPlanEntry(id: string): Promise<void> {
+        const deleted = this.sql.exec(`DELETE FROM meal_plan_entries WHERE id = ?`, id);
+        if (deleted.rowsWritten === 0) {
+            throw new NotFoundError(`Meal plan entry ${id} not found`);
+        }
+
+        this.dataChanged('mealPlan');
+    }
+
+    // ====== HELPER METHODS ======
+
+    /**
+     * Create the tables on first use
+     */
+    private ensureSchema(): void {
+        this.sql.exec(`
+            CREATE TABLE IF NOT EXISTS pantry_items (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                quantity REAL NOT NULL DEFAULT 0,
+                unit TEXT NOT NULL DEFAULT '',
+                category TEXT NOT NULL DEFAULT '',
+                location TEXT NOT NULL DEFAULT '',
+                expiry_date TEXT,
+                notes TEXT,
+                is_staple INTEGER NOT NULL DEFAULT 0,
+                tags TEXT NOT NULL DEFAULT '[]',
+                min_quantity REAL,
+                created_at TEXT NOT NULL,
+                last_updated TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS recipes (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                tried INTEGER NOT NULL DEFAULT 0,
+                kitchen_tools TEXT NOT NULL DEFAULT '[]',
+                link TEXT NOT NULL DEFAULT '',
+                tags TEXT NOT NULL DEFAULT '[]',
+                servings REAL,
+                created_at TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS recipe_ingredients (
+                id TEXT PRIMARY KEY,
+                recipe_id TEXT NOT NULL,
+                position INTEGER NOT NULL DEFAULT 0,
+                name TEXT NOT NULL,
+                quantity REAL NOT NULL DEFAULT 0,
+                unit TEXT NOT NULL DEFAULT '',
+                preparation TEXT,
+                is_optional INTEGER NOT NULL DEFAULT 0
+            );
+            CREATE TABLE IF NOT EXISTS shopping_list_items (
+                id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                quantity REAL NOT NULL DEFAULT 0,
+                unit TEXT NOT NULL DEFAULT '',
+                category TEXT NOT NULL DEFAULT '',
+                priority TEXT NOT NULL DEFAULT 'Medium',
+                is_purchased INTEGER NOT NULL DEFAULT 0,
+                is_auto_added INTEGER NOT NULL DEFAULT 0,
+                notes TEXT,
+                added_at TEXT NOT NULL,
+                last_updated TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS meal_plan_entries (
+                id TEXT PRIMARY KEY,
+                date TEXT NOT NULL,
+                meal TEXT NOT NULL,
+                recipe_id TEXT NOT NULL,
+                recipe_name TEXT NOT NULL DEFAULT '',
+                servings REAL,
+                notes TEXT,
+                created_at TEXT NOT NULL
+            );
+        `);
+
+        // Recipes tables created before servings were tracked
+        const recipeColumns = this.sql.exec<Row>(`PRAGMA table_info(recipes)`).toArray();
+        if (!recipeColumns.some(column => column.name === 'servings')) {
+            this.sql.exec(`ALTER TABLE recipes ADD COLUMN servings REAL`);
+        }
+    }
+
+    private writePantryItem(item: PantryItem): void {
+        this.sql.exec(
+            `INSERT OR REPLACE INTO pantry_items
+                (id, name, quantity, unit, category, location, expiry_date, notes, is_staple, tags, min_quantity, created_at, last_updated)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            item.id,
+            item.name,
+            item.quantity,
+            item.unit,
+            item.category,
+            item.location,
+            item.expiryDate ?? null,
+            item.notes ?? null,
+            item.isStaple ? 1 : 0,
+            JSON.stringify(item.tags ?? []),
+            item.minQuantity ?? null,
+            item.createdAt,
+            item.lastUpdated
+        );
+    }
+
+    private writeRecipe(recipe: Recipe): void {
+        this.sql.exec(
+            `INSERT OR REPLACE INTO recipes (id, name, tried, kitchen_tools, link, tags, servings, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            recipe.id,
+            recipe.name,
+            recipe.tried ? 1 : 0,
+            JSON.stringify(recipe.kitchenTools),
+            recipe.link,
+            JSON.stringify(recipe.tags),
+            recipe.servings ?? null,
+            recipe.createdAt
+        );
+    }
+
+    private writeRecipeIngredient(ingredient: RecipeIngredient, position: number): void {
+        this.sql.exec(
+            `INSERT OR REPLACE INTO recipe_ingredients (id, recipe_id, position, name, quantity, unit, preparation, is_optional)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            ingredient.id,
+            ingredient.recipeId,
+            position,
+            ingredient.name,
+            ingredient.quantity,
+            ingredient.unit,
+            ingredient.preparation ?? null,
+            ingredient.isOptional ? 1 : 0
+        );
+    }
+
+    private writeShoppingListItem(item: ShoppingListItem): void {
+        this.sql.exec(
+            `INSERT OR REPLACE INTO shopping_list_items
+                (id, name, quantity, unit, category, priority, is_purchased, is_auto_added, notes, added_at, last_updated)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            item.id,
+            item.name,
+            item.quantity,
+            item.unit,
+            item.category,
+            item.priority,
+            item.isPurchased ? 1 : 0,
+            item.isAutoAdded ? 1 : 0,
+            item.notes ?? null,
+            item.addedAt,
+            item.lastUpdated
+        );
+    }
+
+    private rowToPantryItem(row: Row): PantryItem {
+        return {
+            id: String(row.id),
+            name: String(row.name),
+            quantity: Number(row.quantity),
+            unit: String(row.unit),
+            category: String(row.category),
+            location: String(row.location),
+            expiryDate: row.expiry_date === null ? undefined : String(row.expiry_date),
+            notes: row.notes === null ? '' : String(row.notes),
+            isStaple: row.is_staple === 1,
+            tags: JSON.parse(String(row.tags)),
+            minQuantity: row.min_quantity === null ? undefined : Number(row.min_quantity),
+            lastUpdated: String(row.last_updated),
+            createdAt: String(row.created_at)
+        };
+    }
+
+    private rowToRecipe(row: Row): Recipe {
+        return {
+            id: String(row.id),
+            name: String(row.name),
+            tried: row.tried === 1,
+            kitchenTools: JSON.parse(String(row.kitchen_tools)),
+            link: String(row.link),
+            tags: JSON.parse(String(row.tags)),
+            servings: row.servings === null ? undefined : Number(row.servings),
+            createdAt: String(row.created_at)
+        };
+    }
+
+    private rowToRecipeIngredient(row: Row): RecipeIngredient {
+        return {
+            id: String(row.id),
+            recipeId: String(row.recipe_id),
+            name: String(row.name),
+            quantity: Number(row.quantity),
+            unit: String(row.unit),
+            preparation: row.preparation === null ? undefined : String(row.preparation),
+            isOptional: row.is_optional === 1
+        };
+    }
+
+    private rowToShoppingListItem(row: Row): ShoppingListItem {
+        return {
+            id: String(row.id),
+            name: String(row.name),
+            quantity: Number(row.quantity),
+            unit: String(row.unit),
+            category: String(row.category),
+            priority: String(row.priority),
+            isPurchased: row.is_purchased === 1,
+            isAutoAdded: row.is_auto_added === 1,
+            notes: row.notes === null ? '' : String(row.notes),
+            addedAt: String(row.added_at),
+            lastUpdated: String(row.last_updated)
+        };
+    }
+
+    private rowToMealPlanEntry(row: Row): MealPlanEntry {
+        return {
+            id: String(row.id),
+            date: String(row.date),
+            meal: String(row.meal) as MealType,
+            recipeId: String(row.recipe_id),
+            recipeName: String(row.recipe_name),
+            servings: row.servings === null ? undefined : Number(row.servings),
+            notes: row.notes === null ? undefined : String(row.notes),
+            createdAt: String(row.created_at)
+        };
+    }
+
+    // Offset cursors; `rows` holds up to pageSize + 1 entries
+    private toPage<T>(rows: T[], offset: number, pageSize: number): PaginatedResult<T> {
+        const hasMore = rows.length > pageSize;
+
+        return {
+            items: rows.slice(0, pageSize),
+            nextCursor: hasMore ? String(offset + pageSize) : null,
+            hasMore
+        };
+    }
+}
@@ -0,0 +1,329 @@
+// src/services/householdPantry.ts
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "../index";
+import type {
+    MealPlanEntry,
+    PaginatedResult,
+    PantryCollection,
+    PantryEventData,
+    PantryEventType,
+    PantryItem,
+    Recipe,
+    RecipeIngredient,
+    RecipeWithIngredients,
+    ShoppingListItem,
+    WebhookConfig
+} from "../types";
+import { PantryError, serializePantryError, type SerializedPantryError } from "../types/errors";
+import { DurableObjectPantryRepository } from "./durableObjectPantryRepository";
+import { loadNotionCredentials, loadWebhooks } from "./householdRegistry";
+import { JobScheduler, resolveJobsConfig, type JobStatus } from "./jobScheduler";
+import { createPantryRepository, resolvePantryBackend } from "./repositoryFactory";
+import { WebhookDispatcher, type WebhookDelivery } from "./webhooks";
+import type {
+    NewMealPlanEntry,
+    NewPantryItem,
+    NewRecipe,
+    NewRecipeIngredient,
+    NewShoppingListItem,
+    PantryRepository,
+    ShoppingListAddResult
+} from "./pantryRepository";
+
+// Storage key holding the ID of the household this object belongs to
+const HOUSEHOLD_ID_STORAGE_KEY = "household:id";
+
+/**
+ * What a pantry call returns over RPC. Workers RPC only keeps a thrown
+ * error's message, so PantryErrors come back as data with their code.
+ */
+export type HouseholdResult<T> = { value: T } | { error: SerializedPantryError };
+
+/**
+ * One instance per household, named by its ID. It holds the household's
+ * pantry for the durable-object backend, which every MCP session opened
+ * for the household reads and writes over RPC, and runs the household's
+ * background jobs from its alarm whatever the backend, so each job runs
+ * once per period however many sessions are open. It also sends the
+ * household's webhooks and keeps their delivery log.
+ */
+export class HouseholdPantry extends DurableObject<Env> {
+    private repository: DurableObjectPantryRepository;
+
+    // Writes to each collection since this instance started, for the change markers
+    private versions: Record<PantryCollection, number> = { pantry: 0, recipes: 0, shoppingList: 0, mealPlan: 0 };
+
+    // Tells the markers of one instance from the next, whose counts start again at 0
+    private instanceId = crypto.randomUUID();
+
+    // Counts the writes made through either of this object's repositories
+    private changeListener = { changed: (collection: PantryCollection) => { this.versions[collection]++; } };
+
+    constructor(ctx: DurableObjectState, env: Env) {
+        super(ctx, env);
+
+        this.repository = new DurableObjectPantryRepository(ctx.storage.sql);
+        this.repository.setChangeListener(this.changeListener);
+    }
+
+    // ====== SCHEDULED JOBS ======
+
+    /**
+     * Record which household this object serves and schedule its background
+     * jobs. Sessions call this as they start; it only moves the alarm when
+     * the schedule has changed.
+     */
+    async start(householdId: string): Promise<void> {
+        await this.ctx.storage.put(HOUSEHOLD_ID_STORAGE_KEY, householdId);
+
+        const scheduler = await this.createJobScheduler(householdId);
+        await scheduler?.ensureScheduled();
+    }
+
+    /**
+     * Schedule and recent runs of the household's jobs
+     */
+    async getJobStatus(): Promise<JobStatus[]> {
+        const householdId = await this.getHouseholdId();
+        const scheduler = householdId ? await this.createJobScheduler(householdId) : null;
+
+        return scheduler?.getStatus() ?? [];
+    }
+
+    // Run any background jobs that are due
+    async alarm() {
+        const householdId = await this.getHouseholdId();
+        const scheduler = householdId ? await this.createJobScheduler(householdId) : null;
+
+        if (!scheduler) {
+            console.log(`Household ${householdId} no longer exists, so its jobs have stopped`);
+            return;
+        }
+
+        const runs = await scheduler.runDueJobs();
+        console.log(`Ran ${runs.length} scheduled job(s) for household ${householdId}`);
+    }
+
+    // ====== WEBHOOKS ======
+
+    /**
+     * Send an event to the household's webhooks. Returns once the deliveries
+     * are queued; they finish in the background.
+     */
+    async notify<T extends PantryEventType>(type: T, data: PantryEventData[T]): Promise<void> {
+        const householdId = await this.getHouseholdId();
+        if (!householdId) return;
+
+        const webhooks = await this.createWebhookDispatcher(householdId);
+        await webhooks.notify(type, data);
+    }
+
+    /**
+     * The household's webhooks without their secrets
+     */
+    async getWebhooks(): Promise<Omit<WebhookConfig, 'secret'>[]> {
+        const householdId = await this.getHouseholdId();
+        if (!householdId) return [];
+
+        const webhooks = await this.createWebhookDispatcher(householdId);
+        return webhooks.getWebhooks();
+    }
+
+    /**
+     * Most recent deliveries first
+     */
+    async getDeliveryLog(): Promise<WebhookDelivery[]> {
+        const householdId = await this.getHouseholdId();
+        if (!householdId) return [];
+
+        const webhooks = await this.createWebhookDispatcher(householdId);
+        return webhooks.getDeliveryLog();
+    }
+
+    // ====== PANTRY METHODS ======
+
+    getPantryItems(): Promise<HouseholdResult<PantryItem[]>> {
+        return this.run(() => this.repository.getPantryItems());
+    }
+
+    getPantryItemsPage(cursor?: string, pageSize?: number): Promise<HouseholdResult<PaginatedResult<PantryItem>>> {
+        return this.run(() => this.repository.getPantryItemsPage(cursor, pageSize));
+    }
+
+    getPantryItemById(itemId: string): Promise<HouseholdResult<PantryItem | null>> {
+        return this.run(() => this.repository.getPantryItemById(itemId));
+    }
+
+    getPantryItemsByCategory(category: string): Promise<HouseholdResult<PantryItem[]>> {
+        return this.run(() => this.repository.getPantryItemsByCategory(category));
+    }
+
+    addPantryItem(item: NewPantryItem): Promise<HouseholdResult<PantryItem>> {
+        return this.run(() => this.repository.addPantryItem(item));
+    }
+
+    updatePantryItem(id: string, item: Partial<PantryItem>): Promise<HouseholdResult<PantryItem>> {
+        return this.run(() => this.repository.updatePantryItem(id, item));
+    }
+
+    deletePantryItem(id: string): Promise<HouseholdResult<void>> {
+        return this.run(() => this.repository.deletePantryItem(id));
+    }
+
+    // ====== RECIPE METHODS ======
+
+    getRecipes(): Promise<HouseholdResult<Recipe[]>> {
+        return this.run(() => this.repository.getRecipes());
+    }
+
+    getRecipesPage(cursor?: string, pageSize?: number): Promise<HouseholdResult<PaginatedResult<Recipe>>> {
+        return this.run(() => this.repository.getRecipesPage(cursor, pageSize));
+    }
+
+    getRecipeById(recipeId: string): Promise<HouseholdResult<Recipe | null>> {
+        return this.run(() => this.repository.getRecipeById(recipeId));
+    }
+
+    getRecipesByTag(tag: string): Promise<HouseholdResult<Recipe[]>> {
+        return this.run(() => this.repository.getRecipesByTag(tag));
+    }
+
+    addRecipe(recipe: NewRecipe): Promise<HouseholdResult<Recipe>> {
+        return this.run(() => this.repository.addRecipe(recipe));
+    }
+
+    updateRecipe(id: string, recipe: Partial<Recipe>): Promise<HouseholdResult<Recipe>> {
+        return this.run(() => this.repository.updateRecipe(id, recipe));
+    }
+
+    getRecipesWithIngredients(): Promise<HouseholdResult<RecipeWithIngredients[]>> {
+        return this.run(() => this.repository.getRecipesWithIngredients());
+    }
+
+    getRecipeWithIngredients(recipeId: string): Promise<HouseholdResult<RecipeWithIngredients | null>> {
+        return this.run(() => this.repository.getRecipeWithIngredients(recipeId));
+    }
+
+    addRecipeIngredient(recipeId: string, ingredient: NewRecipeIngredient): Promise<HouseholdResult<RecipeIngredient>> {
+        return this.run(() => this.repository.addRecipeIngredient(recipeId, ingredient));
+    }
+
+    updateRecipeIngredient(ingredientId: string, ingredient: Partial<NewRecipeIngredient>): Promise<HouseholdResult<RecipeIngredient>> {
+        return this.run(() => this.repository.updateRecipeIngredient(ingredientId, ingredient));
+    }
+
+    removeRecipeIngredient(ingredientId: string): Promise<HouseholdResult<void>> {
+        return this.run(() => this.repository.removeRecipeIngredient(ingredientId));
+    }
+
+    // ====== SHOPPING LIST METHODS ======
+
+    getShoppingList(): Promise<HouseholdResult<ShoppingListItem[]>> {
+        return this.run(() => this.repository.getShoppingList());
+    }
+
+    /**
+     * Runs here rather than in the session so two sessions adding the same
+     * item can't both miss the entry the other one is creating
+     */
+    addOrMergeShoppingListItem(item: NewShoppingListItem): Promise<HouseholdResult<ShoppingListAddResult>> {
+        return this.run(() => this.repository.addOrMergeShoppingListItem(item));
+    }
+
+    updateShoppingListItem(id: string, item: Partial<ShoppingListItem>): Promise<HouseholdResult<ShoppingListItem>> {
+        return this.run(() => this.repository.updateShoppingListItem(id, item));
+    }
+
+    deleteShoppingListItem(id: string): Promise<HouseholdResult<void>> {
+        return this.run(() => this.repository.deleteShoppingListItem(id));
+    }
+
+    // ====== MEAL PLAN METHODS ======
+
+    getMealPlan(startDate: string, endDate: string): Promise<HouseholdResult<MealPlanEntry[]>> {
+        return this.run(() => this.repository.getMealPlan(startDate, endDate));
+    }
+
+    addMealPlanEntry(entry: NewMealPlanEntry): Promise<HouseholdResult<MealPlanEntry>> {
+        return this.run(() => this.repository.addMealPlanEntry(entry));
+    }
+
+    removeMealPlanEntry(id: string): Promise<HouseholdResult<void>> {
+        return this.run(() => this.repository.removeMealPlanEntry(id));
+    }
+
+    // ====== CHANGE TRACKING ======
+
+    /**
+     * A marker per collection that changes with every write, from any session
+     */
+    async getChangeMarkers(): Promise<Record<PantryCollection, string>> {
+        return {
+            pantry: `${this.instanceId}:${this.versions.pantry}`,
+            recipes: `${this.instanceId}:${this.versions.recipes}`,
+            shoppingList: `${this.instanceId}:${this.versions.shoppingList}`,
+            mealPlan: `${this.instanceId}:${this.versions.mealPlan}`
+        };
+    }
+
+    // ====== HELPER METHODS ======
+
+    private async run<T>(operation: () => Promise<T>): Promise<HouseholdResult<T>> {
+        try {
+            return { value: await operation() };
+        } catch (error) {
+            if (error instanceof PantryError) {
+                return { error: serializePantryError(error) };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * The household recorded by start(), if a session has started one
+     */
+    private async getHouseholdId(): Promise<string | undefined> {
+        return this.ctx.storage.get<string>(HOUSEHOLD_ID_STORAGE_KEY);
+    }
+
+    /**
+     * Scheduler over the household's repository, or null if the household
+     * has been deleted
+     */
+    private async createJobScheduler(householdId: string): Promise<JobScheduler | null> {
+        const notion = await loadNotionCredentials(this.env, householdId);
+        if (!notion) return null;
+
+        const webhooks = await this.createWebhookDispatcher(householdId);
+
+        // The durable-object pantry is this object's own, so jobs use its tables
+        // directly. They get their own repository over them so job events go to
+        // the webhooks, while session writes keep raising theirs in the session.
+        let repository: PantryRepository;
+        if (resolvePantryBackend(this.env.PANTRY_BACKEND) === 'durable-object') {
+            const jobRepository = new DurableObjectPantryRepository(this.ctx.storage.sql);
+            jobRepository.setChangeListener(this.changeListener);
+            jobRepository.setEventNotifier(webhooks);
+            repository = jobRepository;
+        } else {
+            repository = createPantryRepository(this.env, { notifier: webhooks, notion, householdId });
+        }
+
+        return new JobScheduler(this.ctx.storage, repository, resolveJobsConfig(this.env.SCHEDULED_JOBS), webhooks);
+    }
+
+    /**
+     * Dispatcher for the household's current webhooks, loaded on each use so
+     * admin changes apply straight away
+     */
+    private async createWebhookDispatcher(householdId: string): Promise<WebhookDispatcher> {
+        return new WebhookDispatcher(await loadWebhooks(this.env, householdId), householdId, this.ctx);
+    }
+}
+
+/**
+ * Stub for a household's pantry object
+ */
+export function getHouseholdPantry(env: Env, householdId: string) {
+    return env.HouseholdPantry.get(env.HouseholdPantry.idFromName(householdId));
+}
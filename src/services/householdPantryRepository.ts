@@ -0,0 +1,193 @@
+// src/services/householdPantryRepository.ts
+import type {
+    MealPlanEntry,
+    PaginatedResult,
+    PantryCollection,
+    PantryItem,
+    Recipe,
+    RecipeIngredient,
+    RecipeWithIngredients,
+    ShoppingListItem
+} from "../types";
+import { deserializePantryError } from "../types/errors";
+import type { HouseholdPantry, HouseholdResult } from "./householdPantry";
+import {
+    BasePantryRepository,
+    type NewMealPlanEntry,
+    type NewPantryItem,
+    type NewRecipe,
+    type NewRecipeIngredient,
+    type NewShoppingListItem,
+    type ShoppingListAddResult
+} from "./pantryRepository";
+
+/**
+ * The durable-object backend as seen from an MCP session: storage calls
+ * go over RPC to the household's HouseholdPantry object, while the
+ * workflows, events and change notifications run here as for any backend.
+ */
+export class HouseholdPantryRepository extends BasePantryRepository {
+    constructor(private pantry: DurableObjectStub<HouseholdPantry>) {
+        super();
+    }
+
+    // ====== PANTRY METHODS ======
+
+    getPantryItems(): Promise<PantryItem[]> {
+        return this.call(() => this.pantry.getPantryItems());
+    }
+
+    getPantryItemsPage(cursor?: string, pageSize?: number): Promise<PaginatedResult<PantryItem>> {
+        return this.call(() => this.pantry.getPantryItemsPage(cursor, pageSize));
+    }
+
+    getPantryItemById(itemId: string): Promise<PantryItem | null> {
+        return this.call(() => this.pantry.getPantryItemById(itemId));
+    }
+
+    getPantryItemsByCategory(category: string): Promise<PantryItem[]> {
+        return this.call(() => this.pantry.getPantryItemsByCategory(category));
+    }
+
+    addPantryItem(item: NewPantryItem): Promise<PantryItem> {
+        return this.write('pantry', () => this.pantry.addPantryItem(item));
+    }
+
+    protected savePantryItemUpdate(id: string, item: Partial<PantryItem>): Promise<PantryItem> {
+        return this.write('pantry', () => this.pantry.updatePantryItem(id, item));
+    }
+
+    deletePantryItem(id: string): Promise<void> {
+        return this.write('pantry', () => this.pantry.deletePantryItem(id));
+    }
+
+    // ====== RECIPE METHODS ======
+
+    getRecipes(): Promise<Recipe[]> {
+        return this.call(() => this.pantry.getRecipes());
+    }
+
+    getRecipesPage(cursor?: string, pageSize?: number): Promise<PaginatedResult<Recipe>> {
+        return this.call(() => this.pantry.getRecipesPage(cursor, pageSize));
+    }
+
+    getRecipeById(recipeId: string): Promise<Recipe | null> {
+        return this.call(() => this.pantry.getRecipeById(recipeId));
+    }
+
+    getRecipesByTag(tag: string): Promise<Recipe[]> {
+        return this.call(() => this.pantry.getRecipesByTag(tag));
+    }
+
+    addRecipe(recipe: NewRecipe): Promise<Recipe> {
+        return this.write('recipes', () => this.pantry.addRecipe(recipe));
+    }
+
+    updateRecipe(id: string, recipe: Partial<Recipe>): Promise<Recipe> {
+        return this.write('recipes', () => this.pantry.updateRecipe(id, recipe));
+    }
+
+    // Fetched in one call rather than a call per recipe
+    async getRecipesWithIngredients(): Promise<RecipeWithIngredients[]> {
+        return this.call(() => this.pantry.getRecipesWithIngredients());
+    }
+
+    async getRecipeWithIngredients(recipeId: string): Promise<RecipeWithIngredients | null> {
+        return this.call(() => this.pantry.getRecipeWithIngredients(recipeId));
+    }
+
+    addRecipeIngredient(recipeId: string, ingredient: NewRecipeIngredient): Promise<RecipeIngredient> {
+        return this.write('recipes', () => this.pantry.addRecipeIngredient(recipeId, ingredient));
+    }
+
+    updateRecipeIngredient(ingredientId: string, ingredient: Partial<NewRecipeIngredient>): Promise<RecipeIngredient> {
+        return this.write('recipes', () => this.pantry.updateRecipeIngredient(ingredientId, ingredient));
+    }
+
+    removeRecipeIngredient(ingredientId: string): Promise<void> {
+        return this.write('recipes', () => this.pantry.removeRecipeIngredient(ingredientId));
+    }
+
+    protected async getIngredientsForRecipe(recipe: Recipe): Promise<RecipeIngredient[]> {
+        const withIngredients = await this.getRecipeWithIngredients(recipe.id);
+        return withIngredients?.ingredients ?? [];
+    }
+
+    protected async getIngredientsForRecipes(recipes: Recipe[]): Promise<Map<string, RecipeIngredient[]>> {
+        const ids = new Set(recipes.map(recipe => recipe.id));
+        const withIngredients = await this.getRecipesWithIngredients();
+
+        return new Map(withIngredients
+            .filter(({ recipe }) => ids.has(recipe.id))
+            .map(({ recipe, ingredients }) => [recipe.id, ingredients]));
+    }
+
+    // ====== SHOPPING LIST METHODS ======
+
+    getShoppingList(): Promise<ShoppingListItem[]> {
+        return this.call(() => this.pantry.getShoppingList());
+    }
+
+    /**
+     * Merged in the household object, where no other session can add the
+     * same item between the lookup and the write
+     */
+    addOrMergeShoppingListItem(item: NewShoppingListItem): Promise<ShoppingListAddResult> {
+        return this.write('shoppingList', () => this.pantry.addOrMergeShoppingListItem(item));
+    }
+
+    // Only reached through addOrMergeShoppingListItem, which is overridden above
+    protected async createShoppingListItem(item: NewShoppingListItem): Promise<ShoppingListItem> {
+        return (await this.addOrMergeShoppingListItem(item)).item;
+    }
+
+    updateShoppingListItem(id: string, item: Partial<ShoppingListItem>): Promise<ShoppingListItem> {
+        return this.write('shoppingList', () => this.pantry.updateShoppingListItem(id, item));
+    }
+
+    deleteShoppingListItem(id: string): Promise<void> {
+        return this.write('shoppingList', () => this.pantry.deleteShoppingListItem(id));
+    }
+
+    // ====== MEAL PLAN METHODS ======
+
+    getMealPlan(startDate: string, endDate: string): Promise<MealPlanEntry[]> {
+        return this.call(() => this.pantry.getMealPlan(startDate, endDate));
+    }
+
+    addMealPlanEntry(entry: NewMealPlanEntry): Promise<MealPlanEntry> {
+        return this.write('mealPlan', () => this.pantry.addMealPlanEntry(entry));
+    }
+
+    removeMealPlanEntry(id: string): Promise<void> {
+        return this.write('mealPlan', () => this.pantry.removeMealPlanEntry(id));
+    }
+
+    // ====== CHANGE TRACKING ======
+
+    /**
+     * Other sessions for the household write to the same object, so their
+     * changes are found by polling like edits made directly in Notion
+     */
+    async getChangeMarkers(): Promise<Partial<Record<PantryCollection, string>>> {
+        return this.pantry.getChangeMarkers();
+    }
+
+    // ====== HELPER METHODS ======
+
+    // Rethrow the household object's PantryErrors as the same subclass
+    private async call<T>(request: () => Promise<HouseholdResult<T>>): Promise<T> {
+        const result = await request();
+
+        if ('error' in result) {
+            throw deserializePantryError(result.error);
+        }
+        return result.value;
+    }
+
+    private async write<T>(collection: PantryCollection, request: () => Promise<HouseholdResult<T>>): Promise<T> {
+        const result = await this.call(request);
+        this.dataChanged(collection);
+        return result;
+    }
+}
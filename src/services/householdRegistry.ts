@@ -0,0 +1,121 @@
+// src/services/householdRegistry.ts
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "../index";
+import { parseNotionPropertyMap, type Household, type NotionCredentials, type WebhookConfig } from "../types";
+import { resolveWebhooks } from "./webhooks";
+
+// Household served from the NOTION_* variables and approved with OAUTH_OWNER_PASSWORD
+export const DEFAULT_HOUSEHOLD_ID = "default";
+
+// The single registry instance every worker talks to
+const REGISTRY_NAME = "households";
+
+const HOUSEHOLD_KEY_PREFIX = "household:";
+
+const PBKDF2_ITERATIONS = 100000;
+
+/**
+ * Stores every household's Notion credentials and password hash. One
+ * instance holds them all, separate from the per-session MCP objects.
+ */
+export class HouseholdRegistry extends DurableObject<Env> {
+    async getHousehold(id: string): Promise<Household | null> {
+        return await this.ctx.storage.get<Household>(HOUSEHOLD_KEY_PREFIX + id) ?? null;
+    }
+
+    async listHouseholds(): Promise<Household[]> {
+        const households = await this.ctx.storage.list<Household>({ prefix: HOUSEHOLD_KEY_PREFIX });
+        return [...households.values()].sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    async saveHousehold(household: Household): Promise<void> {
+        await this.ctx.storage.put(HOUSEHOLD_KEY_PREFIX + household.id, household);
+    }
+
+    async deleteHousehold(id: string): Promise<boolean> {
+        return this.ctx.storage.delete(HOUSEHOLD_KEY_PREFIX + id);
+    }
+}
+
+/**
+ * Stub for the registry object
+ */
+export function getHouseholdRegistry(env: Env) {
+    return env.HouseholdRegistry.get(env.HouseholdRegistry.idFromName(REGISTRY_NAME));
+}
+
+/**
+ * Notion credentials from the NOTION_* variables
+ */
+export function resolveNotionCredentials(env: Env): NotionCredentials {
+    return {
+        token: env.NOTION_TOKEN,
+        pantryDb: env.NOTION_PANTRY_DB,
+        recipesDb: env.NOTION_RECIPES_DB,
+        shoppingListDb: env.NOTION_SHOPPING_LIST_DB,
+        recipeIngredientsDb: env.NOTION_RECIPE_INGREDIENTS_DB,
+        mealPlanDb: env.NOTION_MEAL_PLAN_DB,
+        propertyMap: parseNotionPropertyMap(env.NOTION_PROPERTY_MAP)
+    };
+}
+
+/**
+ * Notion credentials for a household, or null if it doesn't exist
+ */
+export async function loadNotionCredentials(env: Env, householdId: string): Promise<NotionCredentials | null> {
+    if (householdId === DEFAULT_HOUSEHOLD_ID) {
+        return resolveNotionCredentials(env);
+    }
+
+    const household = await getHouseholdRegistry(env).getHousehold(householdId);
+    return household?.notion ?? null;
+}
+
+/**
+ * Webhooks for a household's pantry events: the WEBHOOKS variable for the
+ * default household and the registered list for the others
+ */
+export async function loadWebhooks(env: Env, householdId: string): Promise<WebhookConfig[]> {
+    if (householdId === DEFAULT_HOUSEHOLD_ID) {
+        return resolveWebhooks(env.WEBHOOKS);
+    }
+
+    const household = await getHouseholdRegistry(env).getHousehold(householdId);
+    return household?.webhooks ?? [];
+}
+
+/**
+ * Hash a household password with PBKDF2-SHA256, generating a salt if none is given
+ */
+export async function hashHouseholdPassword(password: string, salt?: string): Promise<{ hash: string; salt: string }> {
+    const saltBytes = salt ? fromHex(salt) : crypto.getRandomValues(new Uint8Array(16));
+    const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+    const bits = await crypto.subtle.deriveBits(
+        { name: "PBKDF2", hash: "SHA-256", salt: saltBytes, iterations: PBKDF2_ITERATIONS },
+        key,
+        256
+    );
+
+    return { hash: toHex(new Uint8Array(bits)), salt: toHex(saltBytes) };
+}
+
+/**
+ * Check a password against a household's stored hash in constant time
+ */
+export async function verifyHouseholdPassword(household: Household, password: string): Promise<boolean> {
+    const { hash } = await hashHouseholdPassword(password, household.passwordSalt);
+    const given = fromHex(hash);
+    const expected = fromHex(household.passwordHash);
+
+    return given.byteLength === expected.byteLength && crypto.subtle.timingSafeEqual(given, expected);
+}
+
+// ====== HELPER FUNCTIONS ======
+
+function toHex(bytes: Uint8Array): string {
+    return [...bytes].map(byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(hex.match(/.{2}/g)?.map(byte => parseInt(byte, 16)) ?? []);
+}
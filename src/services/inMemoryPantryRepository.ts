@@ -0,0 +1,296 @@
+// src/services/inMemoryPantryRepository.ts
+import type {
+    MealPlanEntry,
+    PaginatedResult,
+    PantryItem,
+    Recipe,
+    RecipeIngredient,
+    ShoppingListItem
+} from "../types";
+import { NotFoundError } from "../types/errors";
+import {
+    BasePantryRepository,
+    type NewMealPlanEntry,
+    type NewPantryItem,
+    type NewRecipe,
+    type NewRecipeIngredient,
+    type NewShoppingListItem
+} from "./pantryRepository";
+
+// Default page size when a caller doesn't ask for one
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Initial contents for an in-memory repository
+ */
+export interface InMemorySeed {
+    pantryItems?: PantryItem[];
+    recipes?: Recipe[];
+    ingredients?: RecipeIngredient[];
+    shoppingList?: ShoppingListItem[];
+    mealPlan?: MealPlanEntry[];
+}
+
+/**
+ * Keeps everything in plain arrays. Nothing survives a restart, which makes
+ * it the backend of choice for tests and local experiments.
+ */
+export class InMemoryPantryRepository extends BasePantryRepository {
+    private pantryItems: PantryItem[];
+    private recipes: Recipe[];
+    private ingredients: RecipeIngredient[];
+    private shoppingList: ShoppingListItem[];
+    private mealPlan: MealPlanEntry[];
+    private nextId = 1;
+
+    constructor(seed: InMemorySeed = {}) {
+        super();
+
+        this.pantryItems = [...(seed.pantryItems ?? [])];
+        this.recipes = [...(seed.recipes ?? [])];
+        this.ingredients = (seed.ingredients ?? []).map(ingredient => ({
+            ...ingredient,
+            id: ingredient.id ?? this.generateId('ingredient')
+        }));
+        this.shoppingList = [...(seed.shoppingList ?? [])];
+        this.mealPlan = [...(seed.mealPlan ?? [])];
+    }
+
+    // ====== PANTRY METHODS ======
+
+    async getPantryItems(): Promise<PantryItem[]> {
+        return this.sortByName(this.pantryItems);
+    }
+
+    async getPantryItemsPage(cursor?: string, pageSize: number = DEFAULT_PAGE_SIZE): Promise<PaginatedResult<PantryItem>> {
+        return this.paginate(this.sortByName(this.pantryItems), cursor, pageSize);
+    }
+
+    async getPantryItemById(itemId: string): Promise<PantryItem | null> {
+        return this.pantryItems.find(item => item.id === itemId) || null;
+    }
+
+    async getPantryItemsByCategory(category: string): Promise<PantryItem[]> {
+        return this.sortByName(this.pantryItems.filter(item => item.category === category));
+    }
+
+    async addPantryItem(item: NewPantryItem): Promise<PantryItem> {
+        const now = new Date().toISOString();
+        const newItem: PantryItem = {
+            ...item,
+            id: this.generateId('item'),
+            createdAt: now,
+            lastUpdated: now
+        };
+
+        this.pantryItems.push(newItem);
+        this.dataChanged('pantry');
+        return newItem;
+    }
+
+    protected async savePantryItemUpdate(id: string, item: Partial<PantryItem>): Promise<PantryItem> {
+        const index = this.pantryItems.findIndex(i => i.id === id);
+        if (index === -1) {
+            throw new NotFoundError(`Pantry item ${id} not found`);
+        }
+
+        this.pantryItems[index] = {
+            ...this.pantryItems[index],
+            ...item,
+            id,
+            lastUpdated: new Date().toISOString()
+        };
+        this.dataChanged('pantry');
+
+        return this.pantryItems[index];
+    }
+
+    async deletePantryItem(id: string): Promise<void> {
+        if (!this.pantryItems.some(item => item.id === id)) {
+            throw new NotFoundError(`Pantry item ${id} not found`);
+        }
+
+        this.pantryItems = this.pantryItems.filter(item => item.id !== id);
+        this.dataChanged('pantry');
+    }
+
+    // ====== RECIPE METHODS ======
+
+    async getRecipes(): Promise<Recipe[]> {
+        return this.sortByName(this.recipes);
+    }
+
+    async getRecipesPage(cursor?: string, pageSize: number = DEFAULT_PAGE_SIZE): Promise<PaginatedResult<Recipe>> {
+        return this.paginate(this.sortByName(this.recipes), cursor, pageSize);
+    }
+
+    async getRecipeById(recipeId: string): Promise<Recipe | null> {
+        return this.recipes.find(recipe => recipe.id === recipeId) || null;
+    }
+
+    async getRecipesByTag(tag: string): Promise<Recipe[]> {
+        return this.sortByName(this.recipes.filter(recipe => recipe.tags.includes(tag)));
+    }
+
+    async addRecipe(recipe: NewRecipe): Promise<Recipe> {
+        const newRecipe: Recipe = {
+            ...recipe,
+            id: this.generateId('recipe'),
+            createdAt: new Date().toISOString()
+        };
+
+        this.recipes.push(newRecipe);
+        this.dataChanged('recipes');
+        return newRecipe;
+    }
+
+    async updateRecipe(id: string, recipe: Partial<Recipe>): Promise<Recipe> {
+        const index = this.recipes.findIndex(r => r.id === id);
+        if (index === -1) {
+            throw new NotFoundError(`Recipe ${id} not found`);
+        }
+
+        this.recipes[index] = { ...this.recipes[index], ...recipe, id };
+        this.dataChanged('recipes');
+        return this.recipes[index];
+    }
+
+    async addRecipeIngredient(recipeId: string, ingredient: NewRecipeIngredient): Promise<RecipeIngredient> {
+        if (!this.recipes.some(recipe => recipe.id === recipeId)) {
+            throw new NotFoundError(`Recipe ${recipeId} not found`);
+        }
+
+        const newIngredient: RecipeIngredient = {
+            ...ingredient,
+            id: this.generateId('ingredient'),
+            recipeId
+        };
+
+        this.ingredients.push(newIngredient);
+        this.dataChanged('recipes');
+        return newIngredient;
+    }
+
+    async updateRecipeIngredient(ingredientId: string, ingredient: Partial<NewRecipeIngredient>): Promise<RecipeIngredient> {
+        const index = this.ingredients.findIndex(i => i.id === ingredientId);
+        if (index === -1) {
+            throw new NotFoundError(`Ingredient ${ingredientId} not found`);
+        }
+
+        this.ingredients[index] = { ...this.ingredients[index], ...ingredient };
+        this.dataChanged('recipes');
+        return this.ingredients[index];
+    }
+
+    async removeRecipeIngredient(ingredientId: string): Promise<void> {
+        if (!this.ingredients.some(ingredient => ingredient.id === ingredientId)) {
+            throw new NotFoundError(`Ingredient ${ingredientId} not found`);
+        }
+
+        this.ingredients = this.ingredients.filter(ingredient => ingredient.id !== ingredientId);
+        this.dataChanged('recipes');
+    }
+
+    protected async getIngredientsForRecipe(recipe: Recipe): Promise<RecipeIngredient[]> {
+        return this.ingredients.filter(ingredient => ingredient.recipeId === recipe.id);
+    }
+
+    // ====== SHOPPING LIST METHODS ======
+
+    async getShoppingList(): Promise<ShoppingListItem[]> {
+        return [...this.shoppingList].sort((a, b) =>
+            a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+    }
+
+    protected async createShoppingListItem(item: NewShoppingListItem): Promise<ShoppingListItem> {
+        const now = new Date().toISOString();
+        const newItem: ShoppingListItem = {
+            ...item,
+            id: this.generateId('shopping'),
+            addedAt: now,
+            lastUpdated: now
+        };
+
+        this.shoppingList.push(newItem);
+        this.dataChanged('shoppingList');
+        return newItem;
+    }
+
+    async updateShoppingListItem(id: string, item: Partial<ShoppingListItem>): Promise<ShoppingListItem> {
+        const index = this.shoppingList.findIndex(i => i.id === id);
+        if (index === -1) {
+            throw new NotFoundError(`Shopping list item ${id} not found`);
+        }
+
+        this.shoppingList[index] = {
+            ...this.shoppingList[index],
+            ...item,
+            id,
+            lastUpdated: new Date().toISOString()
+        };
+        this.dataChanged('shoppingList');
+
+        return this.shoppingList[index];
+    }
+
+    async deleteShoppingListItem(id: string): Promise<void> {
+        if (!this.shoppingList.some(item => item.id === id)) {
+            throw new NotFoundError(`Shopping list item ${id} not found`);
+        }
+
+        this.shoppingList = this.shoppingList.filter(item => item.id !== id);
+        this.dataChanged('shoppingList');
+    }
+
+    // ====== MEAL PLAN METHODS ======
+
+    async getMealPlan(startDate: string, endDate: string): Promise<MealPlanEntry[]> {
+        return this.mealPlan
+            .filter(entry => entry.date >= startDate && entry.date <= endDate)
+            .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async addMealPlanEntry(entry: NewMealPlanEntry): Promise<MealPlanEntry> {
+        const newEntry: MealPlanEntry = {
+            ...entry,
+            id: this.generateId('meal'),
+            createdAt: new Date().toISOString()
+        };
+
+        this.mealPlan.push(newEntry);
+        this.dataChanged('mealPlan');
+        return newEntry;
+    }
+
+    async removeMealPlanEntry(id: string): Promise<void> {
+        if (!this.mealPlan.some(entry => entry.id === id)) {
+            throw new NotFoundError(`Meal plan entry ${id} not found`);
+        }
+
+        this.mealPlan = this.mealPlan.filter(entry => entry.id !== id);
+        this.dataChanged('mealPlan');
+    }
+
+    // ====== HELPER METHODS ======
+
+    private generateId(prefix: string): string {
+        return `${prefix}_mem_${this.nextId++}`;
+    }
+
+    private sortByName<T extends { name: string }>(items: T[]): T[] {
+        return [...items].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // Cursors are plain offsets into the sorted list
+    private paginate<T>(items: T[], cursor: string | undefined, pageSize: number): PaginatedResult<T> {
+        const start = cursor ? parseInt(cursor, 10) || 0 : 0;
+        const end = start + pageSize;
+        const hasMore = end < items.length;
+
+        return {
+            items: items.slice(start, end),
+            nextCursor: hasMore ? String(end) : null,
+            hasMore
+        };
+    }
+}
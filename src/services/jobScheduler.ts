@@ -0,0 +1,366 @@
+// src/services/jobScheduler.ts
+import type { PantryEventData, PantryEventNotifier } from "../types";
+import type { PantryRepository } from "./pantryRepository";
+import { resolveMealPlanRange } from "./mealPlanning";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Runs kept per job for the jobs resource
+const MAX_RECORDED_RUNS = 10;
+
+// Storage key holding every job's next run time and recent runs
+const JOBS_STORAGE_KEY = "jobs:state";
+
+export type JobName = 'expiryCheck' | 'stapleReplenishment' | 'weeklyDigest';
+
+/**
+ * When and how a job runs. Times are UTC.
+ */
+export interface JobConfig {
+    enabled: boolean;
+
+    /**
+     * Hour of the day (0-23, UTC)
+     */
+    hour: number;
+
+    minute: number;
+
+    /**
+     * Day of the week for weekly jobs (0 = Sunday)
+     */
+    dayOfWeek?: number;
+
+    /**
+     * Job-specific settings
+     * - expiryCheck: expiringWithinDays
+     * - stapleReplenishment: parMultiplier, dryRun
+     */
+    options: Record<string, string | number | boolean>;
+}
+
+export type JobsConfig = Record<JobName, JobConfig>;
+
+/**
+ * The outcome of one job run
+ */
+export interface JobRun {
+    job: JobName;
+    status: 'success' | 'error';
+    startedAt: string;
+    finishedAt: string;
+    result?: object;
+    error?: string;
+}
+
+/**
+ * A job's schedule and recent history, as shown by the jobs resource
+ */
+export interface JobStatus {
+    name: JobName;
+    description: string;
+    config: JobConfig;
+    nextRunAt: string | null;
+    lastRun: JobRun | null;
+    recentRuns: JobRun[];
+}
+
+/**
+ * What the expiry check found
+ */
+export interface ExpiryCheckResult {
+    expiringWithinDays: number;
+    expired: PantryEventData['items.expired']['items'];
+    expiringSoon: PantryEventData['items.expired']['items'];
+}
+
+interface StoredJobState {
+    nextRunAt?: string;
+    runs: JobRun[];
+}
+
+const JOB_DESCRIPTIONS: Record<JobName, string> = {
+    expiryCheck: "Daily check that records expired and soon-to-expire pantry items",
+    stapleReplenishment: "Nightly pass that adds low staples to the shopping list",
+    weeklyDigest: "Weekly summary of the pantry, shopping list and meal plan"
+};
+
+export const DEFAULT_JOBS_CONFIG: JobsConfig = {
+    expiryCheck: { enabled: true, hour: 6, minute: 0, options: { expiringWithinDays: 3 } },
+    stapleReplenishment: { enabled: true, hour: 2, minute: 0, options: { parMultiplier: 2, dryRun: false } },
+    weeklyDigest: { enabled: true, hour: 18, minute: 0, dayOfWeek: 0, options: {} }
+};
+
+const JOB_NAMES = Object.keys(DEFAULT_JOBS_CONFIG) as JobName[];
+
+/**
+ * Read the SCHEDULED_JOBS setting: a JSON object whose keys are job names
+ * and whose values override parts of the default config, e.g.
+ * {"stapleReplenishment": {"hour": 3, "options": {"dryRun": true}}}
+ */
+export function resolveJobsConfig(value: string | undefined): JobsConfig {
+    if (!value) return DEFAULT_JOBS_CONFIG;
+
+    let overrides: Record<string, Partial<JobConfig>>;
+    try {
+        overrides = JSON.parse(value);
+    } catch {
+        throw new Error("SCHEDULED_JOBS must be a JSON object keyed by job name");
+    }
+
+    const config = { ...DEFAULT_JOBS_CONFIG };
+
+    for (const [name, override] of Object.entries(overrides)) {
+        if (!JOB_NAMES.includes(name as JobName)) {
+            throw new Error(`Unknown job "${name}" in SCHEDULED_JOBS. Expected one of: ${JOB_NAMES.join(', ')}`);
+        }
+
+        const defaults = DEFAULT_JOBS_CONFIG[name as JobName];
+        config[name as JobName] = {
+            ...defaults,
+            ...override,
+            options: { ...defaults.options, ...override.options }
+        };
+    }
+
+    return config;
+}
+
+/**
+ * Next time a job is due strictly after `after`
+ */
+export function getNextRunTime(config: JobConfig, after: Date): Date {
+    const next = new Date(after);
+    next.setUTCHours(config.hour, config.minute, 0, 0);
+
+    while (next <= after || (config.dayOfWeek !== undefined && next.getUTCDay() !== config.dayOfWeek)) {
+        next.setTime(next.getTime() + MS_PER_DAY);
+    }
+
+    return next;
+}
+
+/**
+ * Runs the pantry's background jobs from a Durable Object alarm. The
+ * object has a single alarm, so it is always set to the earliest due job.
+ */
+export class JobScheduler {
+    constructor(
+        private storage: DurableObjectStorage,
+        private repository: PantryRepository,
+        private config: JobsConfig = DEFAULT_JOBS_CONFIG,
+        private eventNotifier?: PantryEventNotifier
+    ) { }
+
+    /**
+     * Work out when each enabled job next runs and set the alarm for the earliest
+     */
+    async ensureScheduled(now: Date = new Date()): Promise<void> {
+        const state = await this.loadState();
+
+        for (const name of JOB_NAMES) {
+            const job = state[name];
+
+            // Overdue runs are kept so the alarm fires straight away; anything
+            // else is recomputed in case the schedule changed
+            if (!this.config[name].enabled) {
+                delete job.nextRunAt;
+            } else if (!job.nextRunAt || new Date(job.nextRunAt) > now) {
+                job.nextRunAt = getNextRunTime(this.config[name], now).toISOString();
+            }
+        }
+
+        await this.saveState(state);
+        await this.setAlarm(state);
+    }
+
+    /**
+     * Run every job that is due, record the results and schedule the next alarm
+     */
+    async runDueJobs(now: Date = new Date()): Promise<JobRun[]> {
+        const state = await this.loadState();
+        const runs: JobRun[] = [];
+
+        for (const name of JOB_NAMES) {
+            const job = state[name];
+            if (!this.config[name].enabled || !job.nextRunAt || new Date(job.nextRunAt) > now) continue;
+
+            const run = await this.runJob(name, job.runs[0]);
+            runs.push(run);
+
+            job.runs = [run, ...job.runs].slice(0, MAX_RECORDED_RUNS);
+            job.nextRunAt = getNextRunTime(this.config[name], now).toISOString();
+        }
+
+        await this.saveState(state);
+        await this.ensureScheduled(now);
+
+        return runs;
+    }
+
+    /**
+     * Schedule and recent runs for every job
+     */
+    async getStatus(): Promise<JobStatus[]> {
+        const state = await this.loadState();
+
+        return JOB_NAMES.map(name => ({
+            name,
+            description: JOB_DESCRIPTIONS[name],
+            config: this.config[name],
+            nextRunAt: this.config[name].enabled ? state[name].nextRunAt ?? null : null,
+            lastRun: state[name].runs[0] ?? null,
+            recentRuns: state[name].runs
+        }));
+    }
+
+    // ====== JOBS ======
+
+    private async runJob(name: JobName, previousRun?: JobRun): Promise<JobRun> {
+        const startedAt = new Date().toISOString();
+
+        try {
+            const result = await this.executeJob(name, this.config[name].options, previousRun);
+
+            return { job: name, status: 'success', startedAt, finishedAt: new Date().toISOString(), result };
+        } catch (error) {
+            console.error(`Error running scheduled job ${name}:`, error);
+
+            return {
+                job: name,
+                status: 'error',
+                startedAt,
+                finishedAt: new Date().toISOString(),
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+
+    private async executeJob(name: JobName, options: JobConfig['options'], previousRun?: JobRun): Promise<object> {
+        switch (name) {
+            case 'expiryCheck':
+                return this.runExpiryCheck(Number(options.expiringWithinDays ?? 3), previousRun);
+            case 'stapleReplenishment':
+                return this.repository.replenishStaples({
+                    parMultiplier: Number(options.parMultiplier ?? 2),
+                    dryRun: Boolean(options.dryRun)
+                });
+            case 'weeklyDigest':
+                return this.buildWeeklyDigest();
+        }
+    }
+
+    /**
+     * Record expired and expiring items, reporting items that have expired
+     * since the last successful check
+     */
+    private async runExpiryCheck(expiringWithinDays: number, previousRun?: JobRun): Promise<ExpiryCheckResult> {
+        const result = await this.checkExpiry(expiringWithinDays);
+
+        const previous = previousRun?.status === 'success'
+            ? (previousRun.result as ExpiryCheckResult).expired.map(item => item.name)
+            : [];
+        const newlyExpired = result.expired.filter(item => !previous.includes(item.name));
+
+        if (newlyExpired.length > 0) {
+            await this.eventNotifier?.notify('items.expired', { items: newlyExpired });
+        }
+
+        return result;
+    }
+
+    private async checkExpiry(expiringWithinDays: number): Promise<ExpiryCheckResult> {
+        const items = await this.repository.getPantryItems();
+        const today = new Date();
+
+        const dated = items
+            .filter(item => item.expiryDate)
+            .map(item => ({
+                name: item.name,
+                quantity: item.quantity,
+                unit: item.unit,
+                expiryDate: item.expiryDate!,
+                daysUntilExpiry: Math.ceil((new Date(item.expiryDate!).getTime() - today.getTime()) / MS_PER_DAY)
+            }))
+            .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
+
+        return {
+            expiringWithinDays,
+            expired: dated.filter(item => item.daysUntilExpiry < 0),
+            expiringSoon: dated.filter(item => item.daysUntilExpiry >= 0 && item.daysUntilExpiry <= expiringWithinDays)
+        };
+    }
+
+    private async buildWeeklyDigest() {
+        const [pantryItems, shoppingList] = await Promise.all([
+            this.repository.getPantryItems(),
+            this.repository.getShoppingList()
+        ]);
+        const expiry = await this.checkExpiry(7);
+
+        // Meal planning is optional with the Notion backend
+        let mealPlan: Record<string, unknown>;
+        try {
+            const needs = await this.repository.getMealPlanNeeds(resolveMealPlanRange());
+            mealPlan = {
+                startDate: needs.startDate,
+                endDate: needs.endDate,
+                plannedMeals: needs.entries.length,
+                shortfall: needs.ingredients
+                    .filter(ingredient => ingredient.shortfall > 0)
+                    .map(ingredient => `${ingredient.shortfall} ${ingredient.unit} ${ingredient.name}`)
+            };
+        } catch (error) {
+            mealPlan = { unavailable: error instanceof Error ? error.message : String(error) };
+        }
+
+        return {
+            pantry: {
+                totalItems: pantryItems.length,
+                expired: expiry.expired.map(item => item.name),
+                expiringThisWeek: expiry.expiringSoon.map(item => item.name),
+                lowStaples: pantryItems
+                    .filter(item => item.isStaple && item.minQuantity !== undefined && item.quantity <= item.minQuantity)
+                    .map(item => item.name)
+            },
+            shoppingList: {
+                open: shoppingList.filter(item => !item.isPurchased).length,
+                purchased: shoppingList.filter(item => item.isPurchased).length
+            },
+            mealPlan
+        };
+    }
+
+    // ====== HELPER METHODS ======
+
+    private async loadState(): Promise<Record<JobName, StoredJobState>> {
+        const stored = await this.storage.get<Partial<Record<JobName, StoredJobState>>>(JOBS_STORAGE_KEY) ?? {};
+
+        return Object.fromEntries(
+            JOB_NAMES.map(name => [name, stored[name] ?? { runs: [] }])
+        ) as Record<JobName, StoredJobState>;
+    }
+
+    private async saveState(state: Record<JobName, StoredJobState>): Promise<void> {
+        await this.storage.put(JOBS_STORAGE_KEY, state);
+    }
+
+    private async setAlarm(state: Record<JobName, StoredJobState>): Promise<void> {
+        const nextTimes = JOB_NAMES
+            .map(name => state[name].nextRunAt)
+            .filter((time): time is string => !!time)
+            .map(time => new Date(time).getTime());
+
+        if (nextTimes.length === 0) {
+            await this.storage.deleteAlarm();
+            return;
+        }
+
+        const earliest = Math.min(...nextTimes);
+        const current = await this.storage.getAlarm();
+
+        if (current !== earliest) {
+            await this.storage.setAlarm(earliest);
+        }
+    }
+}
@@ -0,0 +1,198 @@
+// src/services/mealPlanning.ts
+import type {
+    MealPlanEntry,
+    MealPlanIngredientNeed,
+    MealPlanNeeds,
+    PantryItem,
+    RecipeWithIngredients,
+    ShoppingListItem
+} from "../types";
+import { ValidationError } from "../types/errors";
+import { findPantryItem, scaleIngredients } from "../types/recipeIngredients";
+import { isOpenDuplicate } from "../types/shoppingList";
+import { convertIngredientQuantity, toSensibleUnit } from "../types/units";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * A run of days to plan for, both ends inclusive (YYYY-MM-DD)
+ */
+export interface MealPlanRange {
+    startDate: string;
+    endDate: string;
+}
+
+/**
+ * Resolve the days a meal plan covers, defaulting to the seven days starting today
+ */
+export function resolveMealPlanRange(startDate?: string, endDate?: string): MealPlanRange {
+    const start = startDate ?? toDateString(new Date());
+    const startTime = parseDate(start);
+    const end = endDate ?? toDateString(new Date(startTime + 6 * MS_PER_DAY));
+    parseDate(end);
+
+    if (end < start) {
+        throw new ValidationError(`End date ${end} is before start date ${start}`);
+    }
+
+    return { startDate: start, endDate: end };
+}
+
+// Running total for one ingredient in one unit
+interface IngredientTotal {
+    name: string;
+    quantity: number;
+    unit: string;
+    recipes: Set<string>;
+}
+
+/**
+ * Add up every planned meal's ingredients (scaled to the planned servings)
+ * and net the totals against the pantry and what's already on the open
+ * shopping list. Optional ingredients and amounts like "salt to taste" are
+ * left out. Amounts for ingredients the pantry stocks are given in the
+ * pantry item's unit, so purchases add up cleanly.
+ */
+export function calculateMealPlanNeeds(
+    entries: MealPlanEntry[],
+    recipes: RecipeWithIngredients[],
+    pantryItems: PantryItem[],
+    shoppingList: ShoppingListItem[],
+    range: MealPlanRange
+): MealPlanNeeds {
+    const recipesById = new Map(recipes.map(recipe => [recipe.recipe.id, recipe]));
+    const totals: IngredientTotal[] = [];
+    const missingRecipes: string[] = [];
+
+    for (const entry of entries) {
+        const planned = recipesById.get(entry.recipeId);
+        if (!planned) {
+            missingRecipes.push(entry.recipeName || entry.recipeId);
+            continue;
+        }
+
+        const multiplier = entry.servings && planned.recipe.servings
+            ? entry.servings / planned.recipe.servings
+            : 1;
+        const required = planned.ingredients.filter(ingredient => !ingredient.isOptional && ingredient.quantity > 0);
+
+        for (const ingredient of scaleIngredients(required, multiplier)) {
+            // Merge with an earlier total for the same ingredient when the units convert
+            const total = totals.find(existing =>
+                existing.name.toLowerCase() === ingredient.name.toLowerCase() &&
+                convertIngredientQuantity(ingredient.quantity, ingredient.unit, existing.unit, existing.name) !== null);
+
+            if (total) {
+                total.quantity += convertIngredientQuantity(ingredient.quantity, ingredient.unit, total.unit, total.name)!;
+                total.recipes.add(planned.recipe.name);
+            } else {
+                totals.push({
+                    name: ingredient.name,
+                    quantity: ingredient.quantity,
+                    unit: ingredient.unit,
+                    recipes: new Set([planned.recipe.name])
+                });
+            }
+        }
+    }
+
+    const ingredients: MealPlanIngredientNeed[] = [];
+    const unitMismatches: MealPlanNeeds['unitMismatches'] = [];
+
+    for (const total of totals) {
+        const recipeNames = [...total.recipes];
+        const pantryItem = findPantryItem(total, pantryItems);
+
+        if (!pantryItem) {
+            const need = toSensibleUnit(total.quantity, total.unit);
+            const onShoppingList = amountOnShoppingList(shoppingList, total.name, need.unit);
+            ingredients.push({
+                name: total.name,
+                need: round(need.quantity),
+                have: 0,
+                onShoppingList: round(onShoppingList),
+                shortfall: round(Math.max(0, need.quantity - onShoppingList)),
+                unit: need.unit,
+                recipes: recipeNames
+            });
+            continue;
+        }
+
+        const need = convertIngredientQuantity(total.quantity, total.unit, pantryItem.unit, pantryItem.name);
+        if (need === null) {
+            unitMismatches.push({
+                name: total.name,
+                need: round(total.quantity),
+                unit: total.unit,
+                pantryQuantity: pantryItem.quantity,
+                pantryUnit: pantryItem.unit,
+                recipes: recipeNames
+            });
+            continue;
+        }
+
+        const onShoppingList = amountOnShoppingList(shoppingList, pantryItem.name, pantryItem.unit);
+        ingredients.push({
+            name: pantryItem.name,
+            need: round(need),
+            have: pantryItem.quantity,
+            onShoppingList: round(onShoppingList),
+            shortfall: round(Math.max(0, need - pantryItem.quantity - onShoppingList)),
+            unit: pantryItem.unit,
+            recipes: recipeNames
+        });
+    }
+
+    return {
+        ...range,
+        entries,
+        ingredients: ingredients.sort((a, b) => a.name.localeCompare(b.name)),
+        unitMismatches,
+        missingRecipes
+    };
+}
+
+/**
+ * Group meal plan entries by day for display, keeping their order
+ */
+export function groupMealPlanByDay(entries: MealPlanEntry[]): { date: string; meals: MealPlanEntry[] }[] {
+    const days = new Map<string, MealPlanEntry[]>();
+
+    for (const entry of entries) {
+        days.set(entry.date, [...(days.get(entry.date) ?? []), entry]);
+    }
+
+    return Array.from(days.entries()).map(([date, meals]) => ({ date, meals }));
+}
+
+/**
+ * Total of the open shopping list entries for an item, in `unit`. Entries
+ * whose units don't convert are left out.
+ */
+function amountOnShoppingList(shoppingList: ShoppingListItem[], name: string, unit: string): number {
+    return shoppingList
+        .filter(entry => isOpenDuplicate(entry, name))
+        .reduce((total, entry) => total + (convertIngredientQuantity(entry.quantity, entry.unit, unit, name) ?? 0), 0);
+}
+
+/**
+ * Milliseconds for a YYYY-MM-DD date, rejecting days that don't exist
+ * (e.g. 2024-13-45 or 2024-02-30)
+ */
+function parseDate(date: string): number {
+    const time = Date.parse(date);
+
+    if (Number.isNaN(time) || toDateString(new Date(time)) !== date) {
+        throw new ValidationError(`${date} is not a real date`);
+    }
+
+    return time;
+}
+
+function toDateString(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function round(quantity: number): number {
+    return Math.round(quantity * 1000) / 1000;
+}
@@ -0,0 +1,228 @@
+// src/services/mealSuggestions.ts
+import type {
+    IngredientAvailability,
+    MealSuggestion,
+    PantryItem,
+    RecipeMatch,
+    RecipeWithIngredients,
+    RescuedPantryItem
+} from "../types";
+import { findPantryItem, matchRecipe } from "../types/recipeIngredients";
+import { convertIngredientQuantity } from "../types/units";
+
+// Share of stock assumed when a recipe's amount can't be converted into the pantry unit
+const UNKNOWN_SHARE_OF_STOCK = 0.5;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * How suggestions are ranked
+ * - best-match: by how much of the recipe the pantry covers
+ * - use-it-up: by how much soon-to-expire stock the recipe consumes
+ */
+export type SuggestionMode = 'best-match' | 'use-it-up';
+
+/**
+ * Filters and limits for meal suggestions
+ */
+export interface SuggestMealsOptions {
+    maxResults?: number;
+
+    /**
+     * Only suggest recipes carrying every one of these tags
+     */
+    requiredTags?: string[];
+
+    excludeTried?: boolean;
+    excludeUntried?: boolean;
+
+    /**
+     * Minimum match percentage (0-100) a recipe needs to be suggested
+     */
+    minMatchPercentage?: number;
+
+    mode?: SuggestionMode;
+
+    /**
+     * In use-it-up mode, how many days ahead counts as expiring soon
+     */
+    expiringWithinDays?: number;
+}
+
+/**
+ * Score every recipe against the pantry and return the best matches,
+ * each with the reason it ranked where it did
+ */
+export function rankMealSuggestions(
+    recipes: RecipeWithIngredients[],
+    pantryItems: PantryItem[],
+    options: SuggestMealsOptions = {}
+): MealSuggestion[] {
+    const {
+        maxResults = 5,
+        requiredTags = [],
+        excludeTried = false,
+        excludeUntried = false,
+        minMatchPercentage = 0,
+        mode = 'best-match',
+        expiringWithinDays = 7
+    } = options;
+
+    const eligibleRecipes = recipes
+        .filter(({ recipe }) => requiredTags.every(tag =>
+            recipe.tags.some(recipeTag => recipeTag.toLowerCase() === tag.toLowerCase())))
+        .filter(({ recipe }) => !(excludeTried && recipe.tried) && !(excludeUntried && !recipe.tried));
+
+    const matches = eligibleRecipes
+        .map(recipe => matchRecipe(recipe, pantryItems))
+        .filter(match => toPercentage(match.matchPercentage) >= minMatchPercentage);
+
+    if (mode === 'use-it-up') {
+        const expiringItems = getExpiringItems(pantryItems, expiringWithinDays);
+
+        // Only recipes that rescue at least one expiring item are worth suggesting here
+        const rescues = matches
+            .map(match => ({ match, ...scoreRescue(match, expiringItems) }))
+            .filter(rescue => rescue.rescuedItems.length > 0)
+            .sort((a, b) => b.wasteScore - a.wasteScore || compareMatches(a.match, b.match));
+
+        return rescues
+            .slice(0, maxResults)
+            .map(({ match, rescuedItems, wasteScore }, index) =>
+                toMealSuggestion(match, index + 1, rescues.length, { rescuedItems, wasteScore }));
+    }
+
+    matches.sort(compareMatches);
+
+    return matches
+        .slice(0, maxResults)
+        .map((match, index) => toMealSuggestion(match, index + 1, matches.length));
+}
+
+/**
+ * Turn a scored recipe into a MealSuggestion with a short explanation
+ */
+export function toMealSuggestion(
+    match: RecipeMatch,
+    rank: number,
+    totalRanked: number,
+    rescue?: { rescuedItems: RescuedPantryItem[]; wasteScore: number }
+): MealSuggestion {
+    const { short, unknown } = splitMissing(match.missingIngredients);
+    const covered = match.ingredients.length - match.missingIngredients.length;
+
+    const explanation = [
+        rescue
+            ? `Ranked ${rank} of ${totalRanked} for using up expiring food: uses ${rescue.rescuedItems.map(describeRescue).join(', ')}.`
+            : `Ranked ${rank} of ${totalRanked}:`,
+        `${covered} of ${match.ingredients.length} ingredients covered (${toPercentage(match.matchPercentage)}%).`,
+        short.length > 0 ? `Short on ${short.map(describeShortage).join(', ')}.` : undefined,
+        unknown.length > 0 ? `Couldn't compare units for ${unknown.map(item => item.name).join(', ')}.` : undefined,
+        match.missingIngredients.length === 0 ? 'Everything needed is in the pantry.' : undefined
+    ].filter(Boolean).join(' ');
+
+    return {
+        recipe: {
+            id: match.recipe.id,
+            name: match.recipe.name,
+            tags: match.recipe.tags,
+            tried: match.recipe.tried,
+            notionUrl: match.recipe.notionUrl
+        },
+        rank,
+        matchPercentage: toPercentage(match.matchPercentage),
+        missingIngredients: match.missingIngredients,
+        ...(rescue && {
+            rescuedItems: rescue.rescuedItems,
+            wasteScore: Math.round(rescue.wasteScore * 100) / 100
+        }),
+        explanation
+    };
+}
+
+/**
+ * Pantry items with stock left that expire today or within the window
+ */
+function getExpiringItems(pantryItems: PantryItem[], withinDays: number): (PantryItem & { daysUntilExpiry: number })[] {
+    const today = new Date();
+
+    return pantryItems
+        .filter(item => item.expiryDate && item.quantity > 0)
+        .map(item => ({
+            ...item,
+            daysUntilExpiry: Math.ceil((new Date(item.expiryDate!).getTime() - today.getTime()) / MS_PER_DAY)
+        }))
+        .filter(item => item.daysUntilExpiry >= 0 && item.daysUntilExpiry <= withinDays);
+}
+
+/**
+ * Score a recipe by the expiring stock it uses. Each rescued item adds
+ * (share of its stock the recipe uses) / (1 + days until it expires),
+ * so using most of something that expires tomorrow beats a little of
+ * something that lasts the week.
+ */
+function scoreRescue(
+    match: RecipeMatch,
+    expiringItems: (PantryItem & { daysUntilExpiry: number })[]
+): { rescuedItems: RescuedPantryItem[]; wasteScore: number } {
+    const rescuedItems: RescuedPantryItem[] = [];
+    let wasteScore = 0;
+
+    for (const ingredient of match.ingredients) {
+        const item = findPantryItem(ingredient, expiringItems) as (PantryItem & { daysUntilExpiry: number }) | undefined;
+        if (!item || rescuedItems.some(rescued => rescued.name === item.name)) continue;
+
+        const used = ingredient.quantity > 0
+            ? convertIngredientQuantity(ingredient.quantity, ingredient.unit, item.unit, item.name)
+            : null;
+        const shareOfStock = used !== null ? Math.min(1, used / item.quantity) : null;
+
+        wasteScore += (shareOfStock ?? UNKNOWN_SHARE_OF_STOCK) / (1 + item.daysUntilExpiry);
+
+        rescuedItems.push({
+            name: item.name,
+            expiryDate: item.expiryDate!,
+            daysUntilExpiry: item.daysUntilExpiry,
+            used: used !== null ? Math.round(used * 1000) / 1000 : null,
+            unit: item.unit,
+            shareOfStock: shareOfStock !== null ? toPercentage(shareOfStock) : null
+        });
+    }
+
+    return { rescuedItems, wasteScore };
+}
+
+// Best coverage first, then fewer known shortages, then fewer unknowns
+function compareMatches(a: RecipeMatch, b: RecipeMatch): number {
+    const aMissing = splitMissing(a.missingIngredients);
+    const bMissing = splitMissing(b.missingIngredients);
+
+    return b.matchPercentage - a.matchPercentage
+        || aMissing.short.length - bMissing.short.length
+        || aMissing.unknown.length - bMissing.unknown.length
+        || a.recipe.name.localeCompare(b.recipe.name);
+}
+
+function splitMissing(missing: IngredientAvailability[]) {
+    return {
+        short: missing.filter(item => item.status !== 'unknown'),
+        unknown: missing.filter(item => item.status === 'unknown')
+    };
+}
+
+function describeShortage(item: IngredientAvailability): string {
+    return item.status === 'missing'
+        ? `${item.name} (none on hand)`
+        : `${item.name} (have ${item.have} of ${item.need} ${item.unit})`;
+}
+
+function describeRescue(item: RescuedPantryItem): string {
+    const expiry = item.daysUntilExpiry === 0 ? 'expires today' : `expires in ${item.daysUntilExpiry} day${item.daysUntilExpiry === 1 ? '' : 's'}`;
+    const share = item.shareOfStock !== null ? `, ${item.shareOfStock}% of stock` : '';
+
+    return `${item.name} (${expiry}${share})`;
+}
+
+function toPercentage(fraction: number): number {
+    return Math.round(fraction * 100);
+}
@@ -0,0 +1,777 @@
+// src/services/pantryRepository.ts
+import type {
+    MealPlanEntry,
+    MealPlanNeeds,
+    MealSuggestion,
+    PaginatedResult,
+    PantryChangeListener,
+    PantryCollection,
+    PantryEventNotifier,
+    PantryItem,
+    PantryUpdateResult,
+    PurchasedItemChange,
+    Recipe,
+    RecipeIngredient,
+    RecipeWithIngredients,
+    ShoppingListItem
+} from "../types";
+import { NotFoundError, toPantryError } from "../types/errors";
+import {
+    describeUnitMismatch,
+    deductFromPantryItem,
+    findPantryItem,
+    scaleIngredients
+} from "../types/recipeIngredients";
+import { isOpenDuplicate, mergeShoppingListItems } from "../types/shoppingList";
+import { calculateMealPlanNeeds, type MealPlanRange } from "./mealPlanning";
+import { rankMealSuggestions, type SuggestMealsOptions } from "./mealSuggestions";
+
+// Shapes accepted when creating new records (storage assigns ids and timestamps)
+export type NewPantryItem = Omit<PantryItem, 'id' | 'createdAt' | 'lastUpdated'>;
+export type NewRecipe = Omit<Recipe, 'id' | 'createdAt'>;
+export type NewRecipeIngredient = Omit<RecipeIngredient, 'id' | 'recipeId'>;
+export type NewShoppingListItem = Omit<ShoppingListItem, 'id' | 'addedAt' | 'lastUpdated'>;
+export type NewMealPlanEntry = Omit<MealPlanEntry, 'id' | 'createdAt'>;
+
+/**
+ * The shopping list entry an add ended up in, and whether it merged into an existing one
+ */
+export interface ShoppingListAddResult {
+    item: ShoppingListItem;
+    merged: boolean;
+}
+
+/**
+ * Duplicate shopping list entries folded into one
+ */
+export interface ShoppingListConsolidation {
+    merged: {
+        name: string;
+        keptId: string;
+        removedIds: string[];
+        quantity: number;
+        unit: string;
+        priority: string;
+    }[];
+
+    /**
+     * Duplicates left alone because their units can't be converted
+     */
+    unitMismatches: {
+        name: string;
+        ids: string[];
+        units: string[];
+    }[];
+}
+
+/**
+ * Options for topping up low staples
+ */
+export interface ReplenishStaplesOptions {
+    /**
+     * Par level as a multiple of each staple's minimum quantity
+     */
+    parMultiplier?: number;
+
+    /**
+     * Work out what would be added without touching the shopping list
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * An amount of something that was used, in the unit it was measured in
+ */
+export interface UsedItem {
+    name: string;
+    quantity: number;
+    unit: string;
+}
+
+/**
+ * Options for taking used amounts off the pantry
+ */
+export interface UpdatePantryOptions {
+    /**
+     * Put items that run out or low on the shopping list (default true)
+     */
+    addToShoppingList?: boolean;
+}
+
+/**
+ * A low staple and how much it needs to get back to par
+ */
+export interface StapleTopUp {
+    name: string;
+    quantity: number;
+    minQuantity: number;
+    parLevel: number;
+    topUp: number;
+    unit: string;
+    category: string;
+}
+
+/**
+ * What a staple replenishment sweep found and did
+ */
+export interface StapleReplenishment {
+    dryRun: boolean;
+
+    /**
+     * Staples added to the shopping list (or that would be, in a dry run)
+     */
+    added: StapleTopUp[];
+
+    /**
+     * Low staples left alone because they are already on the open shopping list
+     */
+    alreadyOnList: StapleTopUp[];
+}
+
+/**
+ * A meal plan's needs and the shopping list items added for its shortfall
+ */
+export interface MealPlanShoppingResult {
+    needs: MealPlanNeeds;
+    added: ShoppingListItem[];
+}
+
+/**
+ * Storage-agnostic access to the pantry, recipes and shopping list.
+ * Tools and resources only talk to this interface, so the backing store
+ * (Notion, in-memory, Durable Object SQLite) can be swapped freely.
+ */
+export interface PantryRepository {
+    // ====== PANTRY ======
+    getPantryItems(): Promise<PantryItem[]>;
+    getPantryItemsPage(cursor?: string, pageSize?: number): Promise<PaginatedResult<PantryItem>>;
+    getPantryItemById(itemId: string): Promise<PantryItem | null>;
+    getPantryItemsByCategory(category: string): Promise<PantryItem[]>;
+    addPantryItem(item: NewPantryItem): Promise<PantryItem>;
+    updatePantryItem(id: string, item: Partial<PantryItem>): Promise<PantryItem>;
+    deletePantryItem(id: string): Promise<void>;
+
+    // ====== RECIPES ======
+    getRecipes(): Promise<Recipe[]>;
+    getRecipesPage(cursor?: string, pageSize?: number): Promise<PaginatedResult<Recipe>>;
+    getRecipeById(recipeId: string): Promise<Recipe | null>;
+    getRecipesByTag(tag: string): Promise<Recipe[]>;
+    addRecipe(recipe: NewRecipe): Promise<Recipe>;
+    updateRecipe(id: string, recipe: Partial<Recipe>): Promise<Recipe>;
+    getRecipesWithIngredients(): Promise<RecipeWithIngredients[]>;
+    getRecipeWithIngredients(recipeId: string): Promise<RecipeWithIngredients | null>;
+    addRecipeIngredient(recipeId: string, ingredient: NewRecipeIngredient): Promise<RecipeIngredient>;
+    updateRecipeIngredient(ingredientId: string, ingredient: Partial<NewRecipeIngredient>): Promise<RecipeIngredient>;
+    removeRecipeIngredient(ingredientId: string): Promise<void>;
+    markRecipeAsTried(recipeId: string): Promise<Recipe | null>;
+    suggestMeals(pantryItems: PantryItem[], options?: SuggestMealsOptions): Promise<MealSuggestion[]>;
+    updatePantryForRecipe(recipeId: string, multiplier?: number, options?: UpdatePantryOptions): Promise<PantryUpdateResult>;
+    deductUsedItems(items: UsedItem[], options?: UpdatePantryOptions): Promise<PantryUpdateResult>;
+
+    // ====== SHOPPING LIST ======
+    getShoppingList(): Promise<ShoppingListItem[]>;
+    addToShoppingList(item: NewShoppingListItem): Promise<ShoppingListItem>;
+    addOrMergeShoppingListItem(item: NewShoppingListItem): Promise<ShoppingListAddResult>;
+    consolidateShoppingList(dryRun?: boolean): Promise<ShoppingListConsolidation>;
+    replenishStaples(options?: ReplenishStaplesOptions): Promise<StapleReplenishment>;
+    updateShoppingListItem(id: string, item: Partial<ShoppingListItem>): Promise<ShoppingListItem>;
+    deleteShoppingListItem(id: string): Promise<void>;
+    markAsPurchased(id: string): Promise<ShoppingListItem>;
+    addPurchasedItemsToPantry(): Promise<PurchasedItemChange[]>;
+
+    // ====== MEAL PLAN ======
+    getMealPlan(startDate: string, endDate: string): Promise<MealPlanEntry[]>;
+    addMealPlanEntry(entry: NewMealPlanEntry): Promise<MealPlanEntry>;
+    removeMealPlanEntry(id: string): Promise<void>;
+    getMealPlanNeeds(range: MealPlanRange): Promise<MealPlanNeeds>;
+    addMealPlanShortfallToShoppingList(range: MealPlanRange): Promise<MealPlanShoppingResult>;
+
+    // ====== CHANGES ======
+    getChangeMarkers(): Promise<Partial<Record<PantryCollection, string>> | null>;
+}
+
+/**
+ * Shared behaviour for every backend. Subclasses only provide storage
+ * primitives; meal matching and the cooking/shopping workflows live here.
+ */
+export abstract class BasePantryRepository implements PantryRepository {
+    // Where pantry events (low staples, purchases) are sent, if anywhere
+    private eventNotifier?: PantryEventNotifier;
+
+    // Told about every write, so subscribed resources can be refreshed
+    private changeListener?: PantryChangeListener;
+
+    abstract getPantryItems(): Promise<PantryItem[]>;
+    abstract getPantryItemsPage(cursor?: string, pageSize?: number): Promise<PaginatedResult<PantryItem>>;
+    abstract getPantryItemById(itemId: string): Promise<PantryItem | null>;
+    abstract getPantryItemsByCategory(category: string): Promise<PantryItem[]>;
+    abstract addPantryItem(item: NewPantryItem): Promise<PantryItem>;
+    abstract deletePantryItem(id: string): Promise<void>;
+
+    abstract getRecipes(): Promise<Recipe[]>;
+    abstract getRecipesPage(cursor?: string, pageSize?: number): Promise<PaginatedResult<Recipe>>;
+    abstract getRecipeById(recipeId: string): Promise<Recipe | null>;
+    abstract getRecipesByTag(tag: string): Promise<Recipe[]>;
+    abstract addRecipe(recipe: NewRecipe): Promise<Recipe>;
+    abstract updateRecipe(id: string, recipe: Partial<Recipe>): Promise<Recipe>;
+    abstract addRecipeIngredient(recipeId: string, ingredient: NewRecipeIngredient): Promise<RecipeIngredient>;
+    abstract updateRecipeIngredient(ingredientId: string, ingredient: Partial<NewRecipeIngredient>): Promise<RecipeIngredient>;
+    abstract removeRecipeIngredient(ingredientId: string): Promise<void>;
+
+    abstract getShoppingList(): Promise<ShoppingListItem[]>;
+    abstract updateShoppingListItem(id: string, item: Partial<ShoppingListItem>): Promise<ShoppingListItem>;
+    abstract deleteShoppingListItem(id: string): Promise<void>;
+
+    abstract getMealPlan(startDate: string, endDate: string): Promise<MealPlanEntry[]>;
+    abstract addMealPlanEntry(entry: NewMealPlanEntry): Promise<MealPlanEntry>;
+    abstract removeMealPlanEntry(id: string): Promise<void>;
+
+    /**
+     * Write changes to a pantry item to the backing store
+     */
+    protected abstract savePantryItemUpdate(id: string, item: Partial<PantryItem>): Promise<PantryItem>;
+
+    /**
+     * Store a new shopping list entry as given, without looking for duplicates
+     */
+    protected abstract createShoppingListItem(item: NewShoppingListItem): Promise<ShoppingListItem>;
+
+    /**
+     * Load the ingredient list for a recipe from the backing store
+     */
+    protected abstract getIngredientsForRecipe(recipe: Recipe): Promise<RecipeIngredient[]>;
+
+    /**
+     * Load ingredients for many recipes at once, keyed by recipe ID.
+     * Backends that can batch the lookup should override this.
+     */
+    protected async getIngredientsForRecipes(recipes: Recipe[]): Promise<Map<string, RecipeIngredient[]>> {
+        const entries = await Promise.all(recipes.map(async recipe =>
+            [recipe.id, await this.getIngredientsForRecipe(recipe)] as const));
+
+        return new Map(entries);
+    }
+
+    /**
+     * Send pantry events (low staples, purchases) to this notifier
+     */
+    setEventNotifier(notifier: PantryEventNotifier): void {
+        this.eventNotifier = notifier;
+    }
+
+    /**
+     * Tell this listener about every write
+     */
+    setChangeListener(listener: PantryChangeListener): void {
+        this.changeListener = listener;
+    }
+
+    /**
+     * A value per collection that changes whenever the collection is
+     * edited, for noticing edits made outside this server. Null when
+     * every change goes through the repository itself.
+     */
+    async getChangeMarkers(): Promise<Partial<Record<PantryCollection, string>> | null> {
+        return null;
+    }
+
+    /**
+     * Report a write to the change listener
+     */
+    protected dataChanged(collection: PantryCollection): void {
+        this.changeListener?.changed(collection);
+    }
+
+    // ====== PANTRY METHODS ======
+
+    /**
+     * Update a pantry item, reporting staples whose quantity drops to or
+     * below their minimum
+     */
+    async updatePantryItem(id: string, item: Partial<PantryItem>): Promise<PantryItem> {
+        const watchStock = item.quantity !== undefined && !!this.eventNotifier?.handles('staple.low');
+        const before = watchStock ? await this.getPantryItemById(id) : null;
+
+        const updated = await this.savePantryItemUpdate(id, item);
+
+        if (before && this.eventNotifier && updated.isStaple && updated.minQuantity !== undefined &&
+            before.quantity > updated.minQuantity && updated.quantity <= updated.minQuantity) {
+            await this.eventNotifier.notify('staple.low', {
+                item: {
+                    id: updated.id,
+                    name: updated.name,
+                    quantity: updated.quantity,
+                    minQuantity: updated.minQuantity,
+                    unit: updated.unit,
+                    category: updated.category
+                }
+            });
+        }
+
+        return updated;
+    }
+
+    // ====== RECIPE METHODS ======
+
+    /**
+     * Get recipes with ingredients
+     */
+    async getRecipesWithIngredients(): Promise<RecipeWithIngredients[]> {
+        const recipes = await this.getRecipes();
+        const ingredientsByRecipe = await this.getIngredientsForRecipes(recipes);
+
+        return recipes.map(recipe => ({
+            recipe,
+            ingredients: ingredientsByRecipe.get(recipe.id) ?? []
+        }));
+    }
+
+    /**
+     * Get specific recipe with ingredients
+     */
+    async getRecipeWithIngredients(recipeId: string): Promise<RecipeWithIngredients | null> {
+        const recipe = await this.getRecipeById(recipeId);
+
+        if (!recipe) return null;
+
+        return {
+            recipe,
+            ingredients: await this.getIngredientsForRecipe(recipe)
+        };
+    }
+
+    /**
+     * Mark a recipe as tried
+     */
+    async markRecipeAsTried(recipeId: string): Promise<Recipe | null> {
+        try {
+            const recipe = await this.getRecipeById(recipeId);
+            if (!recipe) return null;
+
+            // Only update if not already tried
+            if (!recipe.tried) {
+                return await this.updateRecipe(recipeId, { tried: true });
+            }
+
+            return recipe;
+        } catch (error) {
+            console.error(`Error marking recipe ${recipeId} as tried:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Suggest meals based on available pantry ingredients, ranked by how
+     * much of each recipe the pantry covers
+     */
+    async suggestMeals(pantryItems: PantryItem[], options: SuggestMealsOptions = {}): Promise<MealSuggestion[]> {
+        // Get all recipes with ingredients
+        const recipesWithIngredients = await this.getRecipesWithIngredients();
+
+        return rankMealSuggestions(recipesWithIngredients, pantryItems, options);
+    }
+
+    /**
+     * Update pantry after preparing a recipe.
+     * A multiplier scales every amount (2 for a double batch).
+     */
+    async updatePantryForRecipe(recipeId: string, multiplier: number = 1, options: UpdatePantryOptions = {}): Promise<PantryUpdateResult> {
+        try {
+            // Get recipe with ingredients
+            const recipeWithIngredients = await this.getRecipeWithIngredients(recipeId);
+
+            if (!recipeWithIngredients) {
+                throw new NotFoundError(`Recipe ${recipeId} not found`);
+            }
+
+            return await this.deductUsedItems(scaleIngredients(recipeWithIngredients.ingredients, multiplier), options);
+        } catch (error) {
+            console.error(`Error updating pantry for recipe ${recipeId}:`, error);
+            throw toPantryError(error, `Failed to update pantry for recipe ${recipeId}`);
+        }
+    }
+
+    /**
+     * Take used amounts off the matching pantry items.
+     * Used amounts are converted into each pantry item's unit; items whose
+     * units can't be converted are reported and left unchanged. Items that
+     * run out, and staples that drop to their minimum, go on the shopping list.
+     */
+    async deductUsedItems(items: UsedItem[], options: UpdatePantryOptions = {}): Promise<PantryUpdateResult> {
+        const { addToShoppingList = true } = options;
+
+        try {
+            // Get current pantry items
+            let pantryItems = await this.getPantryItems();
+
+            const result: PantryUpdateResult = {
+                deductions: [],
+                unitMismatches: [],
+                addedToShoppingList: [],
+                notFound: []
+            };
+
+            for (const item of items) {
+                // Nothing to take off for ingredients without an amount ("salt to taste")
+                if (item.quantity <= 0) continue;
+
+                // Find matching pantry item
+                const pantryItem = findPantryItem(item, pantryItems);
+
+                if (!pantryItem) {
+                    result.notFound.push(item.name);
+                    continue;
+                }
+
+                // Calculate new quantity in the pantry item's unit
+                const newQuantity = deductFromPantryItem(pantryItem, item.quantity, item.unit);
+
+                // Leave stock alone when the units can't be converted
+                if (newQuantity === null) {
+                    result.unitMismatches.push(describeUnitMismatch(pantryItem, item.quantity, item.unit));
+                    continue;
+                }
+
+                const updated = await this.updatePantryItem(pantryItem.id, {
+                    quantity: newQuantity
+                });
+
+                // Later items with the same name start from the new quantity
+                pantryItems = pantryItems.map(existing => existing.id === updated.id ? updated : existing);
+
+                result.deductions.push({
+                    name: pantryItem.name,
+                    before: pantryItem.quantity,
+                    after: newQuantity,
+                    unit: pantryItem.unit,
+                    used: item.quantity,
+                    usedUnit: item.unit
+                });
+
+                // Only add items that just ran out or dropped to their minimum
+                const ranOut = newQuantity === 0 && pantryItem.quantity > 0;
+                const ranLow = pantryItem.isStaple && pantryItem.minQuantity !== undefined &&
+                    pantryItem.quantity > pantryItem.minQuantity &&
+                    newQuantity <= pantryItem.minQuantity;
+
+                if (addToShoppingList && (ranOut || ranLow)) {
+                    await this.addToShoppingList({
+                        name: pantryItem.name,
+                        quantity: pantryItem.isStaple ? pantryItem.minQuantity || 1 : item.quantity,
+                        unit: pantryItem.isStaple ? pantryItem.unit : item.unit,
+                        category: pantryItem.category,
+                        priority: pantryItem.isStaple ? 'High' : 'Medium',
+                        isPurchased: false,
+                        isAutoAdded: true
+                    });
+
+                    result.addedToShoppingList.push(pantryItem.name);
+                }
+            }
+
+            return result;
+        } catch (error) {
+            console.error('Error deducting used items from pantry:', error);
+            throw toPantryError(error, 'Failed to update pantry');
+        }
+    }
+
+    // ====== SHOPPING LIST METHODS ======
+
+    /**
+     * Add an item to the shopping list, merging it into an open entry with
+     * the same name when there is one
+     */
+    async addToShoppingList(item: NewShoppingListItem): Promise<ShoppingListItem> {
+        return (await this.addOrMergeShoppingListItem(item)).item;
+    }
+
+    /**
+     * Add an item to the shopping list. When an unpurchased entry with the
+     * same normalized name exists and the units convert, the quantity is
+     * added to it instead (keeping the higher priority and appending notes).
+     */
+    async addOrMergeShoppingListItem(item: NewShoppingListItem): Promise<ShoppingListAddResult> {
+        const shoppingList = await this.getShoppingList();
+
+        for (const existing of shoppingList.filter(entry => isOpenDuplicate(entry, item.name))) {
+            const merged = mergeShoppingListItems(existing, item);
+            if (!merged) continue;
+
+            return {
+                item: await this.updateShoppingListItem(existing.id, merged),
+                merged: true
+            };
+        }
+
+        return {
+            item: await this.createShoppingListItem(item),
+            merged: false
+        };
+    }
+
+    /**
+     * Fold duplicate unpurchased entries into the oldest one. Entries whose
+     * units can't be converted into each other are reported and left alone.
+     */
+    async consolidateShoppingList(dryRun: boolean = false): Promise<ShoppingListConsolidation> {
+        try {
+            const openItems = (await this.getShoppingList())
+                .filter(item => !item.isPurchased)
+                .sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+
+            const result: ShoppingListConsolidation = {
+                merged: [],
+                unitMismatches: []
+            };
+            const handled = new Set<string>();
+
+            for (const keeper of openItems) {
+                if (handled.has(keeper.id)) continue;
+                handled.add(keeper.id);
+
+                const duplicates = openItems.filter(item => !handled.has(item.id) && isOpenDuplicate(item, keeper.name));
+                if (duplicates.length === 0) continue;
+
+                let combined = keeper;
+                const removedIds: string[] = [];
+                const leftOver: typeof duplicates = [];
+
+                for (const duplicate of duplicates) {
+                    const merged = mergeShoppingListItems(combined, duplicate);
+                    if (!merged) {
+                        leftOver.push(duplicate);
+                        continue;
+                    }
+
+                    combined = { ...combined, ...merged };
+                    removedIds.push(duplicate.id);
+                    handled.add(duplicate.id);
+                }
+
+                if (removedIds.length > 0) {
+                    if (!dryRun) {
+                        await this.updateShoppingListItem(keeper.id, {
+                            quantity: combined.quantity,
+                            priority: combined.priority,
+                            isAutoAdded: combined.isAutoAdded,
+                            notes: combined.notes
+                        });
+
+                        for (const id of removedIds) {
+                            await this.deleteShoppingListItem(id);
+                        }
+                    }
+
+                    result.merged.push({
+                        name: keeper.name,
+                        keptId: keeper.id,
+                        removedIds,
+                        quantity: combined.quantity,
+                        unit: combined.unit,
+                        priority: combined.priority
+                    });
+                }
+
+                if (leftOver.length > 0) {
+                    result.unitMismatches.push({
+                        name: keeper.name,
+                        ids: [keeper.id, ...leftOver.map(item => item.id)],
+                        units: [keeper.unit, ...leftOver.map(item => item.unit)]
+                    });
+                }
+            }
+
+            return result;
+        } catch (error) {
+            console.error('Error consolidating shopping list:', error);
+            throw toPantryError(error, 'Failed to consolidate shopping list');
+        }
+    }
+
+    /**
+     * Put every staple at or below its minimum quantity on the shopping list,
+     * topped up to a par level, unless it's already on the open list
+     */
+    async replenishStaples(options: ReplenishStaplesOptions = {}): Promise<StapleReplenishment> {
+        const { parMultiplier = 2, dryRun = false } = options;
+
+        try {
+            const [pantryItems, shoppingList] = await Promise.all([
+                this.getPantryItems(),
+                this.getShoppingList()
+            ]);
+
+            const result: StapleReplenishment = {
+                dryRun,
+                added: [],
+                alreadyOnList: []
+            };
+
+            for (const item of pantryItems) {
+                if (!item.isStaple || item.minQuantity === undefined || item.quantity > item.minQuantity) continue;
+
+                const parLevel = item.minQuantity * parMultiplier;
+                const shortfall = parLevel - item.quantity;
+                const topUp: StapleTopUp = {
+                    name: item.name,
+                    quantity: item.quantity,
+                    minQuantity: item.minQuantity,
+                    parLevel,
+                    // Buy up to par; when par is at or below the current stock, still buy the minimum
+                    topUp: Math.round((shortfall > 0 ? shortfall : item.minQuantity || 1) * 1000) / 1000,
+                    unit: item.unit,
+                    category: item.category
+                };
+
+                if (shoppingList.some(entry => isOpenDuplicate(entry, item.name))) {
+                    result.alreadyOnList.push(topUp);
+                    continue;
+                }
+
+                if (!dryRun) {
+                    await this.addToShoppingList({
+                        name: item.name,
+                        quantity: topUp.topUp,
+                        unit: item.unit,
+                        category: item.category,
+                        priority: 'High',
+                        isPurchased: false,
+                        isAutoAdded: true
+                    });
+                }
+
+                result.added.push(topUp);
+            }
+
+            return result;
+        } catch (error) {
+            console.error('Error replenishing staples:', error);
+            throw toPantryError(error, 'Failed to replenish staples');
+        }
+    }
+
+    /**
+     * Mark item as purchased
+     */
+    async markAsPurchased(id: string): Promise<ShoppingListItem> {
+        return this.updateShoppingListItem(id, { isPurchased: true });
+    }
+
+    /**
+     * Add purchased items to pantry and remove from shopping list
+     */
+    async addPurchasedItemsToPantry(): Promise<PurchasedItemChange[]> {
+        try {
+            // Get purchased items from shopping list
+            const shoppingList = await this.getShoppingList();
+            const purchasedItems = shoppingList.filter(item => item.isPurchased);
+            const changes: PurchasedItemChange[] = [];
+
+            // For each purchased item
+            for (const item of purchasedItems) {
+                // Check if this item already exists in pantry
+                const pantryItems = await this.getPantryItems();
+                const existingItem = pantryItems.find(pantryItem =>
+                    pantryItem.name.toLowerCase() === item.name.toLowerCase());
+
+                if (existingItem) {
+                    // Update existing item quantity
+                    const updated = await this.updatePantryItem(existingItem.id, {
+                        quantity: existingItem.quantity + item.quantity
+                    });
+
+                    changes.push({
+                        name: item.name,
+                        action: 'updated',
+                        quantity: item.quantity,
+                        unit: item.unit,
+                        before: existingItem.quantity,
+                        after: updated.quantity
+                    });
+                } else {
+                    // Add as new pantry item
+                    await this.addPantryItem({
+                        name: item.name,
+                        quantity: item.quantity,
+                        unit: item.unit,
+                        category: item.category,
+                        location: 'Pantry', // Default location
+                        isStaple: false,
+                        notes: item.notes
+                    });
+
+                    changes.push({
+                        name: item.name,
+                        action: 'added',
+                        quantity: item.quantity,
+                        unit: item.unit
+                    });
+                }
+
+                // Remove from shopping list
+                await this.deleteShoppingListItem(item.id);
+            }
+
+            if (changes.length > 0) {
+                await this.eventNotifier?.notify('purchases.added', { count: changes.length, items: changes });
+            }
+
+            return changes;
+        } catch (error) {
+            console.error('Error adding purchased items to pantry:', error);
+            throw toPantryError(error, 'Failed to add purchased items to pantry');
+        }
+    }
+
+    // ====== MEAL PLAN METHODS ======
+
+    /**
+     * Combined ingredient needs for every meal planned in the range,
+     * netted against current pantry stock
+     */
+    async getMealPlanNeeds(range: MealPlanRange): Promise<MealPlanNeeds> {
+        const [entries, recipes, pantryItems, shoppingList] = await Promise.all([
+            this.getMealPlan(range.startDate, range.endDate),
+            this.getRecipesWithIngredients(),
+            this.getPantryItems(),
+            this.getShoppingList()
+        ]);
+
+        return calculateMealPlanNeeds(entries, recipes, pantryItems, shoppingList, range);
+    }
+
+    /**
+     * Add only what the pantry and the open shopping list are short of for
+     * the planned meals to the shopping list, so running it again adds nothing
+     */
+    async addMealPlanShortfallToShoppingList(range: MealPlanRange): Promise<MealPlanShoppingResult> {
+        try {
+            const needs = await this.getMealPlanNeeds(range);
+            const pantryItems = await this.getPantryItems();
+            const added: ShoppingListItem[] = [];
+
+            for (const ingredient of needs.ingredients) {
+                if (ingredient.shortfall <= 0) continue;
+
+                const pantryItem = findPantryItem(ingredient, pantryItems);
+
+                added.push(await this.addToShoppingList({
+                    name: ingredient.name,
+                    quantity: ingredient.shortfall,
+                    unit: ingredient.unit,
+                    category: pantryItem?.category || 'Other',
+                    priority: 'Medium',
+                    isPurchased: false,
+                    isAutoAdded: true,
+                    notes: `For ${ingredient.recipes.join(', ')}`
+                }));
+            }
+
+            return { needs, added };
+        } catch (error) {
+            console.error('Error adding meal plan shortfall to shopping list:', error);
+            throw toPantryError(error, 'Failed to add meal plan shortfall to shopping list');
+        }
+    }
+}
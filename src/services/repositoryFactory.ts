@@ -0,0 +1,119 @@
+// src/services/repositoryFactory.ts
+import type { Env } from "../index";
+import { getDummyIngredientsForRecipe, getDummyPantryItems, getDummyRecipes, getDummyShoppingList } from "./dummyData";
+import { NotionDatabaseSetup } from "./databaseSetup";
+import { getHouseholdPantry } from "./householdPantry";
+import { HouseholdPantryRepository } from "./householdPantryRepository";
+import { InMemoryPantryRepository } from "./inMemoryPantryRepository";
+import { NotionPantryService } from "./notionPantryService";
+import type { BasePantryRepository, PantryRepository } from "./pantryRepository";
+import { SetupDiagnostics } from "./setupDiagnostics";
+import { resolveNotionPropertyMap, type NotionCredentials, type PantryChangeListener, type PantryEventNotifier } from "../types";
+import { DEFAULT_HOUSEHOLD_ID, resolveNotionCredentials } from "./householdRegistry";
+
+export type PantryBackend = 'notion' | 'memory' | 'durable-object';
+
+const PANTRY_BACKENDS: PantryBackend[] = ['notion', 'memory', 'durable-object'];
+
+/**
+ * Resolve the PANTRY_BACKEND setting, defaulting to Notion
+ */
+export function resolvePantryBackend(value: string | undefined): PantryBackend {
+    if (!value) return 'notion';
+
+    const backend = value.toLowerCase().trim() as PantryBackend;
+    if (!PANTRY_BACKENDS.includes(backend)) {
+        throw new Error(`Unknown PANTRY_BACKEND "${value}". Expected one of: ${PANTRY_BACKENDS.join(', ')}`);
+    }
+
+    return backend;
+}
+
+export interface PantryRepositoryOptions {
+    /**
+     * Where to send pantry events
+     */
+    notifier?: PantryEventNotifier;
+
+    /**
+     * Told about every write, e.g. to refresh subscribed resources
+     */
+    changeListener?: PantryChangeListener;
+
+    /**
+     * Notion workspace for the Notion backend, defaulting to the NOTION_* variables
+     */
+    notion?: NotionCredentials;
+
+    /**
+     * Household whose pantry object the durable-object backend uses, defaulting to the default household
+     */
+    householdId?: string;
+}
+
+/**
+ * Build the repository selected by the environment
+ */
+export function createPantryRepository(env: Env, options: PantryRepositoryOptions = {}): PantryRepository {
+    const repository = createBackend(
+        env,
+        options.notion ?? resolveNotionCredentials(env),
+        options.householdId ?? DEFAULT_HOUSEHOLD_ID
+    );
+
+    if (options.notifier) {
+        repository.setEventNotifier(options.notifier);
+    }
+
+    if (options.changeListener) {
+        repository.setChangeListener(options.changeListener);
+    }
+
+    return repository;
+}
+
+/**
+ * Build the setup checks for a household's Notion workspace
+ */
+export function createSetupDiagnostics(env: Env, notion: NotionCredentials): SetupDiagnostics {
+    return new SetupDiagnostics(resolvePantryBackend(env.PANTRY_BACKEND), notion, env.NOTION_API_BASE_URL);
+}
+
+/**
+ * Build the database setup for a household's Notion workspace, or null
+ * when the backend doesn't use Notion
+ */
+export function createDatabaseSetup(env: Env, notion: NotionCredentials): NotionDatabaseSetup | null {
+    return resolvePantryBackend(env.PANTRY_BACKEND) === 'notion'
+        ? new NotionDatabaseSetup(notion, env.NOTION_API_BASE_URL)
+        : null;
+}
+
+function createBackend(env: Env, notion: NotionCredentials, householdId: string): BasePantryRepository {
+    const backend = resolvePantryBackend(env.PANTRY_BACKEND);
+
+    switch (backend) {
+        case 'memory':
+            // Seeded with sample data so the server is usable straight away
+            return new InMemoryPantryRepository({
+                pantryItems: getDummyPantryItems(),
+                recipes: getDummyRecipes(),
+                ingredients: getDummyRecipes().flatMap(recipe => getDummyIngredientsForRecipe(recipe.id)),
+                shoppingList: getDummyShoppingList()
+            });
+        case 'durable-object':
+            // One object per household, shared by all of its sessions
+            return new HouseholdPantryRepository(getHouseholdPantry(env, householdId));
+        case 'notion':
+            return new NotionPantryService(
+                notion.token,
+                notion.pantryDb,
+                notion.recipesDb,
+                notion.shoppingListDb,
+                env.NOTION_API_BASE_URL,
+                notion.recipeIngredientsDb,
+                notion.mealPlanDb,
+                resolveNotionPropertyMap(notion.propertyMap)
+            );
+    }
+}
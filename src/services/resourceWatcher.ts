@@ -0,0 +1,145 @@
+// src/services/resourceWatcher.ts
+import type { PantryChangeListener, PantryCollection } from "../types";
+import type { PantryRepository } from "./pantryRepository";
+
+// How often the backing store is checked for edits made outside the server
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Resources that read each collection. These are URI prefixes, so every
+// pantry-item://{itemId} matches "pantry-item://" and the recipe
+// suggestions and tags match "mcp://resource/recipes".
+const AFFECTED_RESOURCES: Record<PantryCollection, string[]> = {
+    pantry: [
+        "mcp://resource/pantry",
+        "pantry-page://",
+        "pantry-item://",
+        "pantry-category://",
+        "mcp://resource/recipes/suggestions",
+        "recipe://",
+        "mcp://resource/meal-plan"
+    ],
+    recipes: [
+        "mcp://resource/recipes",
+        "recipes-page://",
+        "recipe://",
+        "recipes-by-tag://",
+        "mcp://resource/meal-plan"
+    ],
+    shoppingList: ["mcp://resource/shopping-list"],
+    mealPlan: ["mcp://resource/meal-plan"]
+};
+
+/**
+ * Tracks the resources a client has subscribed to and tells it when
+ * they change: straight away for writes made through the repository,
+ * and by polling for edits made elsewhere (such as directly in Notion).
+ *
+ * Polling only runs while something is subscribed. Its timer also keeps
+ * the Durable Object from hibernating, so subscriptions held in memory
+ * last as long as they're needed.
+ */
+export class ResourceWatcher implements PantryChangeListener {
+    private subscriptions = new Set<string>();
+    private repository?: PantryRepository;
+    private timer?: ReturnType<typeof setInterval>;
+
+    // Last marker seen for each collection
+    private markers: Partial<Record<PantryCollection, string>> = {};
+
+    // Collections written through the repository since the last poll,
+    // whose new markers have already been reported
+    private reported = new Set<PantryCollection>();
+
+    constructor(
+        private sendUpdated: (uri: string) => Promise<void>,
+        private pollIntervalMs: number = POLL_INTERVAL_MS
+    ) { }
+
+    /**
+     * Poll this repository for edits made outside the server
+     */
+    watchRepository(repository: PantryRepository): void {
+        this.repository = repository;
+    }
+
+    subscribe(uri: string): void {
+        this.subscriptions.add(uri);
+
+        if (!this.timer) {
+            this.startPolling();
+        }
+    }
+
+    unsubscribe(uri: string): void {
+        this.subscriptions.delete(uri);
+
+        if (this.subscriptions.size === 0) {
+            this.stopPolling();
+        }
+    }
+
+    /**
+     * A write went through the repository
+     */
+    changed(collection: PantryCollection): void {
+        this.reported.add(collection);
+        this.notify(collection);
+    }
+
+    // ====== POLLING ======
+
+    private startPolling(): void {
+        this.markers = {};
+        this.reported.clear();
+
+        // The first poll only records where each collection stands
+        this.poll();
+        this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    }
+
+    private stopPolling(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private async poll(): Promise<void> {
+        if (!this.repository) return;
+
+        try {
+            const markers = await this.repository.getChangeMarkers();
+
+            // Everything goes through the repository, so there's nothing to poll
+            if (!markers) {
+                this.stopPolling();
+                return;
+            }
+
+            for (const [collection, marker] of Object.entries(markers) as [PantryCollection, string][]) {
+                const previous = this.markers[collection];
+                this.markers[collection] = marker;
+
+                if (previous !== undefined && previous !== marker && !this.reported.has(collection)) {
+                    this.notify(collection);
+                }
+            }
+
+            this.reported.clear();
+        } catch (error) {
+            console.error("Error polling for resource changes:", error);
+        }
+    }
+
+    // ====== HELPER METHODS ======
+
+    private notify(collection: PantryCollection): void {
+        const prefixes = AFFECTED_RESOURCES[collection];
+
+        for (const uri of this.subscriptions) {
+            if (prefixes.some(prefix => uri.startsWith(prefix))) {
+                this.sendUpdated(uri).catch(error => {
+                    console.error(`Error sending resource update for ${uri}:`, error);
+                });
+            }
+        }
+    }
+}
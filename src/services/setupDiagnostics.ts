@@ -0,0 +1,295 @@
+// src/services/setupDiagnostics.ts
+import { APIErrorCode, Client, isNotionClientError } from "@notionhq/client";
+import {
+    getExpectedProperties,
+    MAPPABLE_PROPERTY_TYPES,
+    NOTION_DATABASE_SETTINGS,
+    NOTION_DATABASE_TITLES,
+    resolveNotionPropertyMap,
+    type ExpectedNotionProperty,
+    type NotionCredentials,
+    type NotionDatabaseName,
+    type NotionPropertyMap,
+    type NotionPropertyType
+} from "../types";
+import type { PantryBackend } from "./repositoryFactory";
+
+export type SetupIssueSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Something wrong with a database, and what to do about it
+ */
+export interface SetupIssue {
+    severity: SetupIssueSeverity;
+    database: NotionDatabaseName;
+    property?: string;
+    problem: string;
+    fix: string;
+}
+
+/**
+ * What was found in one database
+ */
+export interface DatabaseCheck {
+    database: NotionDatabaseName;
+    databaseId: string;
+    title?: string;
+    accessible: boolean;
+    issues: SetupIssue[];
+}
+
+/**
+ * Result of checking the configured databases against the expected schemas
+ */
+export interface SetupReport {
+    checkedAt: string;
+    backend: PantryBackend;
+    /**
+     * unhealthy: at least one error; degraded: warnings only
+     */
+    status: 'healthy' | 'degraded' | 'unhealthy';
+    summary: Record<SetupIssueSeverity, number>;
+    databases: DatabaseCheck[];
+    note?: string;
+}
+
+const SELECT_TYPES: NotionPropertyType[] = ['select', 'multi_select'];
+
+/**
+ * Checks that the configured Notion databases are shared with the
+ * integration and still match what the mappers expect, so renamed
+ * columns don't silently turn into empty values
+ */
+export class SetupDiagnostics {
+    private propertyMap: NotionPropertyMap;
+
+    constructor(
+        private backend: PantryBackend,
+        private notion: NotionCredentials,
+        private notionBaseUrl?: string
+    ) {
+        this.propertyMap = resolveNotionPropertyMap(notion.propertyMap);
+    }
+
+    async diagnose(): Promise<SetupReport> {
+        if (this.backend !== 'notion') {
+            return this.buildReport([], `The ${this.backend} backend manages its own storage, so there are no Notion databases to check`);
+        }
+
+        const client = new Client({
+            auth: this.notion.token,
+            baseUrl: this.notionBaseUrl,
+            fetch: (...args) => fetch(...args)
+        });
+
+        const checks: DatabaseCheck[] = [];
+        for (const [database, setting] of Object.entries(NOTION_DATABASE_SETTINGS) as [NotionDatabaseName, { credential: keyof NotionCredentials }][]) {
+            const databaseId = this.notion[setting.credential] as string | undefined;
+            if (databaseId) {
+                checks.push(await this.checkDatabase(client, database, databaseId));
+            }
+        }
+
+        return this.buildReport(checks);
+    }
+
+    // ====== CHECKS ======
+
+    private async checkDatabase(client: Client, database: NotionDatabaseName, databaseId: string): Promise<DatabaseCheck> {
+        let response: any;
+        try {
+            response = await client.databases.retrieve({ database_id: databaseId });
+            // Reading the schema and reading rows need the same capability,
+            // but a query also proves the rows themselves are shared
+            await client.databases.query({ database_id: databaseId, page_size: 1 });
+        } catch (error) {
+            return {
+                database,
+                databaseId,
+                accessible: false,
+                issues: [this.describeAccessError(database, error)]
+            };
+        }
+
+        const actual: Record<string, any> = response.properties ?? {};
+        const issues: SetupIssue[] = [];
+        const expected = getExpectedProperties(database, this.propertyMap);
+        const claimed = new Set(expected.map(property => property.name));
+
+        for (const property of expected) {
+            const found = actual[property.name];
+
+            if (!found) {
+                issues.push(this.describeMissingProperty(database, property, actual, claimed));
+            } else if (found.type !== property.type) {
+                issues.push(this.describeWrongType(database, property, found.type));
+            } else if (property.options && SELECT_TYPES.includes(property.type)) {
+                issues.push(...this.checkOptions(database, property, found[found.type]?.options ?? []));
+            }
+        }
+
+        return {
+            database,
+            databaseId,
+            title: response.title?.map((rt: any) => rt.plain_text).join('') || undefined,
+            accessible: true,
+            issues
+        };
+    }
+
+    private checkOptions(database: NotionDatabaseName, property: ExpectedNotionProperty, actualOptions: { name: string }[]): SetupIssue[] {
+        const actual = actualOptions.map(option => option.name);
+        const missing = property.options!.filter(option => !actual.includes(option));
+        const unknown = actual.filter(option => !property.options!.includes(option));
+        const issues: SetupIssue[] = [];
+
+        if (missing.length > 0) {
+            issues.push({
+                severity: 'warning',
+                database,
+                property: property.name,
+                problem: `"${property.name}" is missing the option(s) ${quoteList(missing)}`,
+                fix: `Add them back in Notion. Values the server writes with a missing option create a new, uncoloured option instead.`
+            });
+        }
+
+        if (unknown.length > 0) {
+            issues.push({
+                severity: 'info',
+                database,
+                property: property.name,
+                problem: `"${property.name}" has options the server doesn't know about: ${quoteList(unknown)}`,
+                fix: `Rename them to one of ${quoteList(property.options!)} if they're typos; otherwise they're kept as they are.`
+            });
+        }
+
+        return issues;
+    }
+
+    // ====== ISSUE DESCRIPTIONS ======
+
+    private describeAccessError(database: NotionDatabaseName, error: unknown): SetupIssue {
+        const variable = NOTION_DATABASE_SETTINGS[database].variable;
+        const issue = { severity: 'error' as const, database };
+
+        if (isNotionClientError(error)) {
+            switch (error.code) {
+                case APIErrorCode.Unauthorized:
+                    return {
+                        ...issue,
+                        problem: "Notion rejected the integration token",
+                        fix: "Copy the integration's secret from https://www.notion.so/my-integrations into NOTION_TOKEN (or the household's notion.token)."
+                    };
+                case APIErrorCode.ObjectNotFound:
+                    return {
+                        ...issue,
+                        problem: `The ${NOTION_DATABASE_TITLES[database]} database was not found or isn't shared with the integration`,
+                        fix: `Open the database in Notion, choose "Connections" in the ••• menu and add the integration, then check the ID in ${variable}.`
+                    };
+                case APIErrorCode.RestrictedResource:
+                    return {
+                        ...issue,
+                        problem: `The integration isn't allowed to read the ${NOTION_DATABASE_TITLES[database]} database`,
+                        fix: "Enable the Read content, Update content and Insert content capabilities for the integration."
+                    };
+                case APIErrorCode.ValidationError:
+                case APIErrorCode.InvalidRequestURL:
+                    return {
+                        ...issue,
+                        problem: `${variable} is not a valid database ID`,
+                        fix: `Set ${variable} to the 32-character ID from the database's URL (the part before "?v=").`
+                    };
+            }
+        }
+
+        return {
+            ...issue,
+            problem: `Couldn't reach the ${NOTION_DATABASE_TITLES[database]} database: ${error instanceof Error ? error.message : String(error)}`,
+            fix: "Check that Notion is reachable and try again."
+        };
+    }
+
+    private describeMissingProperty(
+        database: NotionDatabaseName,
+        property: ExpectedNotionProperty,
+        actual: Record<string, any>,
+        claimed: Set<string>
+    ): SetupIssue {
+        if (!property.field) {
+            return {
+                severity: 'info',
+                database,
+                property: property.name,
+                problem: `Optional property "${property.name}" (${property.type}) is not in the database`,
+                fix: `The server doesn't read it, so this only matters if you want to track it in Notion.`
+            };
+        }
+
+        // A column of the right type that nothing else uses is probably the renamed one
+        const candidates = Object.entries(actual)
+            .filter(([name, found]) => found.type === property.type && !claimed.has(name))
+            .map(([name]) => name);
+        const renamed = candidates.find(name => name.toLowerCase() === property.name.toLowerCase())
+            ?? (candidates.length === 1 ? candidates[0] : undefined);
+
+        return {
+            severity: property.required ? 'error' : 'warning',
+            database,
+            property: property.name,
+            problem: `Property "${property.name}" (${property.type}) is missing, so every ${property.field} will read as empty`,
+            fix: renamed
+                ? `It looks like it was renamed to "${renamed}". Rename it back, or map it with ${this.describeOverride(database, property.field, JSON.stringify(renamed))}.`
+                : `Add a ${property.type} property named "${property.name}", or map an existing property with ${this.describeOverride(database, property.field, '"<property name>"')}.`
+        };
+    }
+
+    private describeWrongType(database: NotionDatabaseName, property: ExpectedNotionProperty, actualType: NotionPropertyType): SetupIssue {
+        if (!property.field) {
+            return {
+                severity: 'info',
+                database,
+                property: property.name,
+                problem: `Optional property "${property.name}" is ${actualType} instead of ${property.type}`,
+                fix: `The server doesn't read it, so this only matters if other tools expect ${property.type}.`
+            };
+        }
+
+        const canMap = MAPPABLE_PROPERTY_TYPES.includes(actualType);
+
+        return {
+            severity: 'error',
+            database,
+            property: property.name,
+            problem: `Property "${property.name}" is ${actualType} but ${property.type} is expected, so ${property.field} may read wrongly and writes will be rejected`,
+            fix: canMap
+                ? `Change its type to ${property.type} in Notion, or map it as ${actualType} with ${this.describeOverride(database, property.field, JSON.stringify({ name: property.name, type: actualType }))}.`
+                : `Change its type to ${property.type} in Notion; ${actualType} properties can't be mapped.`
+        };
+    }
+
+    private describeOverride(database: NotionDatabaseName, field: string, value: string): string {
+        return `NOTION_PROPERTY_MAP {"${database}": {"${field}": ${value}}}`;
+    }
+
+    private buildReport(databases: DatabaseCheck[], note?: string): SetupReport {
+        const issues = databases.flatMap(check => check.issues);
+        const summary = {
+            error: issues.filter(issue => issue.severity === 'error').length,
+            warning: issues.filter(issue => issue.severity === 'warning').length,
+            info: issues.filter(issue => issue.severity === 'info').length
+        };
+
+        return {
+            checkedAt: new Date().toISOString(),
+            backend: this.backend,
+            status: summary.error > 0 ? 'unhealthy' : summary.warning > 0 ? 'degraded' : 'healthy',
+            summary,
+            databases,
+            note
+        };
+    }
+}
+
+function quoteList(values: string[]): string {
+    return values.map(value => `"${value}"`).join(', ');
+}
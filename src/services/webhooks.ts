@@ -0,0 +1,232 @@
+// src/services/webhooks.ts
+import {
+    PANTRY_EVENT_TYPES,
+    type PantryEvent,
+    type PantryEventData,
+    type PantryEventNotifier,
+    type PantryEventType,
+    type WebhookConfig
+} from "../types";
+import type { HouseholdPantry } from "./householdPantry";
+
+// Attempts per delivery before it is logged as failed
+const MAX_DELIVERY_ATTEMPTS = 3;
+
+// Wait before the first retry; doubles on each retry after that
+const RETRY_BASE_DELAY_MS = 500;
+
+// Give up on an attempt that takes longer than this
+const DELIVERY_TIMEOUT_MS = 5000;
+
+// Deliveries kept in the log
+const MAX_LOGGED_DELIVERIES = 50;
+
+// Storage key holding the delivery log
+const DELIVERY_LOG_STORAGE_KEY = "webhooks:deliveries";
+
+/**
+ * One attempt to post an event to a webhook
+ */
+export interface WebhookAttempt {
+    attemptedAt: string;
+    status?: number;
+    error?: string;
+}
+
+/**
+ * The outcome of sending one event to one webhook
+ */
+export interface WebhookDelivery {
+    eventId: string;
+    event: PantryEventType;
+    url: string;
+    status: 'delivered' | 'failed';
+    attempts: WebhookAttempt[];
+}
+
+/**
+ * Read the WEBHOOKS setting, the default household's webhooks: a JSON
+ * array of {url, secret, events}
+ */
+export function resolveWebhooks(value: string | undefined): WebhookConfig[] {
+    if (!value) return [];
+
+    let webhooks: Partial<WebhookConfig>[];
+    try {
+        webhooks = JSON.parse(value);
+    } catch {
+        throw new Error("WEBHOOKS must be a JSON array of {url, secret, events}");
+    }
+
+    if (!Array.isArray(webhooks)) {
+        throw new Error("WEBHOOKS must be a JSON array of {url, secret, events}");
+    }
+
+    return webhooks.map((webhook, index) => {
+        if (!webhook.url || !URL.canParse(webhook.url)) {
+            throw new Error(`Webhook ${index} in WEBHOOKS needs a valid url`);
+        }
+        if (!webhook.secret) {
+            throw new Error(`Webhook ${index} in WEBHOOKS needs a secret`);
+        }
+
+        const events = webhook.events ?? [];
+        const unknown = events.filter(event => !PANTRY_EVENT_TYPES.includes(event));
+        if (events.length === 0 || unknown.length > 0) {
+            throw new Error(`Webhook ${index} in WEBHOOKS needs events from: ${PANTRY_EVENT_TYPES.join(', ')}`);
+        }
+
+        return { url: webhook.url, secret: webhook.secret, events };
+    });
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`, sent in the X-Pantry-Signature header
+ */
+export async function signWebhookPayload(secret: string, timestamp: string, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+    );
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+
+    return [...new Uint8Array(signature)]
+        .map(byte => byte.toString(16).padStart(2, "0"))
+        .join("");
+}
+
+/**
+ * Posts a household's pantry events to its webhooks, retrying failed
+ * attempts and keeping a log of recent deliveries in Durable Object
+ * storage. Deliveries carry on in the background after notify() returns,
+ * so a slow receiver doesn't hold up the change that raised the event.
+ * Delivery problems are logged, never thrown back to the caller.
+ */
+export class WebhookDispatcher implements PantryEventNotifier {
+    constructor(
+        private webhooks: WebhookConfig[],
+        private householdId: string,
+        private ctx: DurableObjectState
+    ) { }
+
+    handles(type: PantryEventType): boolean {
+        return this.webhooks.some(webhook => webhook.events.includes(type));
+    }
+
+    async notify<T extends PantryEventType>(type: T, data: PantryEventData[T]): Promise<void> {
+        const subscribers = this.webhooks.filter(webhook => webhook.events.includes(type));
+        if (subscribers.length === 0) return;
+
+        const event: PantryEvent<T> = {
+            id: crypto.randomUUID(),
+            type,
+            householdId: this.householdId,
+            occurredAt: new Date().toISOString(),
+            data
+        };
+
+        this.ctx.waitUntil(this.send(subscribers, event));
+    }
+
+    /**
+     * Most recent deliveries first
+     */
+    async getDeliveryLog(): Promise<WebhookDelivery[]> {
+        return await this.ctx.storage.get<WebhookDelivery[]>(DELIVERY_LOG_STORAGE_KEY) ?? [];
+    }
+
+    /**
+     * Configured webhooks without their secrets
+     */
+    getWebhooks(): Omit<WebhookConfig, 'secret'>[] {
+        return this.webhooks.map(({ url, events }) => ({ url, events }));
+    }
+
+    // ====== HELPER METHODS ======
+
+    private async send(subscribers: WebhookConfig[], event: PantryEvent): Promise<void> {
+        try {
+            const deliveries = await Promise.all(subscribers.map(webhook => this.deliver(webhook, event)));
+            await this.recordDeliveries(deliveries);
+        } catch (error) {
+            console.error(`Error sending ${event.type} webhooks:`, error);
+        }
+    }
+
+    private async deliver(webhook: WebhookConfig, event: PantryEvent): Promise<WebhookDelivery> {
+        const body = JSON.stringify(event);
+        const attempts: WebhookAttempt[] = [];
+
+        for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+            if (attempt > 1) {
+                await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 2)));
+            }
+
+            const attemptedAt = new Date().toISOString();
+            const timestamp = String(Math.floor(Date.now() / 1000));
+
+            try {
+                const response = await fetch(webhook.url, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        "X-Pantry-Event": event.type,
+                        "X-Pantry-Delivery": event.id,
+                        "X-Pantry-Timestamp": timestamp,
+                        "X-Pantry-Signature": `sha256=${await signWebhookPayload(webhook.secret, timestamp, body)}`
+                    },
+                    body,
+                    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+                });
+
+                attempts.push({ attemptedAt, status: response.status });
+
+                if (response.ok) {
+                    return { eventId: event.id, event: event.type, url: webhook.url, status: 'delivered', attempts };
+                }
+
+                // Client errors won't fix themselves, apart from rate limiting
+                if (response.status < 500 && response.status !== 429) break;
+            } catch (error) {
+                attempts.push({ attemptedAt, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        console.error(`Webhook delivery of ${event.type} to ${webhook.url} failed after ${attempts.length} attempt(s)`);
+        return { eventId: event.id, event: event.type, url: webhook.url, status: 'failed', attempts };
+    }
+
+    private async recordDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+        const log = await this.getDeliveryLog();
+        await this.ctx.storage.put(DELIVERY_LOG_STORAGE_KEY, [...deliveries, ...log].slice(0, MAX_LOGGED_DELIVERIES));
+    }
+}
+
+/**
+ * A session's notifier: hands events to the household's HouseholdPantry
+ * object, which delivers them and keeps the household's delivery log
+ */
+export class HouseholdEventNotifier implements PantryEventNotifier {
+    constructor(
+        private webhooks: Omit<WebhookConfig, 'secret'>[],
+        private household: DurableObjectStub<HouseholdPantry>
+    ) { }
+
+    handles(type: PantryEventType): boolean {
+        return this.webhooks.some(webhook => webhook.events.includes(type));
+    }
+
+    async notify<T extends PantryEventType>(type: T, data: PantryEventData[T]): Promise<void> {
+        if (!this.handles(type)) return;
+
+        try {
+            await this.household.notify(type, data);
+        } catch (error) {
+            console.error(`Error sending ${type} webhooks:`, error);
+        }
+    }
+}
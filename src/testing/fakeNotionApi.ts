@@ -0,0 +1,738 @@
+// src/testing/fakeNotionApi.ts
+import {
+    MEAL_PLAN_DATABASE_SCHEMA,
+    PANTRY_DATABASE_SCHEMA,
+    RECIPE_INGREDIENTS_DATABASE_SCHEMA,
+    RECIPES_DATABASE_SCHEMA,
+    SHOPPING_LIST_DATABASE_SCHEMA
+} from "../types/notionSchema";
+import type { NotionPropertyType } from "../types/notion";
+import { formatIngredientLine } from "../types/recipeIngredients";
+import {
+    getDummyIngredientsForRecipe,
+    getDummyPantryItems,
+    getDummyRecipes,
+    getDummyShoppingList
+} from "../services/dummyData";
+
+// Minimal shape shared by every entry in the *_DATABASE_SCHEMA constants
+type SchemaDefinition = Record<string, { type: string; options?: string[] }>;
+
+// Fixed database IDs so a dev server can be pointed at the fake without lookups
+export const FAKE_PANTRY_DB_ID = "fa4e0000-0000-4000-8000-000000000001";
+export const FAKE_RECIPES_DB_ID = "fa4e0000-0000-4000-8000-000000000002";
+export const FAKE_SHOPPING_LIST_DB_ID = "fa4e0000-0000-4000-8000-000000000003";
+export const FAKE_RECIPE_INGREDIENTS_DB_ID = "fa4e0000-0000-4000-8000-000000000004";
+export const FAKE_MEAL_PLAN_DB_ID = "fa4e0000-0000-4000-8000-000000000005";
+
+/**
+ * Recipe properties the server actually reads, on top of the documented schema
+ */
+export const FAKE_RECIPES_SCHEMA: SchemaDefinition = {
+    ...RECIPES_DATABASE_SCHEMA,
+    'Tried?': { type: 'checkbox' },
+    'Kitchen Tools': { type: 'relation' },
+    'Link': { type: 'url' },
+    'Created On': { type: 'created_time' }
+};
+
+interface FakeDatabase {
+    id: string;
+    title: string;
+    schema: SchemaDefinition;
+    createdTime: string;
+    parentPageId?: string;
+}
+
+interface FakePage {
+    id: string;
+    databaseId: string;
+    createdTime: string;
+    lastEditedTime: string;
+    archived: boolean;
+    properties: Record<string, any>;
+}
+
+/**
+ * Error matching the body Notion returns for failed requests
+ */
+class FakeNotionError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * In-process stand-in for the subset of the Notion REST API used by
+ * @notionhq/client in this project: database queries (filters, sorts,
+ * cursors), database create/retrieve/update, listing a page's child
+ * databases, and page create/retrieve/update/archive.
+ *
+ * The handler speaks plain Request/Response so it can run inside a Worker
+ * or be passed straight to the Notion client as its `fetch` implementation.
+ */
+export class FakeNotionApi {
+    private databases = new Map<string, FakeDatabase>();
+    private pages = new Map<string, FakePage>();
+
+    constructor(private options: { token?: string } = {}) { }
+
+    /**
+     * Create the pantry, recipes, recipe ingredients and shopping list databases
+     * with sample rows, plus an empty Meal Plan database. Recipe ingredients
+     * are seeded both as the recipe's "Ingredients" text and as rows in the
+     * Recipe Ingredients database.
+     */
+    static withSampleData(options: { token?: string } = {}): FakeNotionApi {
+        const api = new FakeNotionApi(options);
+
+        api.createDatabase(FAKE_PANTRY_DB_ID, "Pantry", PANTRY_DATABASE_SCHEMA);
+        api.createDatabase(FAKE_RECIPES_DB_ID, "Recipes", FAKE_RECIPES_SCHEMA);
+        api.createDatabase(FAKE_SHOPPING_LIST_DB_ID, "Shopping List", SHOPPING_LIST_DATABASE_SCHEMA);
+        api.createDatabase(FAKE_RECIPE_INGREDIENTS_DB_ID, "Recipe Ingredients", RECIPE_INGREDIENTS_DATABASE_SCHEMA);
+        api.createDatabase(FAKE_MEAL_PLAN_DB_ID, "Meal Plan", MEAL_PLAN_DATABASE_SCHEMA);
+
+        for (const item of getDummyPantryItems()) {
+            api.seedPage(FAKE_PANTRY_DB_ID, {
+                Name: item.name,
+                Quantity: item.quantity,
+                Unit: item.unit,
+                Category: item.category,
+                Location: item.location,
+                Expiry: item.expiryDate ?? null,
+                Notes: item.notes ?? '',
+                Staple: item.isStaple,
+                Tags: item.tags ?? [],
+                MinQuantity: item.minQuantity ?? null
+            });
+        }
+
+        for (const recipe of getDummyRecipes()) {
+            const ingredients = getDummyIngredientsForRecipe(recipe.id);
+
+            const recipePageId = api.seedPage(FAKE_RECIPES_DB_ID, {
+                Name: recipe.name,
+                'Tried?': recipe.tried,
+                Link: recipe.link,
+                Tags: recipe.tags,
+                Servings: recipe.servings ?? null,
+                Ingredients: ingredients.map(ingredient => formatIngredientLine(ingredient)).join('\n')
+            });
+
+            for (const ingredient of ingredients) {
+                api.seedPage(FAKE_RECIPE_INGREDIENTS_DB_ID, {
+                    Name: ingredient.name,
+                    Recipe: [recipePageId],
+                    Quantity: ingredient.quantity,
+                    Unit: ingredient.unit,
+                    Preparation: ingredient.preparation ?? '',
+                    Optional: ingredient.isOptional ?? false
+                });
+            }
+        }
+
+        for (const item of getDummyShoppingList()) {
+            api.seedPage(FAKE_SHOPPING_LIST_DB_ID, {
+                Name: item.name,
+                Quantity: item.quantity,
+                Unit: item.unit,
+                Category: item.category,
+                Priority: item.priority,
+                Purchased: item.isPurchased,
+                AutoAdded: item.isAutoAdded,
+                Notes: item.notes ?? ''
+            });
+        }
+
+        return api;
+    }
+
+    /**
+     * Register an empty database with the given schema
+     */
+    createDatabase(id: string, title: string, schema: SchemaDefinition): void {
+        this.databases.set(id, { id, title, schema, createdTime: new Date().toISOString() });
+    }
+
+    /**
+     * Insert a row using plain values (strings, numbers, booleans, string arrays)
+     */
+    seedPage(databaseId: string, values: Record<string, unknown>): string {
+        const database = this.requireDatabase(databaseId);
+        const properties: Record<string, any> = {};
+
+        for (const [name, value] of Object.entries(values)) {
+            const definition = database.schema[name];
+            if (!definition) {
+                throw new Error(`Property ${name} is not defined on database ${database.title}`);
+            }
+            properties[name] = this.plainValueToInput(definition.type as NotionPropertyType, value);
+        }
+
+        return this.insertPage(database, properties).id;
+    }
+
+    /**
+     * Handle a single Notion API request
+     */
+    async fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+        const request = new Request(input, init);
+
+        try {
+            this.authorize(request);
+
+            const url = new URL(request.url);
+            const segments = url.pathname.replace(/^\/v1\//, '').split('/').filter(Boolean);
+            const body = request.method === 'GET' ? {} : await request.json().catch(() => ({})) as any;
+
+            // POST /v1/databases/{id}/query
+            if (segments[0] === 'databases' && segments[2] === 'query' && request.method === 'POST') {
+                return this.json(this.queryDatabase(segments[1], body));
+            }
+
+            // GET /v1/databases/{id}
+            if (segments[0] === 'databases' && segments.length === 2 && request.method === 'GET') {
+                return this.json(this.databaseToResponse(this.requireDatabase(segments[1])));
+            }
+
+            // POST /v1/databases
+            if (segments[0] === 'databases' && segments.length === 1 && request.method === 'POST') {
+                return this.json(this.createDatabaseFromRequest(body));
+            }
+
+            // PATCH /v1/databases/{id}
+            if (segments[0] === 'databases' && segments.length === 2 && request.method === 'PATCH') {
+                return this.json(this.updateDatabase(segments[1], body));
+            }
+
+            // GET /v1/blocks/{id}/children (child databases only)
+            if (segments[0] === 'blocks' && segments[2] === 'children' && request.method === 'GET') {
+                return this.json(this.listChildDatabases(segments[1]));
+            }
+
+            // POST /v1/pages
+            if (segments[0] === 'pages' && segments.length === 1 && request.method === 'POST') {
+                return this.json(this.createPage(body));
+            }
+
+            // GET /v1/pages/{id}
+            if (segments[0] === 'pages' && segments.length === 2 && request.method === 'GET') {
+                return this.json(this.pageToResponse(this.requirePage(segments[1])));
+            }
+
+            // PATCH /v1/pages/{id}
+            if (segments[0] === 'pages' && segments.length === 2 && request.method === 'PATCH') {
+                return this.json(this.updatePage(segments[1], body));
+            }
+
+            throw new FakeNotionError(400, 'invalid_request_url', `Invalid request URL: ${request.method} ${url.pathname}`);
+        } catch (error) {
+            if (error instanceof FakeNotionError) {
+                return this.json({
+                    object: 'error',
+                    status: error.status,
+                    code: error.code,
+                    message: error.message
+                }, error.status);
+            }
+
+            console.error('Fake Notion API error:', error);
+            return this.json({
+                object: 'error',
+                status: 500,
+                code: 'internal_server_error',
+                message: error instanceof Error ? error.message : String(error)
+            }, 500);
+        }
+    }
+
+    // ====== REQUEST HANDLERS ======
+
+    private queryDatabase(databaseId: string, body: any) {
+        const database = this.requireDatabase(databaseId);
+
+        let rows = [...this.pages.values()]
+            .filter(page => page.databaseId === database.id && !page.archived)
+            .map(page => this.pageToResponse(page));
+
+        if (body.filter) {
+            rows = rows.filter(row => this.matchesFilter(row, body.filter));
+        }
+
+        if (Array.isArray(body.sorts) && body.sorts.length > 0) {
+            rows.sort((a, b) => this.compareRows(a, b, body.sorts));
+        } else {
+            // Notion defaults to newest first
+            rows.sort((a, b) => b.created_time.localeCompare(a.created_time));
+        }
+
+        const pageSize = Math.min(Math.max(Number(body.page_size) || 100, 1), 100);
+        let start = 0;
+        if (body.start_cursor) {
+            start = rows.findIndex(row => row.id === body.start_cursor);
+            if (start === -1) {
+                throw new FakeNotionError(400, 'validation_error', `start_cursor ${body.start_cursor} is not valid`);
+            }
+        }
+
+        const results = rows.slice(start, start + pageSize);
+        const next = rows[start + pageSize];
+
+        return {
+            object: 'list',
+            results,
+            next_cursor: next ? next.id : null,
+            has_more: Boolean(next),
+            type: 'page_or_database',
+            page_or_database: {}
+        };
+    }
+
+    private createDatabaseFromRequest(body: any) {
+        const parentPageId = body?.parent?.page_id;
+        if (!parentPageId) {
+            throw new FakeNotionError(400, 'validation_error', 'body.parent.page_id should be defined');
+        }
+
+        const schema = this.propertiesToSchema(body.properties ?? {});
+        if (Object.values(schema).filter(definition => definition.type === 'title').length !== 1) {
+            throw new FakeNotionError(400, 'validation_error', 'A database must have exactly one title property.');
+        }
+
+        const id = crypto.randomUUID();
+        const title = (body.title ?? []).map((part: any) => part?.text?.content ?? '').join('');
+        this.databases.set(id, {
+            id,
+            title,
+            schema,
+            createdTime: new Date().toISOString(),
+            parentPageId: this.normalizeId(parentPageId)
+        });
+
+        return this.databaseToResponse(this.requireDatabase(id));
+    }
+
+    private updateDatabase(databaseId: string, body: any) {
+        const database = this.requireDatabase(databaseId);
+        const added = this.propertiesToSchema(body.properties ?? {});
+
+        if (Object.values(added).some(definition => definition.type === 'title')) {
+            throw new FakeNotionError(400, 'validation_error', 'A database must have exactly one title property.');
+        }
+
+        database.schema = { ...database.schema, ...added };
+        return this.databaseToResponse(database);
+    }
+
+    private listChildDatabases(pageId: string) {
+        const parentPageId = this.normalizeId(pageId);
+
+        return {
+            object: 'list',
+            results: [...this.databases.values()]
+                .filter(database => database.parentPageId === parentPageId)
+                .map(database => ({
+                    object: 'block',
+                    id: database.id,
+                    type: 'child_database',
+                    child_database: { title: database.title }
+                })),
+            next_cursor: null,
+            has_more: false,
+            type: 'block',
+            block: {}
+        };
+    }
+
+    private createPage(body: any) {
+        const databaseId = body?.parent?.database_id;
+        if (!databaseId) {
+            throw new FakeNotionError(400, 'validation_error', 'body.parent.database_id should be defined');
+        }
+
+        const database = this.requireDatabase(databaseId);
+        this.validateProperties(database, body.properties ?? {});
+
+        return this.pageToResponse(this.insertPage(database, body.properties ?? {}));
+    }
+
+    private updatePage(pageId: string, body: any) {
+        const page = this.requirePage(pageId);
+        const database = this.requireDatabase(page.databaseId);
+
+        if (page.archived && body.archived !== false) {
+            throw new FakeNotionError(400, 'validation_error', "Can't edit block that is archived. You must unarchive the block before editing.");
+        }
+
+        if (body.properties) {
+            this.validateProperties(database, body.properties);
+            page.properties = { ...page.properties, ...body.properties };
+        }
+
+        if (typeof body.archived === 'boolean') {
+            page.archived = body.archived;
+        }
+
+        page.lastEditedTime = this.nextTimestamp(page.lastEditedTime);
+        return this.pageToResponse(page);
+    }
+
+    // ====== STORAGE HELPERS ======
+
+    private insertPage(database: FakeDatabase, properties: Record<string, any>): FakePage {
+        const now = new Date().toISOString();
+        const page: FakePage = {
+            id: crypto.randomUUID(),
+            databaseId: database.id,
+            createdTime: now,
+            lastEditedTime: now,
+            archived: false,
+            properties: { ...properties }
+        };
+
+        this.pages.set(page.id, page);
+        return page;
+    }
+
+    /**
+     * Read the property configuration of a database create/update request
+     */
+    private propertiesToSchema(properties: Record<string, any>): SchemaDefinition {
+        const schema: SchemaDefinition = {};
+
+        for (const [name, config] of Object.entries(properties)) {
+            const type = Object.keys(config ?? {}).find(key => key !== 'name' && key !== 'description');
+            if (!type) {
+                throw new FakeNotionError(400, 'validation_error', `body.properties.${name} should define a property type.`);
+            }
+
+            schema[name] = {
+                type,
+                options: config[type]?.options?.map((option: any) => option.name)
+            };
+        }
+
+        return schema;
+    }
+
+    private requireDatabase(databaseId: string): FakeDatabase {
+        const database = this.databases.get(this.normalizeId(databaseId));
+        if (!database) {
+            throw new FakeNotionError(404, 'object_not_found', `Could not find database with ID: ${databaseId}.`);
+        }
+        return database;
+    }
+
+    private requirePage(pageId: string): FakePage {
+        const page = this.pages.get(this.normalizeId(pageId));
+        if (!page) {
+            throw new FakeNotionError(404, 'object_not_found', `Could not find page with ID: ${pageId}.`);
+        }
+        return page;
+    }
+
+    private validateProperties(database: FakeDatabase, properties: Record<string, any>): void {
+        for (const name of Object.keys(properties)) {
+            if (!database.schema[name]) {
+                throw new FakeNotionError(400, 'validation_error', `${name} is not a property that exists.`);
+            }
+        }
+    }
+
+    private authorize(request: Request): void {
+        const header = request.headers.get('authorization') ?? '';
+        const token = header.replace(/^Bearer\s+/i, '');
+
+        if (!token || (this.options.token && token !== this.options.token)) {
+            throw new FakeNotionError(401, 'unauthorized', 'API token is invalid.');
+        }
+    }
+
+    // Notion accepts dashed and undashed IDs interchangeably
+    private normalizeId(id: string): string {
+        const compact = id.replace(/-/g, '');
+        if (compact.length !== 32) return id;
+        return `${compact.slice(0, 8)}-${compact.slice(8, 12)}-${compact.slice(12, 16)}-${compact.slice(16, 20)}-${compact.slice(20)}`;
+    }
+
+    // Keep edit times strictly increasing so change polling sees every write
+    private nextTimestamp(previous: string): string {
+        const now = Date.now();
+        const last = new Date(previous).getTime();
+        return new Date(Math.max(now, last + 1)).toISOString();
+    }
+
+    private json(body: unknown, status: number = 200): Response {
+        return new Response(JSON.stringify(body), {
+            status,
+            headers: { 'content-type': 'application/json' }
+        });
+    }
+
+    // ====== SERIALIZATION ======
+
+    private databaseToResponse(database: FakeDatabase) {
+        const properties: Record<string, any> = {};
+
+        for (const [name, definition] of Object.entries(database.schema)) {
+            const config: any = {};
+            if (definition.options) {
+                config.options = definition.options.map(option => ({ id: option, name: option, color: 'default' }));
+            }
+
+            properties[name] = {
+                id: name,
+                name,
+                type: definition.type,
+                [definition.type]: config
+            };
+        }
+
+        return {
+            object: 'database',
+            id: database.id,
+            created_time: database.createdTime,
+            last_edited_time: database.createdTime,
+            title: [this.richText(database.title)],
+            properties,
+            archived: false,
+            url: `https://www.notion.so/${database.id.replace(/-/g, '')}`
+        };
+    }
+
+    private pageToResponse(page: FakePage) {
+        const database = this.requireDatabase(page.databaseId);
+        const properties: Record<string, any> = {};
+
+        for (const [name, definition] of Object.entries(database.schema)) {
+            properties[name] = {
+                id: name,
+                type: definition.type,
+                [definition.type]: this.inputToValue(definition.type as NotionPropertyType, page.properties[name], page, database)
+            };
+        }
+
+        return {
+            object: 'page',
+            id: page.id,
+            created_time: page.createdTime,
+            last_edited_time: page.lastEditedTime,
+            archived: page.archived,
+            in_trash: page.archived,
+            parent: {
+                type: 'database_id',
+                database_id: page.databaseId
+            },
+            properties,
+            url: `https://www.notion.so/${page.id.replace(/-/g, '')}`
+        };
+    }
+
+    /**
+     * Expand a request-style property value into the shape Notion returns
+     */
+    private inputToValue(type: NotionPropertyType, input: any, page: FakePage, database: FakeDatabase): any {
+        switch (type) {
+            case 'title':
+            case 'rich_text':
+                return (input?.[type] ?? []).map((part: any) => this.richText(part?.text?.content ?? part?.plain_text ?? ''));
+            case 'number':
+                return input?.number ?? null;
+            case 'checkbox':
+                return input?.checkbox ?? false;
+            case 'url':
+            case 'email':
+            case 'phone_number':
+                return input?.[type] ?? null;
+            case 'select':
+                return input?.select?.name ? { id: input.select.name, name: input.select.name, color: 'default' } : null;
+            case 'multi_select':
+                return (input?.multi_select ?? []).map((option: any) => ({ id: option.name, name: option.name, color: 'default' }));
+            case 'date':
+                return input?.date ? { start: input.date.start, end: input.date.end ?? null, time_zone: null } : null;
+            case 'relation':
+                return (input?.relation ?? []).map((rel: any) => ({ id: rel.id }));
+            case 'files':
+                return input?.files ?? [];
+            case 'people':
+                return input?.people ?? [];
+            case 'created_time':
+                return page.createdTime;
+            case 'last_edited_time':
+                return page.lastEditedTime;
+            case 'formula':
+                return this.evaluateFormula(page, database);
+            default:
+                return null;
+        }
+    }
+
+    // Only the TotalTime formula from the recipe schema is supported
+    private evaluateFormula(page: FakePage, database: FakeDatabase) {
+        if (database.schema.PrepTime && database.schema.CookTime) {
+            const prep = page.properties.PrepTime?.number ?? 0;
+            const cook = page.properties.CookTime?.number ?? 0;
+            return { type: 'number', number: prep + cook };
+        }
+        return { type: 'number', number: null };
+    }
+
+    /**
+     * Turn a plain seed value into the request format for the property type
+     */
+    private plainValueToInput(type: NotionPropertyType, value: unknown): any {
+        switch (type) {
+            case 'title':
+            case 'rich_text':
+                return { [type]: value ? [{ text: { content: String(value) } }] : [] };
+            case 'number':
+                return { number: value === null || value === undefined ? null : Number(value) };
+            case 'checkbox':
+                return { checkbox: Boolean(value) };
+            case 'select':
+                return { select: value ? { name: String(value) } : null };
+            case 'multi_select':
+                return { multi_select: ((value as string[]) ?? []).map(name => ({ name })) };
+            case 'date':
+                return { date: value ? { start: String(value) } : null };
+            case 'relation':
+                return { relation: ((value as string[]) ?? []).map(id => ({ id })) };
+            default:
+                return { [type]: value ?? null };
+        }
+    }
+
+    private richText(content: string) {
+        return {
+            type: 'text',
+            text: { content, link: null },
+            annotations: {
+                bold: false,
+                italic: false,
+                strikethrough: false,
+                underline: false,
+                code: false,
+                color: 'default'
+            },
+            plain_text: content,
+            href: null
+        };
+    }
+
+    // ====== FILTERS AND SORTS ======
+
+    private matchesFilter(row: any, filter: any): boolean {
+        if (Array.isArray(filter.and)) {
+            return filter.and.every((child: any) => this.matchesFilter(row, child));
+        }
+
+        if (Array.isArray(filter.or)) {
+            return filter.or.some((child: any) => this.matchesFilter(row, child));
+        }
+
+        if (filter.timestamp) {
+            const value = filter.timestamp === 'created_time' ? row.created_time : row.last_edited_time;
+            return this.matchesCondition('date', value, filter[filter.timestamp]);
+        }
+
+        const property = row.properties[filter.property];
+        if (!property) {
+            throw new FakeNotionError(400, 'validation_error', `Could not find property with name or id: ${filter.property}`);
+        }
+
+        const conditionKey = Object.keys(filter).find(key => key !== 'property');
+        if (!conditionKey) {
+            throw new FakeNotionError(400, 'validation_error', `Filter for ${filter.property} has no condition`);
+        }
+
+        return this.matchesCondition(conditionKey, this.comparableValue(property), filter[conditionKey]);
+    }
+
+    private matchesCondition(kind: string, value: any, condition: any): boolean {
+        const [operator, operand] = Object.entries(condition ?? {})[0] ?? [];
+
+        switch (operator) {
+            case 'is_empty':
+                return value === null || value === '' || (Array.isArray(value) && value.length === 0);
+            case 'is_not_empty':
+                return !(value === null || value === '' || (Array.isArray(value) && value.length === 0));
+        }
+
+        if (kind === 'multi_select' || kind === 'relation') {
+            const values: string[] = value ?? [];
+            if (operator === 'contains') return values.includes(String(operand));
+            if (operator === 'does_not_contain') return !values.includes(String(operand));
+        }
+
+        if (kind === 'date' || kind === 'created_time' || kind === 'last_edited_time') {
+            if (value === null) return false;
+            const time = new Date(value).getTime();
+            const target = new Date(String(operand)).getTime();
+            switch (operator) {
+                case 'equals': return time === target;
+                case 'before': return time < target;
+                case 'after': return time > target;
+                case 'on_or_before': return time <= target;
+                case 'on_or_after': return time >= target;
+            }
+        }
+
+        switch (operator) {
+            case 'equals': return value === operand;
+            case 'does_not_equal': return value !== operand;
+            case 'contains': return String(value ?? '').toLowerCase().includes(String(operand).toLowerCase());
+            case 'does_not_contain': return !String(value ?? '').toLowerCase().includes(String(operand).toLowerCase());
+            case 'starts_with': return String(value ?? '').toLowerCase().startsWith(String(operand).toLowerCase());
+            case 'ends_with': return String(value ?? '').toLowerCase().endsWith(String(operand).toLowerCase());
+            case 'greater_than': return value !== null && value > Number(operand);
+            case 'less_than': return value !== null && value < Number(operand);
+            case 'greater_than_or_equal_to': return value !== null && value >= Number(operand);
+            case 'less_than_or_equal_to': return value !== null && value <= Number(operand);
+        }
+
+        throw new FakeNotionError(400, 'validation_error', `Unsupported filter operator: ${operator}`);
+    }
+
+    // Flatten a response property into a value filters and sorts can compare
+    private comparableValue(property: any): any {
+        const value = property[property.type];
+
+        switch (property.type) {
+            case 'title':
+            case 'rich_text':
+                return value.map((part: any) => part.plain_text).join('');
+            case 'select':
+                return value?.name ?? null;
+            case 'multi_select':
+                return value.map((option: any) => option.name);
+            case 'relation':
+                return value.map((rel: any) => rel.id);
+            case 'date':
+                return value?.start ?? null;
+            case 'formula':
+                return value?.[value.type] ?? null;
+            default:
+                return value;
+        }
+    }
+
+    private compareRows(a: any, b: any, sorts: any[]): number {
+        for (const sort of sorts) {
+            const left = sort.timestamp ? a[sort.timestamp] : this.comparableValue(a.properties[sort.property] ?? { type: 'missing' });
+            const right = sort.timestamp ? b[sort.timestamp] : this.comparableValue(b.properties[sort.property] ?? { type: 'missing' });
+
+            let result = 0;
+            if (left === right) result = 0;
+            else if (left === null || left === undefined) result = 1;
+            else if (right === null || right === undefined) result = -1;
+            else if (typeof left === 'number' && typeof right === 'number') result = left - right;
+            else result = String(left).localeCompare(String(right));
+
+            if (result !== 0) {
+                return sort.direction === 'descending' ? -result : result;
+            }
+        }
+
+        return 0;
+    }
+}
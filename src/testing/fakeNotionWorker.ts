@@ -0,0 +1,16 @@
+// src/testing/fakeNotionWorker.ts
+import { FakeNotionApi } from "./fakeNotionApi";
+
+// Module-level so data persists across requests for the life of the isolate
+const api = FakeNotionApi.withSampleData();
+
+/**
+ * Serves the fake Notion API for local end-to-end runs:
+ *   npm run fake-notion
+ * then start the MCP server with NOTION_API_BASE_URL=http://localhost:8788
+ */
+export default {
+    async fetch(request: Request): Promise<Response> {
+        return api.fetch(request);
+    }
+};
@@ -0,0 +1,302 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { groupMealPlanByDay, resolveMealPlanRange } from "../services/mealPlanning";
+import type { PantryRepository } from "../services/pantryRepository";
+import { NotFoundError } from "../types/errors";
+import { MEAL_TYPES, type MealPlanEntry, type MealPlanNeeds } from "../types/mealPlan";
+import { bulletList, errorResult, formatQuantity, structuredResult } from "./toolOutputs";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format");
+
+// ====== OUTPUT SCHEMAS ======
+
+const mealPlanEntrySchema = z.object({
+    id: z.string(),
+    notionUrl: z.string().optional(),
+    date: z.string(),
+    meal: z.enum(MEAL_TYPES),
+    recipeId: z.string(),
+    recipeName: z.string(),
+    servings: z.number().optional(),
+    notes: z.string().optional(),
+    createdAt: z.string()
+});
+
+const ingredientNeedSchema = z.object({
+    name: z.string(),
+    need: z.number(),
+    have: z.number(),
+    onShoppingList: z.number(),
+    shortfall: z.number(),
+    unit: z.string(),
+    recipes: z.array(z.string())
+});
+
+const mealPlanProblemsOutput = {
+    unitMismatches: z.array(z.object({
+        name: z.string(),
+        need: z.number(),
+        unit: z.string(),
+        pantryQuantity: z.number(),
+        pantryUnit: z.string(),
+        recipes: z.array(z.string())
+    })).describe("Ingredients whose units can't be compared with the pantry"),
+    missingRecipes: z.array(z.string()).describe("Planned recipes that no longer exist")
+};
+
+const plannedMealOutput = {
+    entry: mealPlanEntrySchema
+};
+
+const plannedMealRemovedOutput = {
+    entryId: z.string(),
+    removed: z.boolean()
+};
+
+const mealPlanOutput = {
+    startDate: z.string(),
+    endDate: z.string(),
+    days: z.array(z.object({
+        date: z.string(),
+        meals: z.array(mealPlanEntrySchema)
+    })),
+    ingredients: z.array(ingredientNeedSchema),
+    ...mealPlanProblemsOutput
+};
+
+const mealPlanShoppingOutput = {
+    startDate: z.string(),
+    endDate: z.string(),
+    dryRun: z.boolean(),
+    plannedMeals: z.number(),
+    wouldAdd: z.array(ingredientNeedSchema).optional().describe("Shortfall that would be added (dry run only)"),
+    added: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        quantity: z.number(),
+        unit: z.string(),
+        notes: z.string().optional()
+    })).optional().describe("Shopping list entries added or topped up"),
+    alreadyInPantry: z.array(z.string()),
+    alreadyOnShoppingList: z.array(z.string()).describe("Ingredients the open shopping list already covers"),
+    ...mealPlanProblemsOutput
+};
+
+export function registerMealPlanTools(
+    server: McpServer,
+    repository: PantryRepository
+) {
+    // Assign a recipe to a day and meal
+    server.registerTool(
+        "planMeal",
+        {
+            description: "Add a recipe to the meal plan for a given day and meal",
+            inputSchema: {
+                date: dateSchema.describe("Day to cook the recipe (YYYY-MM-DD)"),
+                meal: z.enum(MEAL_TYPES).optional().default("Dinner").describe("Which meal of the day"),
+                recipeId: z.string().describe("ID of the recipe to cook"),
+                servings: z.number().positive().optional().describe("Servings to cook, if different from the recipe's own"),
+                notes: z.string().optional().describe("Notes about the meal")
+            },
+            outputSchema: plannedMealOutput
+        },
+        async ({ date, meal, recipeId, servings, notes }) => {
+            try {
+                const recipe = await repository.getRecipeById(recipeId);
+
+                if (!recipe) {
+                    return errorResult(new NotFoundError(`Recipe with ID ${recipeId} not found`));
+                }
+
+                const entry = await repository.addMealPlanEntry({
+                    date,
+                    meal,
+                    recipeId,
+                    recipeName: recipe.name,
+                    servings,
+                    notes
+                });
+
+                return structuredResult<typeof plannedMealOutput>(
+                    { entry },
+                    `# Meal Planned\n\n${describeEntry(entry)}`
+                );
+            } catch (error: any) {
+                console.error("Error in planMeal:", error);
+                return errorResult(error, "Error planning meal");
+            }
+        }
+    );
+
+    // Remove a planned meal
+    server.registerTool(
+        "removePlannedMeal",
+        {
+            description: "Remove a meal from the meal plan",
+            inputSchema: {
+                entryId: z.string().describe("ID of the meal plan entry")
+            },
+            outputSchema: plannedMealRemovedOutput
+        },
+        async ({ entryId }) => {
+            try {
+                await repository.removeMealPlanEntry(entryId);
+
+                return structuredResult<typeof plannedMealRemovedOutput>(
+                    { entryId, removed: true },
+                    `Removed meal plan entry ${entryId}.`
+                );
+            } catch (error: any) {
+                console.error("Error in removePlannedMeal:", error);
+                return errorResult(error, "Error removing planned meal");
+            }
+        }
+    );
+
+    // Show the plan and what it needs
+    server.registerTool(
+        "getMealPlan",
+        {
+            description: "Get the meals planned for a range of days with the combined ingredients they need, netted against the pantry",
+            inputSchema: {
+                startDate: dateSchema.optional().describe("First day to include (YYYY-MM-DD, defaults to today)"),
+                endDate: dateSchema.optional().describe("Last day to include (YYYY-MM-DD, defaults to six days after the start)")
+            },
+            outputSchema: mealPlanOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async ({ startDate, endDate }) => {
+            try {
+                const needs = await repository.getMealPlanNeeds(resolveMealPlanRange(startDate, endDate));
+
+                const response = {
+                    startDate: needs.startDate,
+                    endDate: needs.endDate,
+                    days: groupMealPlanByDay(needs.entries),
+                    ingredients: needs.ingredients,
+                    unitMismatches: needs.unitMismatches,
+                    missingRecipes: needs.missingRecipes
+                };
+
+                const sections = [
+                    `# Meal Plan ${response.startDate} to ${response.endDate}`,
+                    bulletList(response.days, day => `${day.date}: ${day.meals.map(meal => `${meal.meal} ${meal.recipeName}`).join(', ')}`, "Nothing is planned"),
+                    `## Ingredients\n${bulletList(response.ingredients, ingredient =>
+                        `${ingredient.name}: need ${formatQuantity(ingredient.need, ingredient.unit)}, have ${ingredient.have}${ingredient.shortfall > 0 ? `, short ${ingredient.shortfall}` : ''}`)}`,
+                    ...describeProblems(response)
+                ];
+
+                return structuredResult<typeof mealPlanOutput>(response, sections.join("\n\n"));
+            } catch (error: any) {
+                console.error("Error in getMealPlan:", error);
+                return errorResult(error, "Error getting meal plan");
+            }
+        }
+    );
+
+    // Shop for the plan
+    server.registerTool(
+        "addMealPlanToShoppingList",
+        {
+            description: "Add what the pantry is short of for the planned meals to the shopping list",
+            inputSchema: {
+                startDate: dateSchema.optional().describe("First day to shop for (YYYY-MM-DD, defaults to today)"),
+                endDate: dateSchema.optional().describe("Last day to shop for (YYYY-MM-DD, defaults to six days after the start)"),
+                dryRun: z.boolean().optional().default(false).describe("Only report the shortfall without changing the shopping list")
+            },
+            outputSchema: mealPlanShoppingOutput
+        },
+        async ({ startDate, endDate, dryRun }) => {
+            try {
+                const range = resolveMealPlanRange(startDate, endDate);
+
+                if (dryRun) {
+                    const needs = await repository.getMealPlanNeeds(range);
+                    const response = {
+                        ...range,
+                        dryRun,
+                        plannedMeals: needs.entries.length,
+                        wouldAdd: needs.ingredients.filter(ingredient => ingredient.shortfall > 0),
+                        alreadyInPantry: needs.ingredients
+                            .filter(ingredient => ingredient.shortfall <= 0 && ingredient.onShoppingList === 0)
+                            .map(ingredient => ingredient.name),
+                        alreadyOnShoppingList: needs.ingredients
+                            .filter(ingredient => ingredient.shortfall <= 0 && ingredient.onShoppingList > 0)
+                            .map(ingredient => ingredient.name),
+                        unitMismatches: needs.unitMismatches,
+                        missingRecipes: needs.missingRecipes
+                    };
+
+                    return structuredResult<typeof mealPlanShoppingOutput>(
+                        response,
+                        [
+                            `# Meal Plan Shortfall (Dry Run)`,
+                            `These items would be added to the shopping list. Nothing has been changed.\n${bulletList(response.wouldAdd, ingredient =>
+                                `${ingredient.name}: ${formatQuantity(ingredient.shortfall, ingredient.unit)}`, "The pantry covers every planned meal")}`,
+                            ...describeProblems(response)
+                        ].join("\n\n")
+                    );
+                }
+
+                const { needs, added } = await repository.addMealPlanShortfallToShoppingList(range);
+                const response = {
+                    ...range,
+                    dryRun,
+                    plannedMeals: needs.entries.length,
+                    added: added.map(item => ({
+                        id: item.id,
+                        name: item.name,
+                        quantity: item.quantity,
+                        unit: item.unit,
+                        notes: item.notes
+                    })),
+                    alreadyInPantry: needs.ingredients
+                        .filter(ingredient => ingredient.shortfall <= 0 && ingredient.onShoppingList === 0)
+                        .map(ingredient => ingredient.name),
+                    alreadyOnShoppingList: needs.ingredients
+                        .filter(ingredient => ingredient.shortfall <= 0 && ingredient.onShoppingList > 0)
+                        .map(ingredient => ingredient.name),
+                    unitMismatches: needs.unitMismatches,
+                    missingRecipes: needs.missingRecipes
+                };
+
+                return structuredResult<typeof mealPlanShoppingOutput>(
+                    response,
+                    [
+                        `# Meal Plan Shopping`,
+                        `Added to the shopping list for ${response.plannedMeals} planned meal(s):\n${bulletList(response.added, item =>
+                            `${item.name}: ${formatQuantity(item.quantity, item.unit)} [ID ${item.id}]`, "The pantry covers every planned meal")}`,
+                        ...describeProblems(response)
+                    ].join("\n\n")
+                );
+            } catch (error: any) {
+                console.error("Error in addMealPlanToShoppingList:", error);
+                return errorResult(error, "Error adding meal plan to shopping list");
+            }
+        }
+    );
+}
+
+// ====== HELPER METHODS ======
+
+function describeEntry(entry: MealPlanEntry): string {
+    return `${entry.date} ${entry.meal}: ${entry.recipeName}${entry.servings ? ` (${entry.servings} servings)` : ''} [ID ${entry.id}]`;
+}
+
+/**
+ * Sections for what a meal plan couldn't account for, when there is anything
+ */
+function describeProblems(problems: Pick<MealPlanNeeds, 'unitMismatches' | 'missingRecipes'>): string[] {
+    const sections = [];
+
+    if (problems.unitMismatches.length > 0) {
+        sections.push(`## Units Don't Convert\n${bulletList(problems.unitMismatches, mismatch =>
+            `${mismatch.name}: need ${formatQuantity(mismatch.need, mismatch.unit)}, pantry has ${formatQuantity(mismatch.pantryQuantity, mismatch.pantryUnit)}`)}`);
+    }
+
+    if (problems.missingRecipes.length > 0) {
+        sections.push(`Planned recipes that no longer exist: ${problems.missingRecipes.join(', ')}`);
+    }
+
+    return sections;
+}
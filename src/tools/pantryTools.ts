@@ -1,51 +1,215 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { NotionPantryService } from "../services/notionPantryService";
+import type { PantryRepository } from "../services/pantryRepository";
+import { NotFoundError, ValidationError } from "../types/errors";
 import type { PantryItem } from "../types/pantry";
+import { getScaleMultiplier, type PantryUpdateResult } from "../types/recipeIngredients";
+import type { ShoppingListItem } from "../types/shoppingList";
+import {
+    bulletList,
+    errorResult,
+    formatQuantity,
+    pantryChangeSchema,
+    pantryItemSchema,
+    recipeSchema,
+    shoppingListItemSchema,
+    structuredResult,
+    unitMismatchSchema,
+    type ToolOutput
+} from "./toolOutputs";
+
+// ====== OUTPUT SCHEMAS ======
+
+const pantryInfoOutput = {
+    items: z.array(pantryItemSchema),
+    metadata: z.object({
+        totalCount: z.number(),
+        expiringItems: z.array(z.object({
+            name: z.string(),
+            expiryDate: z.string().optional(),
+            daysUntilExpiry: z.number()
+        })).describe("Items expiring within a week"),
+        staplesLow: z.array(z.object({
+            name: z.string(),
+            quantity: z.number(),
+            minQuantity: z.number().optional(),
+            unit: z.string()
+        })),
+        categoryCounts: z.array(z.tuple([z.string(), z.number()])).describe("[category, item count] pairs")
+    }).optional()
+};
+
+const pantryAndRecipesOutput = {
+    pantry: z.array(z.object({
+        name: z.string(),
+        quantity: z.number(),
+        unit: z.string(),
+        category: z.string(),
+        expiry: z.string().optional()
+    })),
+    recipes: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        tried: z.boolean(),
+        tags: z.array(z.string()),
+        link: z.string(),
+        notionUrl: z.string().optional(),
+        ingredients: z.array(z.object({
+            id: z.string().optional(),
+            name: z.string(),
+            quantity: z.number(),
+            unit: z.string(),
+            optional: z.boolean().optional()
+        }))
+    }))
+};
+
+const recipeAddedOutput = {
+    recipe: recipeSchema
+};
+
+const pantryItemsUpdatedOutput = {
+    results: z.array(z.object({
+        name: z.string(),
+        previousQuantity: z.number(),
+        change: z.number(),
+        newQuantity: z.number(),
+        unit: z.string()
+    }))
+};
+
+const pantryUsageOutput = {
+    changes: z.array(pantryChangeSchema),
+    unitMismatches: z.array(unitMismatchSchema),
+    addedToShoppingList: z.array(z.string())
+};
+
+const cookingOutput = {
+    recipe: z.object({
+        id: z.string(),
+        name: z.string(),
+        notionUrl: z.string().optional(),
+        triedStatusUpdated: z.boolean()
+    }).optional().describe("The recipe cooked, when a recipe ID was given"),
+    multiplier: z.number().optional().describe("How much the recipe was scaled by"),
+    ...pantryUsageOutput
+};
+
+const pantryItemAddedOutput = {
+    wasUpdated: z.boolean().describe("Whether an existing item with the same name was topped up"),
+    quantityAdded: z.number(),
+    item: pantryItemSchema
+};
+
+const shoppingListOutput = {
+    items: z.array(shoppingListItemSchema),
+    groupedByCategory: z.record(z.array(shoppingListItemSchema)),
+    totalCount: z.number(),
+    purchasedCount: z.number()
+};
+
+const shoppingListItemAddedOutput = {
+    wasUpdated: z.boolean().describe("Whether it merged into an open entry with the same name"),
+    quantityAdded: z.string(),
+    item: shoppingListItemSchema
+};
+
+const consolidationOutput = {
+    dryRun: z.boolean(),
+    mergedCount: z.number().describe("How many entries were folded into another"),
+    merged: z.array(z.object({
+        name: z.string(),
+        keptId: z.string(),
+        removedIds: z.array(z.string()),
+        quantity: z.number(),
+        unit: z.string(),
+        priority: z.string()
+    })),
+    unitMismatches: z.array(z.object({
+        name: z.string(),
+        ids: z.array(z.string()),
+        units: z.array(z.string())
+    }))
+};
+
+const stapleTopUpSchema = z.object({
+    name: z.string(),
+    quantity: z.number(),
+    minQuantity: z.number(),
+    parLevel: z.number(),
+    topUp: z.number(),
+    unit: z.string(),
+    category: z.string()
+});
+
+const replenishmentOutput = {
+    parMultiplier: z.number(),
+    dryRun: z.boolean(),
+    added: z.array(stapleTopUpSchema),
+    alreadyOnList: z.array(stapleTopUpSchema)
+};
+
+const purchasedItemOutput = {
+    item: shoppingListItemSchema
+};
+
+const purchasesAddedOutput = {
+    itemsAddedToPantry: z.array(z.object({
+        name: z.string(),
+        action: z.enum(["added", "updated"]),
+        quantity: z.number(),
+        unit: z.string(),
+        before: z.number().optional(),
+        after: z.number().optional()
+    })),
+    count: z.number()
+};
+
+const usedItemsOutput = {
+    ...pantryUsageOutput,
+    notFoundItems: z.array(z.string())
+};
+
+const expiredItemsOutput = {
+    removedItems: z.array(z.object({
+        name: z.string(),
+        quantity: z.number(),
+        unit: z.string(),
+        expiryDate: z.string().optional(),
+        daysExpired: z.number()
+    })),
+    addedToShoppingList: z.array(z.string()),
+    totalRemoved: z.number(),
+    dryRun: z.boolean()
+};
 
 export function registerPantryTools(
     server: McpServer,
-    notionService: NotionPantryService
+    repository: PantryRepository
 ) {
     /**
      * Tool: Get comprehensive information about the pantry
      */
-    server.tool(
+    server.registerTool(
         "getPantryInfo",
-        "Get information about the current pantry inventory",
         {
-            filterByCategory: z.string().optional().describe("Filter items by a specific category"),
-            includeMetadata: z.boolean().optional().default(true).describe("Include metadata like expiring items and staples running low")
+            description: "Get information about the current pantry inventory",
+            inputSchema: {
+                filterByCategory: z.string().optional().describe("Filter items by a specific category"),
+                includeMetadata: z.boolean().optional().default(true).describe("Include metadata like expiring items and staples running low")
+            },
+            outputSchema: pantryInfoOutput,
+            annotations: { readOnlyHint: true }
         },
         async ({ filterByCategory, includeMetadata }) => {
             try {
                 // Get pantry items
                 let items = filterByCategory
-                    ? await notionService.getPantryItemsByCategory(filterByCategory)
-                    : await notionService.getPantryItems();
-
-                // Create response object with the correct type
-                interface PantryInfoResponse {
-                    items: PantryItem[];
-                    metadata?: {
-                        totalCount: number;
-                        expiringItems: Array<{
-                            name: string;
-                            expiryDate?: string;
-                            daysUntilExpiry: number;
-                        }>;
-                        staplesLow: Array<{
-                            name: string;
-                            quantity: number;
-                            minQuantity?: number;
-                            unit: string;
-                        }>;
-                        categoryCounts: Array<[string, number]>;
-                    }
-                }
+                    ? await repository.getPantryItemsByCategory(filterByCategory)
+                    : await repository.getPantryItems();
 
                 // Initialize with items
-                const response: PantryInfoResponse = {
+                const response: ToolOutput<typeof pantryInfoOutput> = {
                     items: items
                 };
 
@@ -99,17 +263,22 @@ export function registerPantryTools(
                     };
                 }
 
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Pantry Inventory Data\n\nHere is your current pantry inventory. You can format and analyze this data to provide insights about the pantry contents.\n\n${JSON.stringify(response, null, 2)}`
-                    }]
-                };
+                const sections = [
+                    `# Pantry Inventory${filterByCategory ? ` (${filterByCategory})` : ''}`,
+                    `${items.length} item(s):\n${bulletList(items, describePantryItem, "The pantry is empty")}`
+                ];
+
+                if (response.metadata) {
+                    sections.push(
+                        `## Expiring Within a Week\n${bulletList(response.metadata.expiringItems, item => `${item.name}: ${item.expiryDate} (${item.daysUntilExpiry} day(s))`)}`,
+                        `## Staples Running Low\n${bulletList(response.metadata.staplesLow, item => `${item.name}: ${formatQuantity(item.quantity, item.unit)} (minimum ${item.minQuantity})`)}`
+                    );
+                }
+
+                return structuredResult<typeof pantryInfoOutput>(response, sections.join("\n\n"));
             } catch (error: any) {
                 console.error("Error in getPantryInfo:", error);
-                return {
-                    content: [{ type: "text", text: `Error retrieving pantry information: ${error.message}` }]
-                };
+                return errorResult(error, "Error retrieving pantry information");
             }
         }
     );
@@ -117,21 +286,25 @@ export function registerPantryTools(
     /**
      * Tool: Suggest meals based on available pantry ingredients
      */
-    server.tool(
+    server.registerTool(
         "getPantryAndRecipes",
-        "Get pantry inventory and available recipes for meal planning",
         {
-            filterByTag: z.string().optional().describe("Filter recipes by a specific tag (e.g., 'Breakfast', 'Easy')"),
-            includeTriedOnly: z.boolean().optional().default(false).describe("Only include recipes you've tried before"),
-            maxRecipes: z.number().optional().default(10).describe("Maximum number of recipes to return")
+            description: "Get pantry inventory and available recipes for meal planning",
+            inputSchema: {
+                filterByTag: z.string().optional().describe("Filter recipes by a specific tag (e.g., 'Breakfast', 'Easy')"),
+                includeTriedOnly: z.boolean().optional().default(false).describe("Only include recipes you've tried before"),
+                maxRecipes: z.number().optional().default(10).describe("Maximum number of recipes to return")
+            },
+            outputSchema: pantryAndRecipesOutput,
+            annotations: { readOnlyHint: true }
         },
         async ({ filterByTag, includeTriedOnly, maxRecipes }) => {
             try {
                 // Get pantry items
-                const pantryItems = await notionService.getPantryItems();
+                const pantryItems = await repository.getPantryItems();
 
                 // Get recipes with ingredients
-                let recipesWithIngredients = await notionService.getRecipesWithIngredients();
+                let recipesWithIngredients = await repository.getRecipesWithIngredients();
 
                 // Apply filters
                 if (filterByTag) {
@@ -165,6 +338,7 @@ export function registerPantryTools(
                         link: r.recipe.link,
                         notionUrl: r.recipe.notionUrl, // Add Notion URL here
                         ingredients: r.ingredients.map(ing => ({
+                            id: ing.id,
                             name: ing.name,
                             quantity: ing.quantity,
                             unit: ing.unit,
@@ -174,41 +348,82 @@ export function registerPantryTools(
                 };
 
                 // Return structured data for the LLM to reason about
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Pantry and Recipe Data\n\nHere is the current pantry inventory and available recipes. You can analyze this data to suggest meals that can be made with available ingredients.\n\n${JSON.stringify(response, null, 2)}`
-                    }]
-                };
+                return structuredResult<typeof pantryAndRecipesOutput>(response, [
+                    "# Pantry and Recipe Data",
+                    `## Pantry\n${bulletList(pantryItems, describePantryItem, "The pantry is empty")}`,
+                    `## Recipes\n${bulletList(response.recipes, recipe =>
+                        `${recipe.name}${recipe.tags.length > 0 ? ` [${recipe.tags.join(', ')}]` : ''}${recipe.tried ? '' : ' (not tried yet)'}: ` +
+                        (recipe.ingredients.map(ing => `${formatQuantity(ing.quantity, ing.unit)} ${ing.name}${ing.optional ? ' (optional)' : ''}`).join(', ') || 'no ingredients listed'),
+                        "No recipes match")}`
+                ].join("\n\n"));
             } catch (error: any) {
                 console.error("Error in getPantryAndRecipes:", error);
-                return {
-                    content: [{ type: "text", text: `Error retrieving pantry and recipe data: ${error.message}` }]
-                };
+                return errorResult(error, "Error retrieving pantry and recipe data");
             }
         }
     )
 
+    /**
+     * Tool: Add a recipe to the recipe collection
+     */
+    server.registerTool(
+        "addRecipe",
+        {
+            description: "Add a new recipe to the recipe collection",
+            inputSchema: {
+                name: z.string().describe("Name of the recipe"),
+                tags: z.array(z.string()).optional().default([]).describe("Tags for the recipe (e.g., 'Dinner', 'Quick')"),
+                link: z.string().optional().default("").describe("URL to the recipe source"),
+                tried: z.boolean().optional().default(false).describe("Whether the recipe has been made before"),
+                servings: z.number().positive().optional().describe("How many servings the recipe makes")
+            },
+            outputSchema: recipeAddedOutput
+        },
+        async ({ name, tags, link, tried, servings }) => {
+            try {
+                const recipe = await repository.addRecipe({
+                    name,
+                    tags,
+                    link,
+                    tried,
+                    servings,
+                    kitchenTools: []
+                });
+
+                return structuredResult<typeof recipeAddedOutput>(
+                    { recipe },
+                    `# Recipe Added\n\nAdded "${recipe.name}" (ID ${recipe.id})${recipe.tags.length > 0 ? ` tagged ${recipe.tags.join(', ')}` : ''}.`
+                );
+            } catch (error: any) {
+                console.error("Error in addRecipe:", error);
+                return errorResult(error, "Error adding recipe");
+            }
+        }
+    );
+
     /**
      * Updates multiple pantry items
      */
-    server.tool(
+    server.registerTool(
         "updatePantryItems",
-        "Update quantities of multiple pantry items at once",
         {
-            items: z.array(z.object({
-                name: z.string().describe("Name of the item"),
-                quantity: z.number().describe("Quantity to add (positive) or remove (negative)"),
-                unit: z.string().describe("Unit of measurement")
-            })).describe("List of items to update")
+            description: "Update quantities of multiple pantry items at once",
+            inputSchema: {
+                items: z.array(z.object({
+                    name: z.string().describe("Name of the item"),
+                    quantity: z.number().describe("Quantity to add (positive) or remove (negative)"),
+                    unit: z.string().describe("Unit of measurement")
+                })).describe("List of items to update")
+            },
+            outputSchema: pantryItemsUpdatedOutput
         },
         async ({ items }) => {
             try {
-                const results: any[] = [];
+                const results: ToolOutput<typeof pantryItemsUpdatedOutput>['results'] = [];
 
                 for (const item of items) {
                     // Find existing item
-                    const pantryItems = await notionService.getPantryItems();
+                    const pantryItems = await repository.getPantryItems();
                     const existingItem = pantryItems.find(i =>
                         i.name.toLowerCase() === item.name.toLowerCase());
 
@@ -217,7 +432,7 @@ export function registerPantryTools(
                         const newQuantity = Math.max(0, existingItem.quantity + item.quantity);
 
                         // Update the item
-                        const updatedItem = await notionService.updatePantryItem(existingItem.id, {
+                        const updatedItem = await repository.updatePantryItem(existingItem.id, {
                             quantity: newQuantity
                         });
 
@@ -230,7 +445,7 @@ export function registerPantryTools(
                         });
                     } else if (item.quantity > 0) {
                         // If item doesn't exist and we're adding (not subtracting)
-                        const newItem = await notionService.addPantryItem({
+                        const newItem = await repository.addPantryItem({
                             name: item.name,
                             quantity: item.quantity,
                             unit: item.unit,
@@ -249,17 +464,15 @@ export function registerPantryTools(
                     }
                 }
 
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Pantry Items Updated\n\nHere are the details of the updates. You can format this information for the user.\n\n${JSON.stringify(results, null, 2)}`
-                    }]
-                };
+                return structuredResult<typeof pantryItemsUpdatedOutput>(
+                    { results },
+                    `# Pantry Items Updated\n\n${bulletList(results, result =>
+                        `${result.name}: ${result.previousQuantity} → ${formatQuantity(result.newQuantity, result.unit)}`,
+                        "Nothing was changed")}`
+                );
             } catch (error: any) {
                 console.error("Error updating pantry items:", error);
-                return {
-                    content: [{ type: "text", text: `Error updating pantry: ${error.message}` }]
-                };
+                return errorResult(error, "Error updating pantry");
             }
         }
     );
@@ -267,171 +480,92 @@ export function registerPantryTools(
     /**
      * Tool: Update pantry after cooking a recipe
      */
-    server.tool(
+    server.registerTool(
         "updatePantryAfterCooking",
-        "Update pantry inventory after preparing a meal",
         {
-            recipeId: z.string().optional().describe("ID of the recipe used for the meal"),
-            ingredients: z.array(z.object({
-                name: z.string().describe("Name of the ingredient"),
-                quantity: z.number().describe("Quantity used"),
-                unit: z.string().describe("Unit of measurement")
-            })).optional().describe("Manual list of ingredients used (if not using a recipe)"),
-            addToShoppingList: z.boolean().optional().default(true).describe("Automatically add low/depleted items to shopping list")
+            description: "Update pantry inventory after preparing a meal",
+            inputSchema: {
+                recipeId: z.string().optional().describe("ID of the recipe used for the meal"),
+                ingredients: z.array(z.object({
+                    name: z.string().describe("Name of the ingredient"),
+                    quantity: z.number().describe("Quantity used"),
+                    unit: z.string().describe("Unit of measurement")
+                })).optional().describe("Manual list of ingredients used (if not using a recipe)"),
+                addToShoppingList: z.boolean().optional().default(true).describe("Automatically add low/depleted items to shopping list"),
+                servings: z.number().positive().optional().describe("Number of servings cooked, if different from the recipe's own servings (recipe only)"),
+                multiplier: z.number().positive().optional().describe("Batch size relative to the recipe or ingredient list (e.g., 2 for a double batch)")
+            },
+            outputSchema: cookingOutput
         },
-        async ({ recipeId, ingredients, addToShoppingList }) => {
+        async ({ recipeId, ingredients, addToShoppingList, servings, multiplier }) => {
             try {
                 // If recipeId is provided, use existing logic
                 if (recipeId) {
                     // Get recipe with ingredients
-                    const recipeWithIngredients = await notionService.getRecipeWithIngredients(recipeId);
+                    const recipeWithIngredients = await repository.getRecipeWithIngredients(recipeId);
 
                     if (!recipeWithIngredients) {
-                        return {
-                            content: [{
-                                type: "text",
-                                text: `Recipe with ID ${recipeId} not found.`
-                            }]
-                        };
+                        return errorResult(new NotFoundError(`Recipe with ID ${recipeId} not found`));
                     }
 
-                    // Get pantry before update
-                    const pantryBefore = await notionService.getPantryItems();
+                    const scale = getScaleMultiplier(recipeWithIngredients.recipe, { servings, multiplier });
 
-                    // Update the pantry
-                    await notionService.updatePantryForRecipe(recipeId);
-
-                    // Get pantry after update
-                    const pantryAfter = await notionService.getPantryItems();
-
-                    // Calculate changes
-                    const changes: any[] = [];
-                    const addedToShoppingList: any[] = [];
-
-                    recipeWithIngredients.ingredients.forEach(ingredient => {
-                        if (ingredient.isOptional) return;
-
-                        const before = pantryBefore.find(item => item.name.toLowerCase() === ingredient.name.toLowerCase());
-                        const after = pantryAfter.find(item => item.name.toLowerCase() === ingredient.name.toLowerCase());
-
-                        if (before && after) {
-                            changes.push({
-                                name: ingredient.name,
-                                before: before.quantity,
-                                after: after.quantity,
-                                unit: before.unit
-                            });
-
-                            if (addToShoppingList && before.isStaple && before.minQuantity !== undefined &&
-                                before.quantity > before.minQuantity &&
-                                after.quantity <= before.minQuantity) {
-                                addedToShoppingList.push(ingredient.name);
-                            }
-                        }
-                    });
+                    // Update the pantry (amounts are scaled, then converted into each item's unit)
+                    const result = await repository.updatePantryForRecipe(recipeId, scale, { addToShoppingList });
 
                     // Update recipe tried status if not tried before
                     let triedStatusUpdated = false;
                     if (!recipeWithIngredients.recipe.tried) {
                         try {
-                            await notionService.markRecipeAsTried(recipeId);
+                            await repository.markRecipeAsTried(recipeId);
                             triedStatusUpdated = true;
                         } catch (error) {
                             console.error("Error marking recipe as tried:", error);
                         }
                     }
 
-                    // Return data for LLM to format
-                    return {
-                        content: [{
-                            type: "text",
-                            text: `# Pantry Update Results\n\nHere are the results of updating your pantry after cooking. You can format this information for the user.\n\n${JSON.stringify({
-                                recipe: {
-                                    id: recipeWithIngredients.recipe.id,
-                                    name: recipeWithIngredients.recipe.name,
-                                    notionUrl: recipeWithIngredients.recipe.notionUrl,
-                                    triedStatusUpdated
-                                },
-                                changes,
-                                addedToShoppingList
-                            }, null, 2)}`
-                        }]
+                    const response = {
+                        recipe: {
+                            id: recipeWithIngredients.recipe.id,
+                            name: recipeWithIngredients.recipe.name,
+                            notionUrl: recipeWithIngredients.recipe.notionUrl,
+                            triedStatusUpdated
+                        },
+                        multiplier: scale,
+                        ...toPantryUsage(result)
                     };
+
+                    return structuredResult<typeof cookingOutput>(
+                        response,
+                        `# Pantry Update Results\n\nCooked ${response.recipe.name}${scale !== 1 ? ` (x${scale})` : ''}.\n\n${describePantryUsage(response)}`
+                    );
                 }
                 // If ingredients list is provided, use those directly
                 else if (ingredients && ingredients.length > 0) {
-                    const changes = [];
-                    const addedToShoppingList = [];
-
-                    // Get pantry before update
-                    const pantryBefore = await notionService.getPantryItems();
-
-                    for (const ingredient of ingredients) {
-                        // Find matching pantry item
-                        const pantryItem = pantryBefore.find(item =>
-                            item.name.toLowerCase() === ingredient.name.toLowerCase());
-
-                        if (pantryItem) {
-                            // Calculate new quantity
-                            const newQuantity = Math.max(0, pantryItem.quantity - ingredient.quantity);
-
-                            // Update the item
-                            await notionService.updatePantryItem(pantryItem.id, {
-                                quantity: newQuantity
-                            });
-
-                            changes.push({
-                                name: ingredient.name,
-                                before: pantryItem.quantity,
-                                after: newQuantity,
-                                unit: pantryItem.unit
-                            });
-
-                            // Add to shopping list if needed
-                            if (addToShoppingList && pantryItem.isStaple && pantryItem.minQuantity !== undefined &&
-                                pantryItem.quantity > pantryItem.minQuantity &&
-                                newQuantity <= pantryItem.minQuantity) {
-                                await notionService.addToShoppingList({
-                                    name: pantryItem.name,
-                                    quantity: pantryItem.minQuantity,
-                                    unit: pantryItem.unit,
-                                    category: pantryItem.category,
-                                    priority: "Medium",
-                                    isPurchased: false,
-                                    isAutoAdded: true
-                                });
-
-                                addedToShoppingList.push(ingredient.name);
-                            }
-                        }
+                    if (servings !== undefined) {
+                        return errorResult(new ValidationError("Servings can only be used with a recipe ID", {
+                            hint: "Use a multiplier to scale a list of ingredients."
+                        }));
                     }
 
+                    const result = await repository.deductUsedItems(
+                        ingredients.map(ingredient => ({ ...ingredient, quantity: ingredient.quantity * (multiplier ?? 1) })),
+                        { addToShoppingList }
+                    );
+
                     // Return results
-                    return {
-                        content: [{
-                            type: "text",
-                            text: `# Pantry Update Results\n\nHere are the results of updating your pantry after cooking. You can format this information for the user.\n\n${JSON.stringify({
-                                changes,
-                                addedToShoppingList
-                            }, null, 2)}`
-                        }]
-                    };
+                    const response = toPantryUsage(result);
+
+                    return structuredResult<typeof cookingOutput>(
+                        response,
+                        `# Pantry Update Results\n\n${describePantryUsage(response)}`
+                    );
                 } else {
-                    return {
-                        content: [{
-                            type: "text",
-                            text: "Error: Either a recipe ID or a list of ingredients must be provided."
-                        }]
-                    };
+                    return errorResult(new ValidationError("Either a recipe ID or a list of ingredients must be provided"));
                 }
             } catch (error: any) {
                 console.error("Error in updatePantryAfterCooking:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error updating pantry: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error updating pantry");
             }
         }
     );
@@ -439,23 +573,26 @@ export function registerPantryTools(
     /**
      * Tool: Add item to pantry
      */
-    server.tool(
+    server.registerTool(
         "addPantryItem",
-        "Add a new item to the pantry inventory",
         {
-            name: z.string().describe("Name of the item"),
-            quantity: z.number().describe("Quantity of the item"),
-            unit: z.string().describe("Unit of measurement"),
-            category: z.string().describe("Category of the item"),
-            location: z.string().optional().default("Pantry").describe("Where the item is stored"),
-            expiryDate: z.string().optional().describe("Expiry date of the item (YYYY-MM-DD)"),
-            isStaple: z.boolean().optional().default(false).describe("Whether this is a staple item to always keep in stock"),
-            minQuantity: z.number().optional().describe("Minimum quantity to maintain (for staple items)")
+            description: "Add a new item to the pantry inventory",
+            inputSchema: {
+                name: z.string().describe("Name of the item"),
+                quantity: z.number().describe("Quantity of the item"),
+                unit: z.string().describe("Unit of measurement"),
+                category: z.string().describe("Category of the item"),
+                location: z.string().optional().default("Pantry").describe("Where the item is stored"),
+                expiryDate: z.string().optional().describe("Expiry date of the item (YYYY-MM-DD)"),
+                isStaple: z.boolean().optional().default(false).describe("Whether this is a staple item to always keep in stock"),
+                minQuantity: z.number().optional().describe("Minimum quantity to maintain (for staple items)")
+            },
+            outputSchema: pantryItemAddedOutput
         },
         async ({ name, quantity, unit, category, location, expiryDate, isStaple, minQuantity }) => {
             try {
                 // Check if item already exists
-                const existingItems = await notionService.getPantryItems();
+                const existingItems = await repository.getPantryItems();
                 const existingItem = existingItems.find(item =>
                     item.name.toLowerCase() === name.toLowerCase()
                 );
@@ -466,14 +603,14 @@ export function registerPantryTools(
                 if (existingItem) {
                     // Update existing item
                     wasUpdated = true;
-                    result = await notionService.updatePantryItem(existingItem.id, {
+                    result = await repository.updatePantryItem(existingItem.id, {
                         quantity: existingItem.quantity + quantity,
                         expiryDate: expiryDate || existingItem.expiryDate,
                         lastUpdated: new Date().toISOString()
                     });
                 } else {
                     // Add new item
-                    result = await notionService.addPantryItem({
+                    result = await repository.addPantryItem({
                         name,
                         quantity,
                         unit,
@@ -485,37 +622,32 @@ export function registerPantryTools(
                     });
                 }
 
-                // Return data for LLM to format
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Pantry Item ${wasUpdated ? 'Updated' : 'Added'}\n\nHere are the details of the ${wasUpdated ? 'updated' : 'new'} pantry item. You can format this information for the user.\n\n${JSON.stringify({
-                            wasUpdated,
-                            quantityAdded: quantity,
-                            item: result
-                        }, null, 2)}`
-                    }]
-                };
+                return structuredResult<typeof pantryItemAddedOutput>(
+                    {
+                        wasUpdated,
+                        quantityAdded: quantity,
+                        item: result
+                    },
+                    `# Pantry Item ${wasUpdated ? 'Updated' : 'Added'}\n\n${wasUpdated ? `Added ${formatQuantity(quantity, unit)} to` : 'Added'} ${describePantryItem(result)}`
+                );
             } catch (error: any) {
                 console.error("Error in addPantryItem:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error adding/updating pantry item: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error adding/updating pantry item");
             }
         }
     );
 
     // View shopping list
-    server.tool(
+    server.registerTool(
         "getShoppingList",
-        "Get the current shopping list",
-        {},
+        {
+            description: "Get the current shopping list",
+            outputSchema: shoppingListOutput,
+            annotations: { readOnlyHint: true }
+        },
         async () => {
             try {
-                const shoppingList = await notionService.getShoppingList();
+                const shoppingList = await repository.getShoppingList();
 
                 // Group by category
                 const groupedByCategory: Record<string, typeof shoppingList> = {};
@@ -528,319 +660,269 @@ export function registerPantryTools(
                     groupedByCategory[item.category].push(item);
                 });
 
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Shopping List Data\n\nHere is your current shopping list. You can format this information for the user.\n\n${JSON.stringify({
-                            items: shoppingList,
-                            groupedByCategory,
-                            totalCount: shoppingList.length,
-                            purchasedCount: shoppingList.filter(item => item.isPurchased).length
-                        }, null, 2)}`
-                    }]
-                };
+                const purchasedCount = shoppingList.filter(item => item.isPurchased).length;
+
+                return structuredResult<typeof shoppingListOutput>(
+                    {
+                        items: shoppingList,
+                        groupedByCategory,
+                        totalCount: shoppingList.length,
+                        purchasedCount
+                    },
+                    [
+                        `# Shopping List\n\n${shoppingList.length} item(s), ${purchasedCount} purchased.`,
+                        ...Object.entries(groupedByCategory).map(([category, items]) =>
+                            `## ${category || 'Uncategorized'}\n${bulletList(items, describeShoppingListItem)}`
+                        )
+                    ].join("\n\n")
+                );
             } catch (error: any) {
                 console.error("Error in getShoppingList:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error retrieving shopping list: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error retrieving shopping list");
             }
         }
     );
 
     // Add item to shopping list
-    server.tool(
+    server.registerTool(
         "addToShoppingList",
-        "Add an item to the shopping list",
         {
-            name: z.string().describe("Name of the item"),
-            quantity: z.number().describe("Quantity to purchase"),
-            unit: z.string().describe("Unit of measurement"),
-            category: z.string().describe("Category of the item"),
-            priority: z.enum(["Low", "Medium", "High"]).optional().default("Medium").describe("Priority of the item")
+            description: "Add an item to the shopping list, merging it into an open entry with the same name",
+            inputSchema: {
+                name: z.string().describe("Name of the item"),
+                quantity: z.number().describe("Quantity to purchase"),
+                unit: z.string().describe("Unit of measurement"),
+                category: z.string().describe("Category of the item"),
+                priority: z.enum(["Low", "Medium", "High"]).optional().default("Medium").describe("Priority of the item"),
+                notes: z.string().optional().describe("Notes such as a brand or size")
+            },
+            outputSchema: shoppingListItemAddedOutput
         },
-        async ({ name, quantity, unit, category, priority }) => {
+        async ({ name, quantity, unit, category, priority, notes }) => {
             try {
-                // Check if item already exists
-                const existingList = await notionService.getShoppingList();
-                const existingItem = existingList.find(item =>
-                    item.name.toLowerCase() === name.toLowerCase() && !item.isPurchased
+                // Merges into an unpurchased entry with the same name when the units convert
+                const { item: result, merged: wasUpdated } = await repository.addOrMergeShoppingListItem({
+                    name,
+                    quantity,
+                    unit,
+                    category,
+                    priority: priority || "Medium",
+                    isPurchased: false,
+                    isAutoAdded: false,
+                    notes
+                });
+
+                return structuredResult<typeof shoppingListItemAddedOutput>(
+                    {
+                        wasUpdated,
+                        quantityAdded: `${quantity} ${unit}`,
+                        item: result
+                    },
+                    `# Shopping List Item ${wasUpdated ? 'Updated' : 'Added'}\n\n${wasUpdated ? `Added ${formatQuantity(quantity, unit)} to the existing entry: ` : ''}${describeShoppingListItem(result)}`
                 );
+            } catch (error: any) {
+                console.error("Error in addToShoppingList:", error);
+                return errorResult(error, "Error adding/updating shopping list item");
+            }
+        }
+    );
 
-                let result;
-                let wasUpdated = false;
+    // Merge duplicate shopping list entries
+    server.registerTool(
+        "consolidateShoppingList",
+        {
+            description: "Merge duplicate unpurchased shopping list entries with the same name into one",
+            inputSchema: {
+                dryRun: z.boolean().optional().default(false).describe("Only report the duplicates without changing the shopping list")
+            },
+            outputSchema: consolidationOutput
+        },
+        async ({ dryRun }) => {
+            try {
+                const result = await repository.consolidateShoppingList(dryRun);
+                const response = {
+                    dryRun,
+                    mergedCount: result.merged.reduce((count, entry) => count + entry.removedIds.length, 0),
+                    merged: result.merged,
+                    unitMismatches: result.unitMismatches
+                };
 
-                if (existingItem) {
-                    // Update existing item
-                    wasUpdated = true;
-                    result = await notionService.updateShoppingListItem(existingItem.id, {
-                        quantity: existingItem.quantity + quantity,
-                        priority: priority || existingItem.priority
-                    });
-                } else {
-                    // Add new item
-                    result = await notionService.addToShoppingList({
-                        name,
-                        quantity,
-                        unit,
-                        category,
-                        priority: priority || "Medium",
-                        isPurchased: false,
-                        isAutoAdded: false
-                    });
+                if (result.merged.length === 0 && result.unitMismatches.length === 0) {
+                    return structuredResult<typeof consolidationOutput>(response, "The shopping list has no duplicate entries.");
                 }
 
-                // Return data for LLM to format
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Shopping List Item ${wasUpdated ? 'Updated' : 'Added'}\n\nHere are the details of the ${wasUpdated ? 'updated' : 'new'} shopping list item. You can format this information for the user.\n\n${JSON.stringify({
-                            wasUpdated,
-                            quantityAdded: quantity,
-                            item: result
-                        }, null, 2)}`
-                    }]
-                };
+                const sections = [
+                    `# Shopping List ${dryRun ? 'Duplicates (Dry Run)' : 'Consolidated'}`,
+                    `${dryRun ? 'These entries would be merged. Nothing has been changed.' : 'These entries were merged.'}\n${bulletList(result.merged, entry =>
+                        `${entry.name}: ${entry.removedIds.length + 1} entries → ${formatQuantity(entry.quantity, entry.unit)} (${entry.priority})`,
+                        "No entries could be merged")}`
+                ];
+
+                if (result.unitMismatches.length > 0) {
+                    sections.push(`## Left Alone (Units Don't Convert)\n${bulletList(result.unitMismatches, mismatch =>
+                        `${mismatch.name}: ${mismatch.units.join(', ')}`)}`);
+                }
+
+                return structuredResult<typeof consolidationOutput>(response, sections.join("\n\n"));
             } catch (error: any) {
-                console.error("Error in addToShoppingList:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error adding/updating shopping list item: ${error.message}`
-                    }]
-                };
+                console.error("Error in consolidateShoppingList:", error);
+                return errorResult(error, "Error consolidating shopping list");
+            }
+        }
+    );
+
+    // Top up low staples
+    server.registerTool(
+        "replenishStaples",
+        {
+            description: "Add every staple at or below its minimum quantity to the shopping list, topped up to a par level",
+            inputSchema: {
+                parMultiplier: z.number().min(1).optional().default(2).describe("Par level as a multiple of each staple's minimum quantity (e.g., 2 restocks to twice the minimum)"),
+                dryRun: z.boolean().optional().default(false).describe("Only report low staples without changing the shopping list")
+            },
+            outputSchema: replenishmentOutput
+        },
+        async ({ parMultiplier, dryRun }) => {
+            try {
+                const result = await repository.replenishStaples({ parMultiplier, dryRun });
+                const response = { parMultiplier, ...result };
+
+                if (result.added.length === 0 && result.alreadyOnList.length === 0) {
+                    return structuredResult<typeof replenishmentOutput>(response, "All staples are above their minimum quantities.");
+                }
+
+                const sections = [
+                    `# Staple Replenishment${dryRun ? ' (Dry Run)' : ''}`,
+                    `${dryRun ? 'These staples would be added to the shopping list. Nothing has been changed.' : 'These staples were added to the shopping list.'}\n${bulletList(result.added, staple =>
+                        `${staple.name}: ${formatQuantity(staple.topUp, staple.unit)} (have ${staple.quantity}, par ${staple.parLevel})`)}`
+                ];
+
+                if (result.alreadyOnList.length > 0) {
+                    sections.push(`## Already on the Shopping List\n${bulletList(result.alreadyOnList, staple =>
+                        `${staple.name}: have ${formatQuantity(staple.quantity, staple.unit)}`)}`);
+                }
+
+                return structuredResult<typeof replenishmentOutput>(response, sections.join("\n\n"));
+            } catch (error: any) {
+                console.error("Error in replenishStaples:", error);
+                return errorResult(error, "Error replenishing staples");
             }
         }
     );
 
     // Mark item as purchased
-    server.tool(
+    server.registerTool(
         "markItemAsPurchased",
-        "Mark a shopping list item as purchased",
         {
-            itemId: z.string().describe("ID of the shopping list item to mark as purchased")
+            description: "Mark a shopping list item as purchased",
+            inputSchema: {
+                itemId: z.string().describe("ID of the shopping list item to mark as purchased")
+            },
+            outputSchema: purchasedItemOutput
         },
         async ({ itemId }) => {
             try {
                 // Mark the item as purchased
-                const updatedItem = await notionService.markAsPurchased(itemId);
-
-                // Return data for LLM to format
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Item Marked as Purchased\n\nHere are the details of the updated shopping list item. You can format this information for the user.\n\n${JSON.stringify(updatedItem, null, 2)}`
-                    }]
-                };
+                const updatedItem = await repository.markAsPurchased(itemId);
+
+                return structuredResult<typeof purchasedItemOutput>(
+                    { item: updatedItem },
+                    `# Item Marked as Purchased\n\n${describeShoppingListItem(updatedItem)}`
+                );
             } catch (error: any) {
                 console.error("Error in markItemAsPurchased:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error marking item as purchased: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error marking item as purchased");
             }
         }
     );
 
     // Add purchased items to pantry
-    server.tool(
+    server.registerTool(
         "addPurchasedItemsToPantry",
-        "Add all purchased items to pantry and remove from shopping list",
         {
-            provideSummary: z.boolean().optional().default(true).describe("Whether to provide a detailed summary of changes")
+            description: "Add all purchased items to pantry and remove from shopping list",
+            inputSchema: {
+                provideSummary: z.boolean().optional().default(true).describe("Whether to provide a detailed summary of changes")
+            },
+            outputSchema: purchasesAddedOutput
         },
         async ({ provideSummary }) => {
             try {
-                // Get purchased items before they're removed
-                const shoppingList = await notionService.getShoppingList();
-                const purchasedItems = shoppingList.filter(item => item.isPurchased);
-
-                if (purchasedItems.length === 0) {
-                    return {
-                        content: [{
-                            type: "text",
-                            text: "No purchased items found on your shopping list."
-                        }]
-                    };
-                }
-
-                // Track pantry changes for summary
-                const changes = [];
-
-                // Add purchased items to pantry
-                for (const item of purchasedItems) {
-                    // Check if this item already exists in pantry
-                    const pantryItems = await notionService.getPantryItems();
-                    const existingItem = pantryItems.find(pantryItem =>
-                        pantryItem.name.toLowerCase() === item.name.toLowerCase());
-
-                    let result;
-                    if (existingItem) {
-                        // Update existing item quantity
-                        const beforeQuantity = existingItem.quantity;
-                        result = await notionService.updatePantryItem(existingItem.id, {
-                            quantity: existingItem.quantity + item.quantity
-                        });
-
-                        changes.push({
-                            name: item.name,
-                            action: "updated",
-                            before: beforeQuantity,
-                            after: result.quantity,
-                            unit: item.unit
-                        });
-                    } else {
-                        // Add as new pantry item
-                        result = await notionService.addPantryItem({
-                            name: item.name,
-                            quantity: item.quantity,
-                            unit: item.unit,
-                            category: item.category,
-                            location: 'Pantry', // Default location
-                            isStaple: false,
-                            notes: item.notes
-                        });
+                const changes = await repository.addPurchasedItemsToPantry();
+                const response = { itemsAddedToPantry: changes, count: changes.length };
 
-                        changes.push({
-                            name: item.name,
-                            action: "added",
-                            quantity: item.quantity,
-                            unit: item.unit
-                        });
-                    }
-
-                    // Remove from shopping list
-                    await notionService.deleteShoppingListItem(item.id);
+                if (changes.length === 0) {
+                    return structuredResult<typeof purchasesAddedOutput>(response, "No purchased items found on your shopping list.");
                 }
 
-                // Return data for LLM to format with change details
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Purchased Items Added to Pantry\n\nHere are the details of the operation. You can format this information for the user.\n\n${JSON.stringify({
-                            itemsAddedToPantry: provideSummary ? changes : purchasedItems.map(i => i.name),
-                            count: purchasedItems.length
-                        }, null, 2)}`
-                    }]
-                };
+                // The summary only changes the text; the structured content always has the details
+                return structuredResult<typeof purchasesAddedOutput>(
+                    response,
+                    `# Purchased Items Added to Pantry\n\n${bulletList(changes, change => provideSummary
+                        ? `${change.name}: ${change.action === 'updated'
+                            ? `${change.before} → ${formatQuantity(change.after!, change.unit)}`
+                            : `added ${formatQuantity(change.quantity, change.unit)}`}`
+                        : change.name)}`
+                );
             } catch (error: any) {
                 console.error("Error in addPurchasedItemsToPantry:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error adding purchased items to pantry: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error adding purchased items to pantry");
             }
         }
     );
 
     // A more flexible tool for updating pantry items without requiring a recipe
-    server.tool(
+    server.registerTool(
         "updatePantryWithUsedItems",
-        "Update pantry by removing ingredients you've used",
         {
-            items: z.array(z.object({
-                name: z.string().describe("Name of the item used"),
-                quantity: z.number().describe("Quantity used"),
-                unit: z.string().describe("Unit of measurement")
-            })).describe("List of items used"),
-            addToShoppingList: z.boolean().optional().default(true).describe("Add low/depleted staples to shopping list")
+            description: "Update pantry by removing ingredients you've used",
+            inputSchema: {
+                items: z.array(z.object({
+                    name: z.string().describe("Name of the item used"),
+                    quantity: z.number().describe("Quantity used"),
+                    unit: z.string().describe("Unit of measurement")
+                })).describe("List of items used"),
+                addToShoppingList: z.boolean().optional().default(true).describe("Add low/depleted staples to shopping list")
+            },
+            outputSchema: usedItemsOutput
         },
         async ({ items, addToShoppingList }) => {
             try {
-                const changes = [];
-                const addedToShoppingList = [];
-                const notFoundItems = [];
-
-                // Get pantry items once to avoid repeated calls
-                const pantryItems = await notionService.getPantryItems();
-
-                for (const item of items) {
-                    // Find matching pantry item
-                    const pantryItem = pantryItems.find(p =>
-                        p.name.toLowerCase() === item.name.toLowerCase());
-
-                    if (pantryItem) {
-                        // Calculate new quantity
-                        const newQuantity = Math.max(0, pantryItem.quantity - item.quantity);
-
-                        // Update the item
-                        await notionService.updatePantryItem(pantryItem.id, {
-                            quantity: newQuantity
-                        });
-
-                        changes.push({
-                            name: item.name,
-                            before: pantryItem.quantity,
-                            after: newQuantity,
-                            unit: pantryItem.unit,
-                            used: item.quantity
-                        });
+                const result = await repository.deductUsedItems(items, { addToShoppingList });
 
-                        // Add to shopping list if needed
-                        if (addToShoppingList && pantryItem.isStaple && pantryItem.minQuantity !== undefined &&
-                            pantryItem.quantity > pantryItem.minQuantity &&
-                            newQuantity <= pantryItem.minQuantity) {
-                            await notionService.addToShoppingList({
-                                name: pantryItem.name,
-                                quantity: pantryItem.minQuantity || 1,
-                                unit: pantryItem.unit,
-                                category: pantryItem.category,
-                                priority: "Medium",
-                                isPurchased: false,
-                                isAutoAdded: true
-                            });
+                // Return results
+                const response = { ...toPantryUsage(result), notFoundItems: result.notFound };
+                const sections = ["# Pantry Updated with Used Items", describePantryUsage(response)];
 
-                            addedToShoppingList.push(pantryItem.name);
-                        }
-                    } else {
-                        notFoundItems.push(item.name);
-                    }
+                if (result.notFound.length > 0) {
+                    sections.push(`Not in the pantry: ${result.notFound.join(', ')}`);
                 }
 
-                // Return results
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# Pantry Updated with Used Items\n\nHere are the details of the update. You can format this information for the user.\n\n${JSON.stringify({
-                            changes,
-                            addedToShoppingList,
-                            notFoundItems
-                        }, null, 2)}`
-                    }]
-                };
+                return structuredResult<typeof usedItemsOutput>(response, sections.join("\n\n"));
             } catch (error: any) {
                 console.error("Error updating pantry with used items:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error updating pantry: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error updating pantry");
             }
         }
     );
 
-    server.tool(
+    server.registerTool(
         "removeExpiredItems",
-        "Remove expired items from pantry and optionally add replacements to shopping list",
         {
-            checkExpiryBefore: z.string().optional().describe("Check items expiring before this date (YYYY-MM-DD), defaults to today"),
-            addToShoppingList: z.boolean().optional().default(true).describe("Add staple items to shopping list"),
-            dryRun: z.boolean().optional().default(false).describe("Just report expired items without removing them")
+            description: "Remove expired items from pantry and optionally add replacements to shopping list",
+            inputSchema: {
+                checkExpiryBefore: z.string().optional().describe("Check items expiring before this date (YYYY-MM-DD), defaults to today"),
+                addToShoppingList: z.boolean().optional().default(true).describe("Add staple items to shopping list"),
+                dryRun: z.boolean().optional().default(false).describe("Just report expired items without removing them")
+            },
+            outputSchema: expiredItemsOutput
         },
         async ({ checkExpiryBefore, addToShoppingList, dryRun }) => {
             try {
                 const expiryDate = checkExpiryBefore ? new Date(checkExpiryBefore) : new Date();
 
                 // Get all pantry items
-                const pantryItems = await notionService.getPantryItems();
+                const pantryItems = await repository.getPantryItems();
 
                 // Find expired items
                 const expiredItems = pantryItems.filter(item => {
@@ -850,12 +932,10 @@ export function registerPantryTools(
                 });
 
                 if (expiredItems.length === 0) {
-                    return {
-                        content: [{
-                            type: "text",
-                            text: `No items found expiring before ${expiryDate.toISOString().split('T')[0]}.`
-                        }]
-                    };
+                    return structuredResult<typeof expiredItemsOutput>(
+                        { removedItems: [], addedToShoppingList: [], totalRemoved: 0, dryRun },
+                        `No items found expiring before ${expiryDate.toISOString().split('T')[0]}.`
+                    );
                 }
 
                 const removedItems = [];
@@ -866,7 +946,7 @@ export function registerPantryTools(
                     // Add to shopping list if it's a staple
                     if (addToShoppingList && item.isStaple) {
                         if (!dryRun) {
-                            await notionService.addToShoppingList({
+                            await repository.addToShoppingList({
                                 name: item.name,
                                 quantity: item.minQuantity || item.quantity,
                                 unit: item.unit,
@@ -882,7 +962,7 @@ export function registerPantryTools(
 
                     // Remove from pantry
                     if (!dryRun) {
-                        await notionService.deletePantryItem(item.id);
+                        await repository.deletePantryItem(item.id);
                     }
 
                     removedItems.push({
@@ -895,26 +975,81 @@ export function registerPantryTools(
                 }
 
                 // Return results
-                return {
-                    content: [{
-                        type: "text",
-                        text: `# ${dryRun ? 'Expired Items Report' : 'Expired Items Removed'}\n\nHere are the details of the ${dryRun ? 'expired items' : 'removal operation'}. You can format this information for the user.\n\n${JSON.stringify({
-                            removedItems,
-                            addedToShoppingList,
-                            totalRemoved: removedItems.length,
-                            dryRun
-                        }, null, 2)}`
-                    }]
-                };
+                const sections = [
+                    `# ${dryRun ? 'Expired Items Report' : 'Expired Items Removed'}`,
+                    `${dryRun ? 'These items would be removed. Nothing has been changed.' : 'These items were removed.'}\n${bulletList(removedItems, item =>
+                        `${item.name}: ${formatQuantity(item.quantity, item.unit)}, expired ${item.expiryDate}`)}`
+                ];
+
+                if (addedToShoppingList.length > 0) {
+                    sections.push(`${dryRun ? 'Would be added' : 'Added'} to the shopping list: ${addedToShoppingList.join(', ')}`);
+                }
+
+                return structuredResult<typeof expiredItemsOutput>(
+                    {
+                        removedItems,
+                        addedToShoppingList,
+                        totalRemoved: removedItems.length,
+                        dryRun
+                    },
+                    sections.join("\n\n")
+                );
             } catch (error: any) {
                 console.error("Error handling expired items:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error handling expired items: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error handling expired items");
             }
         }
     );
-}
\ No newline at end of file
+}
+
+// ====== HELPER METHODS ======
+
+function describePantryItem(item: PantryItem): string {
+    const details = [item.category, item.location, item.expiryDate && `expires ${item.expiryDate}`, item.isStaple && 'staple']
+        .filter(Boolean)
+        .join(', ');
+
+    return `${item.name}: ${formatQuantity(item.quantity, item.unit)}${details ? ` (${details})` : ''} [ID ${item.id}]`;
+}
+
+function describeShoppingListItem(item: ShoppingListItem): string {
+    const details = [`${item.priority} priority`, item.notes].filter(Boolean).join(', ');
+
+    return `[${item.isPurchased ? 'x' : ' '}] ${item.name}: ${formatQuantity(item.quantity, item.unit)} (${details}) [ID ${item.id}]`;
+}
+
+/**
+ * A repository pantry update in the tools' output shape
+ */
+function toPantryUsage(result: PantryUpdateResult): ToolOutput<typeof pantryUsageOutput> {
+    return {
+        changes: result.deductions.map(deduction => ({
+            name: deduction.name,
+            before: deduction.before,
+            after: deduction.after,
+            unit: deduction.unit,
+            used: `${deduction.used} ${deduction.usedUnit}`
+        })),
+        unitMismatches: result.unitMismatches,
+        addedToShoppingList: result.addedToShoppingList
+    };
+}
+
+/**
+ * What using up some pantry items changed, for the text rendering
+ */
+function describePantryUsage(usage: ToolOutput<typeof pantryUsageOutput>): string {
+    const sections = [bulletList(usage.changes, change =>
+        `${change.name}: ${change.before} → ${formatQuantity(change.after, change.unit)} (used ${change.used})`,
+        "No pantry items were changed")];
+
+    if (usage.unitMismatches.length > 0) {
+        sections.push(`## Not Deducted\n${bulletList(usage.unitMismatches, mismatch => `${mismatch.name}: ${mismatch.reason}`)}`);
+    }
+
+    if (usage.addedToShoppingList.length > 0) {
+        sections.push(`Added to the shopping list: ${usage.addedToShoppingList.join(', ')}`);
+    }
+
+    return sections.join("\n\n");
+}
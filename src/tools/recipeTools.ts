@@ -0,0 +1,393 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { PantryRepository } from "../services/pantryRepository";
+import { NotFoundError } from "../types/errors";
+import { parseIngredientLine } from "../types/ingredientParser";
+import { getScaleMultiplier, parseIngredients, scaleIngredients, type RecipeIngredient } from "../types/recipeIngredients";
+import {
+    bulletList,
+    errorResult,
+    formatQuantity,
+    recipeIngredientSchema,
+    structuredResult
+} from "./toolOutputs";
+
+// ====== OUTPUT SCHEMAS ======
+
+const ingredientOutput = {
+    ingredient: recipeIngredientSchema
+};
+
+const ingredientRemovedOutput = {
+    ingredientId: z.string(),
+    removed: z.boolean()
+};
+
+const parsedIngredientsOutput = {
+    lineCount: z.number(),
+    ingredients: z.array(z.object({
+        line: z.string(),
+        name: z.string(),
+        quantity: z.number(),
+        quantityMax: z.number().optional(),
+        unit: z.string(),
+        packageSize: z.object({
+            quantity: z.number(),
+            unit: z.string()
+        }).optional(),
+        preparation: z.string().optional(),
+        isOptional: z.boolean(),
+        toTaste: z.boolean(),
+        storedAs: z.object({
+            name: z.string(),
+            quantity: z.number(),
+            unit: z.string(),
+            preparation: z.string().optional(),
+            isOptional: z.boolean().optional()
+        }).nullable().describe("The ingredient that would be saved on a recipe, or null when the line isn't one")
+    }))
+};
+
+const suggestionsOutput = {
+    count: z.number(),
+    mode: z.enum(["best-match", "use-it-up"]),
+    filters: z.object({
+        requiredTags: z.array(z.string()),
+        excludeTried: z.boolean(),
+        excludeUntried: z.boolean(),
+        minMatchPercentage: z.number(),
+        expiringWithinDays: z.number().optional()
+    }),
+    suggestions: z.array(z.object({
+        recipe: z.object({
+            id: z.string(),
+            name: z.string(),
+            tags: z.array(z.string()),
+            tried: z.boolean(),
+            notionUrl: z.string().optional()
+        }),
+        rank: z.number(),
+        matchPercentage: z.number(),
+        missingIngredients: z.array(z.object({
+            name: z.string(),
+            status: z.enum(["available", "insufficient", "missing", "unknown"]),
+            have: z.number(),
+            need: z.number(),
+            unit: z.string(),
+            pantryUnit: z.string().optional(),
+            reason: z.string().optional()
+        })),
+        rescuedItems: z.array(z.object({
+            name: z.string(),
+            expiryDate: z.string(),
+            daysUntilExpiry: z.number(),
+            used: z.number().nullable(),
+            unit: z.string(),
+            shareOfStock: z.number().nullable()
+        })).optional().describe("Expiring pantry items the recipe uses up (use-it-up mode only)"),
+        wasteScore: z.number().optional(),
+        explanation: z.string()
+    }))
+};
+
+const scaledRecipeOutput = {
+    recipe: z.object({
+        id: z.string(),
+        name: z.string(),
+        notionUrl: z.string().optional()
+    }),
+    originalServings: z.number().nullable(),
+    servings: z.number().nullable(),
+    multiplier: z.number(),
+    ingredients: z.array(z.object({
+        name: z.string(),
+        quantity: z.number(),
+        unit: z.string(),
+        preparation: z.string().optional(),
+        isOptional: z.boolean(),
+        original: z.object({
+            quantity: z.number(),
+            unit: z.string()
+        })
+    }))
+};
+
+export function registerRecipeTools(
+    server: McpServer,
+    repository: PantryRepository
+) {
+    // Add an ingredient to a recipe
+    server.registerTool(
+        "addRecipeIngredient",
+        {
+            description: "Add an ingredient to a recipe",
+            inputSchema: {
+                recipeId: z.string().describe("ID of the recipe"),
+                name: z.string().describe("Name of the ingredient (should match the pantry item name when possible)"),
+                quantity: z.number().describe("Quantity needed"),
+                unit: z.string().describe("Unit of measurement"),
+                preparation: z.string().optional().describe("Preparation notes (e.g., finely chopped)"),
+                isOptional: z.boolean().optional().default(false).describe("Whether the ingredient is optional")
+            },
+            outputSchema: ingredientOutput
+        },
+        async ({ recipeId, name, quantity, unit, preparation, isOptional }) => {
+            try {
+                const ingredient = await repository.addRecipeIngredient(recipeId, {
+                    name,
+                    quantity,
+                    unit,
+                    preparation,
+                    isOptional
+                });
+
+                return structuredResult<typeof ingredientOutput>(
+                    { ingredient },
+                    `# Recipe Ingredient Added\n\nAdded ${describeIngredient(ingredient)} to recipe ${ingredient.recipeId}.`
+                );
+            } catch (error: any) {
+                console.error("Error in addRecipeIngredient:", error);
+                return errorResult(error, "Error adding recipe ingredient");
+            }
+        }
+    );
+
+    // Edit an existing recipe ingredient
+    server.registerTool(
+        "updateRecipeIngredient",
+        {
+            description: "Change the name, quantity, unit or notes of a recipe ingredient",
+            inputSchema: {
+                ingredientId: z.string().describe("ID of the ingredient (from getPantryAndRecipes)"),
+                name: z.string().optional().describe("New name of the ingredient"),
+                quantity: z.number().optional().describe("New quantity"),
+                unit: z.string().optional().describe("New unit of measurement"),
+                preparation: z.string().optional().describe("New preparation notes"),
+                isOptional: z.boolean().optional().describe("Whether the ingredient is optional")
+            },
+            outputSchema: ingredientOutput
+        },
+        async ({ ingredientId, ...changes }) => {
+            try {
+                // Only send the fields the caller actually provided
+                const updates = Object.fromEntries(
+                    Object.entries(changes).filter(([_, value]) => value !== undefined)
+                );
+
+                const ingredient = await repository.updateRecipeIngredient(ingredientId, updates);
+
+                return structuredResult<typeof ingredientOutput>(
+                    { ingredient },
+                    `# Recipe Ingredient Updated\n\nThe ingredient is now ${describeIngredient(ingredient)}.`
+                );
+            } catch (error: any) {
+                console.error("Error in updateRecipeIngredient:", error);
+                return errorResult(error, "Error updating recipe ingredient");
+            }
+        }
+    );
+
+    // Remove an ingredient from a recipe
+    server.registerTool(
+        "removeRecipeIngredient",
+        {
+            description: "Remove an ingredient from a recipe",
+            inputSchema: {
+                ingredientId: z.string().describe("ID of the ingredient (from getPantryAndRecipes)")
+            },
+            outputSchema: ingredientRemovedOutput
+        },
+        async ({ ingredientId }) => {
+            try {
+                await repository.removeRecipeIngredient(ingredientId);
+
+                return structuredResult<typeof ingredientRemovedOutput>(
+                    { ingredientId, removed: true },
+                    `# Recipe Ingredient Removed\n\nRemoved ingredient ${ingredientId} from its recipe.`
+                );
+            } catch (error: any) {
+                console.error("Error in removeRecipeIngredient:", error);
+                return errorResult(error, "Error removing recipe ingredient");
+            }
+        }
+    );
+
+    // Check how ingredient text will be read before saving it on a recipe
+    server.registerTool(
+        "parseIngredientText",
+        {
+            description: "Parse free-text ingredient lines into structured ingredients (quantity, unit, name, preparation)",
+            inputSchema: {
+                text: z.string().describe("Ingredient text, one ingredient per line (e.g., '1 1/2 cups flour, sifted')")
+            },
+            outputSchema: parsedIngredientsOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async ({ text }) => {
+            try {
+                const lines = text.split('\n').filter(line => line.trim());
+
+                // Show both the raw parse and the ingredient that would be stored
+                const ingredients = lines.map(line => {
+                    const { original, ...parsed } = parseIngredientLine(line);
+                    const [storedAs] = parseIngredients(line);
+
+                    return {
+                        line: original,
+                        ...parsed,
+                        storedAs: storedAs ? {
+                            name: storedAs.name,
+                            quantity: storedAs.quantity,
+                            unit: storedAs.unit,
+                            preparation: storedAs.preparation,
+                            isOptional: storedAs.isOptional
+                        } : null
+                    };
+                });
+
+                return structuredResult<typeof parsedIngredientsOutput>(
+                    { lineCount: lines.length, ingredients },
+                    `# Parsed Ingredients\n\n${bulletList(ingredients, ingredient =>
+                        `"${ingredient.line.trim()}" → ${ingredient.storedAs ? describeIngredient(ingredient.storedAs) : "not read as an ingredient"}`,
+                        "No ingredient lines were given")}`
+                );
+            } catch (error: any) {
+                console.error("Error in parseIngredientText:", error);
+                return errorResult(error, "Error parsing ingredient text");
+            }
+        }
+    );
+
+    // Ranked meal suggestions with the reasoning behind each score
+    server.registerTool(
+        "suggestMeals",
+        {
+            description: "Suggest recipes ranked by how much of each one the pantry covers, or in use-it-up mode by how much soon-to-expire stock they consume, with missing ingredients and an explanation",
+            inputSchema: {
+                maxResults: z.number().optional().default(5).describe("Maximum number of suggestions to return"),
+                requiredTags: z.array(z.string()).optional().default([]).describe("Only suggest recipes that have all of these tags (e.g., ['Dinner', 'Easy'])"),
+                excludeTried: z.boolean().optional().default(false).describe("Leave out recipes you've already tried"),
+                excludeUntried: z.boolean().optional().default(false).describe("Leave out recipes you haven't tried yet"),
+                minMatchPercentage: z.number().min(0).max(100).optional().default(0).describe("Only suggest recipes with at least this match percentage (0-100)"),
+                mode: z.enum(["best-match", "use-it-up"]).optional().default("best-match").describe("'best-match' ranks by pantry coverage; 'use-it-up' ranks by how much expiring stock each recipe uses, weighted by days until expiry"),
+                expiringWithinDays: z.number().min(0).optional().default(7).describe("In use-it-up mode, items expiring within this many days count as expiring soon")
+            },
+            outputSchema: suggestionsOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async ({ maxResults, requiredTags, excludeTried, excludeUntried, minMatchPercentage, mode, expiringWithinDays }) => {
+            try {
+                const pantryItems = await repository.getPantryItems();
+                const suggestions = await repository.suggestMeals(pantryItems, {
+                    maxResults,
+                    requiredTags,
+                    excludeTried,
+                    excludeUntried,
+                    minMatchPercentage,
+                    mode,
+                    expiringWithinDays
+                });
+
+                const response = {
+                    count: suggestions.length,
+                    mode,
+                    filters: {
+                        requiredTags,
+                        excludeTried,
+                        excludeUntried,
+                        minMatchPercentage,
+                        ...(mode === "use-it-up" && { expiringWithinDays })
+                    },
+                    suggestions
+                };
+
+                if (suggestions.length === 0) {
+                    return structuredResult<typeof suggestionsOutput>(
+                        response,
+                        mode === "use-it-up"
+                            ? `No recipes use anything expiring in the next ${expiringWithinDays} days. Try a longer window or relaxing the filters.`
+                            : "No recipes match those filters. Try lowering the minimum match percentage or removing some required tags."
+                    );
+                }
+
+                return structuredResult<typeof suggestionsOutput>(
+                    response,
+                    `# Meal Suggestions\n\nRanked by ${mode === "use-it-up" ? "how much expiring food each recipe uses up" : "how well your pantry covers them"}:\n${bulletList(suggestions, suggestion =>
+                        `${suggestion.rank}. ${suggestion.recipe.name} (${suggestion.matchPercentage}% match) [ID ${suggestion.recipe.id}]: ${suggestion.explanation}`)}`
+                );
+            } catch (error: any) {
+                console.error("Error in suggestMeals:", error);
+                return errorResult(error, "Error suggesting meals");
+            }
+        }
+    );
+
+    // Scale a recipe to a different number of servings
+    server.registerTool(
+        "scaleRecipe",
+        {
+            description: "Scale a recipe's ingredients to a target number of servings (or by a multiplier), with amounts re-expressed in sensible units",
+            inputSchema: {
+                recipeId: z.string().describe("ID of the recipe"),
+                servings: z.number().positive().optional().describe("Number of servings to make"),
+                multiplier: z.number().positive().optional().describe("Scale by this factor instead (e.g., 2 for a double batch); use when the recipe doesn't record its servings")
+            },
+            outputSchema: scaledRecipeOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async ({ recipeId, servings, multiplier }) => {
+            try {
+                const recipeWithIngredients = await repository.getRecipeWithIngredients(recipeId);
+
+                if (!recipeWithIngredients) {
+                    return errorResult(new NotFoundError(`Recipe with ID ${recipeId} not found`));
+                }
+
+                const { recipe, ingredients } = recipeWithIngredients;
+                const scale = getScaleMultiplier(recipe, { servings, multiplier });
+                const scaledIngredients = scaleIngredients(ingredients, scale);
+
+                const response = {
+                    recipe: {
+                        id: recipe.id,
+                        name: recipe.name,
+                        notionUrl: recipe.notionUrl
+                    },
+                    originalServings: recipe.servings ?? null,
+                    servings: recipe.servings ? Math.round(recipe.servings * scale * 100) / 100 : null,
+                    multiplier: Math.round(scale * 1000) / 1000,
+                    ingredients: scaledIngredients.map((ingredient, index) => ({
+                        name: ingredient.name,
+                        quantity: ingredient.quantity,
+                        unit: ingredient.unit,
+                        preparation: ingredient.preparation,
+                        isOptional: ingredient.isOptional ?? false,
+                        original: {
+                            quantity: ingredients[index].quantity,
+                            unit: ingredients[index].unit
+                        }
+                    }))
+                };
+
+                return structuredResult<typeof scaledRecipeOutput>(
+                    response,
+                    `# Scaled Recipe\n\n${recipe.name} x${response.multiplier}${response.servings !== null ? ` (${response.servings} servings)` : ''}:\n${bulletList(response.ingredients, ingredient =>
+                        `${describeIngredient(ingredient)} (was ${formatQuantity(ingredient.original.quantity, ingredient.original.unit)})`,
+                        "This recipe has no ingredients")}`
+                );
+            } catch (error: any) {
+                console.error("Error in scaleRecipe:", error);
+                return errorResult(error, "Error scaling recipe");
+            }
+        }
+    );
+}
+
+// ====== HELPER METHODS ======
+
+function describeIngredient(ingredient: Pick<RecipeIngredient, 'id' | 'name' | 'quantity' | 'unit' | 'preparation' | 'isOptional'>): string {
+    const amount = ingredient.quantity > 0 ? `${formatQuantity(ingredient.quantity, ingredient.unit)} ` : '';
+    const details = [ingredient.preparation, ingredient.isOptional && 'optional'].filter(Boolean).join(', ');
+
+    return `${amount}${ingredient.name}${details ? ` (${details})` : ''}${ingredient.id ? ` [ID ${ingredient.id}]` : ''}`;
+}
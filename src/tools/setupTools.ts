@@ -0,0 +1,139 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { REQUIRED_DATABASES, type NotionDatabaseSetup } from "../services/databaseSetup";
+import type { SetupDiagnostics } from "../services/setupDiagnostics";
+import { ValidationError } from "../types/errors";
+import { bulletList, errorResult, structuredResult } from "./toolOutputs";
+
+const databaseNameSchema = z.enum(['pantry', 'recipes', 'shoppingList', 'recipeIngredients', 'mealPlan']);
+
+// ====== OUTPUT SCHEMAS ======
+
+const diagnosisOutput = {
+    checkedAt: z.string(),
+    backend: z.enum(['notion', 'memory', 'durable-object']),
+    status: z.enum(['healthy', 'degraded', 'unhealthy']).describe("unhealthy: at least one error; degraded: warnings only"),
+    summary: z.object({
+        error: z.number(),
+        warning: z.number(),
+        info: z.number()
+    }),
+    databases: z.array(z.object({
+        database: databaseNameSchema,
+        databaseId: z.string(),
+        title: z.string().optional(),
+        accessible: z.boolean(),
+        issues: z.array(z.object({
+            severity: z.enum(['error', 'warning', 'info']),
+            database: databaseNameSchema,
+            property: z.string().optional(),
+            problem: z.string(),
+            fix: z.string()
+        }))
+    })),
+    note: z.string().optional()
+};
+
+const databaseSetupOutput = {
+    dryRun: z.boolean(),
+    parentPageId: z.string().optional(),
+    databases: z.array(z.object({
+        database: databaseNameSchema,
+        title: z.string(),
+        status: z.enum(['created', 'updated', 'unchanged', 'failed']),
+        databaseId: z.string().optional(),
+        addedProperties: z.array(z.string()),
+        skippedProperties: z.array(z.object({
+            name: z.string(),
+            reason: z.string()
+        })),
+        conflicts: z.array(z.string()),
+        error: z.string().optional()
+    })),
+    settings: z.record(z.string()).describe("Database IDs to configure, keyed by environment variable")
+};
+
+export function registerSetupTools(
+    server: McpServer,
+    diagnostics: SetupDiagnostics,
+    databaseSetup: NotionDatabaseSetup | null
+) {
+    /**
+     * Tool: Check the Notion databases against the expected schema
+     */
+    server.registerTool(
+        "diagnoseSetup",
+        {
+            description: "Check that the Notion integration can reach each database and that their properties, types and select options match what the server expects. Use this when values come back empty or writes fail.",
+            outputSchema: diagnosisOutput,
+            annotations: { readOnlyHint: true }
+        },
+        async () => {
+            try {
+                const report = await diagnostics.diagnose();
+
+                const sections = [
+                    `# Setup Diagnosis`,
+                    `Status: ${report.status} (${report.summary.error} error(s), ${report.summary.warning} warning(s))`,
+                    ...report.databases.map(database =>
+                        `## ${database.title ?? database.database}${database.accessible ? '' : ' (not accessible)'}\n${bulletList(database.issues, issue =>
+                            `${issue.severity}: ${issue.property ? `${issue.property}: ` : ''}${issue.problem} Fix: ${issue.fix}`, "No problems found")}`)
+                ];
+
+                if (report.note) {
+                    sections.push(report.note);
+                }
+
+                return structuredResult<typeof diagnosisOutput>(report, sections.join("\n\n"));
+            } catch (error: any) {
+                console.error("Error in diagnoseSetup:", error);
+                return errorResult(error, "Error diagnosing setup");
+            }
+        }
+    );
+
+    /**
+     * Tool: Create the Notion databases or add their missing properties
+     */
+    server.registerTool(
+        "setupDatabases",
+        {
+            description: "Create any missing Notion databases under a parent page, or add missing properties to existing ones, using the server's schema. Safe to run again: databases are found by their configured ID or by title under the parent page. Returns the database IDs to configure.",
+            inputSchema: {
+                parentPageId: z.string().optional().describe("ID of the Notion page to create new databases under. The page must be shared with the integration. Not needed when every database is already configured."),
+                databases: z.array(databaseNameSchema).optional().describe(`Databases to set up. Defaults to ${REQUIRED_DATABASES.join(', ')}.`),
+                dryRun: z.boolean().optional().describe("Report what would be created or added without changing anything")
+            },
+            outputSchema: databaseSetupOutput
+        },
+        async ({ parentPageId, databases, dryRun }) => {
+            if (!databaseSetup) {
+                return errorResult(new ValidationError("This server isn't using the Notion backend, so there are no Notion databases to set up", {
+                    hint: "Set PANTRY_BACKEND=notion to keep the pantry in Notion."
+                }));
+            }
+
+            try {
+                const report = await databaseSetup.setupDatabases({ parentPageId, databases, dryRun });
+
+                const settings = Object.entries(report.settings);
+
+                return structuredResult<typeof databaseSetupOutput>(
+                    report,
+                    [
+                        `# Database Setup ${report.dryRun ? "Preview" : "Results"}`,
+                        bulletList(report.databases, database =>
+                            `${database.title}: ${database.status}${database.databaseId ? ` (${database.databaseId})` : ''}` +
+                            `${database.addedProperties.length > 0 ? `, ${report.dryRun ? 'would add' : 'added'} ${database.addedProperties.join(', ')}` : ''}` +
+                            `${database.conflicts.length > 0 ? `, conflicts: ${database.conflicts.join('; ')}` : ''}` +
+                            `${database.error ? `: ${database.error}` : ''}`),
+                        `## Settings\nSet these (or the household's Notion settings) so the server uses the databases:\n${bulletList(settings, ([variable, id]) => `${variable}=${id}`, "No database IDs to set")}`
+                    ].join("\n\n")
+                );
+            } catch (error: any) {
+                console.error("Error in setupDatabases:", error);
+                return errorResult(error, "Error setting up databases");
+            }
+        }
+    );
+}
@@ -0,0 +1,142 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
+import { NotionRateLimitedError, PantryError, toPantryError } from "../types/errors";
+
+// ====== OUTPUT SCHEMAS ======
+
+export const pantryItemSchema = z.object({
+    id: z.string(),
+    notionUrl: z.string().optional(),
+    name: z.string(),
+    quantity: z.number(),
+    unit: z.string(),
+    category: z.string(),
+    location: z.string(),
+    expiryDate: z.string().optional(),
+    notes: z.string().optional(),
+    isStaple: z.boolean(),
+    tags: z.array(z.string()).optional(),
+    minQuantity: z.number().optional(),
+    lastUpdated: z.string(),
+    createdAt: z.string()
+});
+
+export const shoppingListItemSchema = z.object({
+    id: z.string(),
+    notionUrl: z.string().optional(),
+    name: z.string(),
+    quantity: z.number(),
+    unit: z.string(),
+    category: z.string(),
+    priority: z.string(),
+    isPurchased: z.boolean(),
+    isAutoAdded: z.boolean(),
+    notes: z.string().optional(),
+    addedAt: z.string(),
+    lastUpdated: z.string()
+});
+
+export const recipeSchema = z.object({
+    id: z.string(),
+    notionUrl: z.string().optional(),
+    name: z.string(),
+    tried: z.boolean(),
+    kitchenTools: z.array(z.string()),
+    link: z.string(),
+    tags: z.array(z.string()),
+    ingredientsText: z.string().optional(),
+    servings: z.number().optional(),
+    createdAt: z.string()
+});
+
+export const recipeIngredientSchema = z.object({
+    id: z.string().optional(),
+    recipeId: z.string(),
+    name: z.string(),
+    quantity: z.number(),
+    unit: z.string(),
+    preparation: z.string().optional(),
+    isOptional: z.boolean().optional()
+});
+
+/**
+ * A pantry item's quantity before and after using some of it
+ */
+export const pantryChangeSchema = z.object({
+    name: z.string(),
+    before: z.number(),
+    after: z.number(),
+    unit: z.string().describe("The pantry item's unit (before and after are in this unit)"),
+    used: z.string().describe("Amount used, in the unit it was given in")
+});
+
+export const unitMismatchSchema = z.object({
+    name: z.string(),
+    used: z.number(),
+    usedUnit: z.string(),
+    pantryQuantity: z.number(),
+    pantryUnit: z.string(),
+    reason: z.string()
+});
+
+// ====== RESULTS ======
+
+/**
+ * The structured content a tool with this output schema returns
+ */
+export type ToolOutput<Shape extends ZodRawShape> = z.objectOutputType<Shape, ZodTypeAny>;
+
+/**
+ * A result carrying the payload for programmatic clients and a short
+ * markdown rendering of it for chat clients
+ */
+export function structuredResult<Shape extends ZodRawShape>(structuredContent: ToolOutput<Shape>, text: string): CallToolResult {
+    return {
+        content: [{ type: "text", text }],
+        structuredContent
+    };
+}
+
+/**
+ * A failed call. The text and `_meta.error` carry a machine-readable code
+ * and a hint on what to do about it. Tools with an output schema must flag
+ * errors, since only successful results are checked against the schema.
+ */
+export function errorResult(error: unknown, context?: string): CallToolResult {
+    const failure = toPantryError(error, context ?? "Unexpected error");
+
+    // Errors raised on purpose don't carry the context yet
+    const message = context && error instanceof PantryError ? `${context}: ${failure.message}` : failure.message;
+
+    return {
+        isError: true,
+        content: [{
+            type: "text",
+            text: `${message}\n\nCode: ${failure.code}${failure.notionCode ? ` (Notion: ${failure.notionCode})` : ''}\nHint: ${failure.hint}`
+        }],
+        _meta: {
+            error: {
+                code: failure.code,
+                message,
+                hint: failure.hint,
+                notionCode: failure.notionCode,
+                retryAfterSeconds: failure instanceof NotionRateLimitedError ? failure.retryAfterSeconds : undefined
+            }
+        }
+    };
+}
+
+// ====== TEXT RENDERING ======
+
+export function formatQuantity(quantity: number, unit: string): string {
+    return unit ? `${quantity} ${unit}` : String(quantity);
+}
+
+/**
+ * Markdown bullet list, or a placeholder line when there's nothing to list
+ */
+export function bulletList<T>(items: T[], render: (item: T) => string, empty: string = "None"): string {
+    return items.length > 0
+        ? items.map(item => `- ${render(item)}`).join("\n")
+        : `_${empty}_`;
+}
@@ -1,193 +1,51 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { ValidationError } from "../types/errors";
+import { convertUnit } from "../types/units";
+import { bulletList, errorResult, structuredResult, type ToolOutput } from "./toolOutputs";
+
+const conversionOutput = {
+    value: z.number(),
+    fromUnit: z.string(),
+    toUnit: z.string(),
+    ingredient: z.string().optional(),
+    convertedValue: z.number().describe("The converted amount, rounded for display")
+};
+
+const equivalentSchema = z.object({
+    from: z.string(),
+    to: z.string()
+});
+
+const equivalentsOutput = {
+    volumeEquivalents: z.array(equivalentSchema).optional(),
+    weightEquivalents: z.array(equivalentSchema).optional(),
+    ingredientEquivalents: z.array(z.object({
+        ingredient: z.string(),
+        amount: z.string(),
+        equivalents: z.string()
+    })).optional()
+};
 
 /**
  * Register unit conversion tools for cooking and recipe measurements
  */
 export function registerUnitConversionTools(server: McpServer) {
-    // Unit conversion constants
-    const unitConversions: Record<string, number> = {
-        // Volume
-        "tbsp_to_oz": 0.5,
-        "tsp_to_oz": 0.1667,
-        "cup_to_oz": 8,
-        "cup_to_ml": 236.59,
-        "oz_to_ml": 29.57,
-        "cup_to_tbsp": 16,
-        "cup_to_tsp": 48,
-        "tbsp_to_tsp": 3,
-        "pint_to_cup": 2,
-        "quart_to_cup": 4,
-        "gallon_to_cup": 16,
-        
-        // Weight
-        "pound_to_oz": 16,
-        "kg_to_pound": 2.20462,
-        "g_to_oz": 0.03527396,
-        
-        // Ingredient-specific weight conversions
-        "cup_flour_to_oz": 4.25,
-        "cup_sugar_to_oz": 7.05,
-        "cup_brown_sugar_to_oz": 7.5,
-        "cup_rice_to_oz": 6.53,  // uncooked
-        "cup_oats_to_oz": 2.65,  // dry oats
-        "cup_milk_to_oz": 8.6,
-        "cup_butter_to_oz": 8,
-        "cup_oil_to_oz": 7.63,
-        "cup_honey_to_oz": 12,
-        "cup_yogurt_to_oz": 8.6,
-        
-        // Common ingredient by tablespoon
-        "tbsp_honey_to_oz": 0.75,
-        "tbsp_oil_to_oz": 0.5,
-        "tbsp_butter_to_oz": 0.5,
-        "tbsp_flour_to_oz": 0.27,
-        "tbsp_sugar_to_oz": 0.44,
-        
-        // Common count conversions
-        "dozen_to_count": 12,
-        "half_dozen_to_count": 6,
-        
-        // Common package/container conversions
-        "stick_butter_to_oz": 4,
-        "can_to_oz": 14.5, // Standard can size
-        "package_to_oz": 16, // Common package size
-    };
-
-    /**
-     * Normalize unit names to handle common variations
-     */
-    function normalizeUnit(unit: string): string {
-        unit = unit.toLowerCase().trim();
-        
-        // Handle volume units
-        if (['tablespoon', 'tablespoons', 'tbsp', 'tbs', 'tb'].includes(unit)) return 'tbsp';
-        if (['teaspoon', 'teaspoons', 'tsp', 'ts'].includes(unit)) return 'tsp';
-        if (['cup', 'cups', 'c'].includes(unit)) return 'cup';
-        if (['fluid ounce', 'fluid oz', 'fl oz', 'fl. oz.'].includes(unit)) return 'oz';
-        if (['pint', 'pints', 'pt'].includes(unit)) return 'pint';
-        if (['quart', 'quarts', 'qt'].includes(unit)) return 'quart';
-        if (['gallon', 'gallons', 'gal'].includes(unit)) return 'gallon';
-        if (['milliliter', 'milliliters', 'ml'].includes(unit)) return 'ml';
-        if (['liter', 'liters', 'l'].includes(unit)) return 'liter';
-        
-        // Handle weight units
-        if (['ounce', 'ounces', 'oz'].includes(unit)) return 'oz';
-        if (['pound', 'pounds', 'lb', 'lbs'].includes(unit)) return 'pound';
-        if (['gram', 'grams', 'g'].includes(unit)) return 'g';
-        if (['kilogram', 'kilograms', 'kg'].includes(unit)) return 'kg';
-        
-        // Handle count units
-        if (['each', 'ea', 'count', 'ct', 'piece', 'pieces', ''].includes(unit)) return 'count';
-        if (['dozen', 'doz'].includes(unit)) return 'dozen';
-        
-        // Handle container units
-        if (['can', 'cans'].includes(unit)) return 'can';
-        if (['package', 'packages', 'pkg', 'pack'].includes(unit)) return 'package';
-        if (['bottle', 'bottles', 'btl'].includes(unit)) return 'bottle';
-        if (['box', 'boxes'].includes(unit)) return 'box';
-        if (['jar', 'jars'].includes(unit)) return 'jar';
-        if (['stick', 'sticks'].includes(unit)) return 'stick';
-        
-        // If no normalization found, return the original
-        return unit;
-    }
-
-    /**
-     * Convert between common cooking units
-     */
-    function convertUnit(value: number, fromUnit: string, toUnit: string, ingredient?: string): number | null {
-        // Normalize units to handle aliases
-        const fromUnitNorm = normalizeUnit(fromUnit);
-        const toUnitNorm = normalizeUnit(toUnit);
-        
-        // Direct conversion if units are the same
-        if (fromUnitNorm === toUnitNorm) return value;
-        
-        // Try ingredient-specific conversion first
-        if (ingredient) {
-            const ingNorm = ingredient.toLowerCase().trim();
-            const specificKey = `${fromUnitNorm}_${ingNorm}_to_oz`;
-            
-            // Special case for common ingredients with cup measurements
-            if (fromUnitNorm === 'cup' && toUnitNorm === 'oz' && unitConversions[specificKey]) {
-                return value * unitConversions[specificKey];
-            }
-            
-            // Special case for common ingredients with tablespoon measurements
-            if (fromUnitNorm === 'tbsp' && toUnitNorm === 'oz') {
-                const tbspKey = `tbsp_${ingNorm}_to_oz`;
-                if (unitConversions[tbspKey]) {
-                    return value * unitConversions[tbspKey];
-                }
-            }
-        }
-        
-        // Check if we have a direct conversion
-        const conversionKey = `${fromUnitNorm}_to_${toUnitNorm}`;
-        if (unitConversions[conversionKey]) {
-            return value * unitConversions[conversionKey];
-        }
-        
-        // Try reverse conversion
-        const reverseKey = `${toUnitNorm}_to_${fromUnitNorm}`;
-        if (unitConversions[reverseKey]) {
-            return value / unitConversions[reverseKey];
-        }
-        
-        // Multi-step conversions via intermediate units
-        
-        // Volume conversions via oz
-        if (['tbsp', 'tsp', 'cup', 'pint', 'quart', 'gallon'].includes(fromUnitNorm) && 
-            ['tbsp', 'tsp', 'cup', 'pint', 'quart', 'gallon'].includes(toUnitNorm)) {
-            // Convert to oz first, then to target unit
-            const toOzKey = `${fromUnitNorm}_to_oz`;
-            const fromOzKey = `${toUnitNorm}_to_oz`;
-            
-            if (unitConversions[toOzKey] && unitConversions[fromOzKey]) {
-                const ozValue = value * unitConversions[toOzKey];
-                return ozValue / unitConversions[fromOzKey];
-            }
-        }
-        
-        // Volume/weight via ml/g
-        if (['ml', 'liter'].includes(fromUnitNorm) && ['oz', 'cup'].includes(toUnitNorm)) {
-            const mlValue = fromUnitNorm === 'liter' ? value * 1000 : value;
-            return mlValue / unitConversions['oz_to_ml'] * (toUnitNorm === 'cup' ? (1/8) : 1);
-        }
-        
-        // Weight conversions via oz
-        if (['g', 'kg', 'pound'].includes(fromUnitNorm) && 
-            ['g', 'kg', 'pound', 'oz'].includes(toUnitNorm)) {
-            // Convert everything to oz first
-            let ozValue = value;
-            
-            if (fromUnitNorm === 'g') ozValue = value * unitConversions['g_to_oz'];
-            if (fromUnitNorm === 'kg') ozValue = value * unitConversions['kg_to_pound'] * unitConversions['pound_to_oz'];
-            if (fromUnitNorm === 'pound') ozValue = value * unitConversions['pound_to_oz'];
-            
-            // Then convert oz to target
-            if (toUnitNorm === 'g') return ozValue / unitConversions['g_to_oz'];
-            if (toUnitNorm === 'kg') return ozValue / unitConversions['pound_to_oz'] / unitConversions['kg_to_pound'];
-            if (toUnitNorm === 'pound') return ozValue / unitConversions['pound_to_oz'];
-            return ozValue; // oz
-        }
-        
-        // Cannot convert
-        return null;
-    }
-
     /**
      * Tool: Convert between cooking units and measurements
      */
-    server.tool(
+    server.registerTool(
         "convertCookingUnits",
-        "Convert between cooking units and measurements",
         {
-            value: z.number().describe("The numerical value to convert"),
-            fromUnit: z.string().describe("The source unit (e.g., 'cup', 'tbsp', 'oz')"),
-            toUnit: z.string().describe("The target unit to convert to"),
-            ingredient: z.string().optional().describe("Optional: specific ingredient for more accurate conversion (e.g., 'flour', 'sugar')")
+            description: "Convert between cooking units and measurements",
+            inputSchema: {
+                value: z.number().describe("The numerical value to convert"),
+                fromUnit: z.string().describe("The source unit (e.g., 'cup', 'tbsp', 'oz')"),
+                toUnit: z.string().describe("The target unit to convert to"),
+                ingredient: z.string().optional().describe("Optional: specific ingredient for more accurate conversion (e.g., 'flour', 'sugar')")
+            },
+            outputSchema: conversionOutput,
+            annotations: { readOnlyHint: true }
         },
         async ({ value, fromUnit, toUnit, ingredient }) => {
             try {
@@ -206,28 +64,18 @@ export function registerUnitConversionTools(server: McpServer) {
                         formattedValue = Math.round(convertedValue * 1000) / 1000;
                     }
                     
-                    return {
-                        content: [{
-                            type: "text",
-                            text: `# Unit Conversion Result\n\n${value} ${fromUnit}${ingredient ? ` of ${ingredient}` : ''} = ${formattedValue} ${toUnit}`
-                        }]
-                    };
+                    return structuredResult<typeof conversionOutput>(
+                        { value, fromUnit, toUnit, ingredient, convertedValue: formattedValue },
+                        `# Unit Conversion Result\n\n${value} ${fromUnit}${ingredient ? ` of ${ingredient}` : ''} = ${formattedValue} ${toUnit}`
+                    );
                 } else {
-                    return {
-                        content: [{
-                            type: "text",
-                            text: `Unable to convert ${value} ${fromUnit} to ${toUnit}${ingredient ? ` for ${ingredient}` : ''}. This conversion is not supported. Try using common units like cups, tablespoons, ounces, or grams.`
-                        }]
-                    };
+                    return errorResult(new ValidationError(`Unable to convert ${value} ${fromUnit} to ${toUnit}${ingredient ? ` for ${ingredient}` : ''}. This conversion is not supported.`, {
+                        hint: "Try using common units like cups, tablespoons, ounces, or grams."
+                    }));
                 }
             } catch (error: any) {
                 console.error("Error in unit conversion:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error converting units: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error converting units");
             }
         }
     );
@@ -235,12 +83,16 @@ export function registerUnitConversionTools(server: McpServer) {
     /**
      * Tool: Get common cooking equivalents
      */
-    server.tool(
+    server.registerTool(
         "getCookingEquivalents",
-        "Get common cooking unit equivalents and conversion table",
         {
-            category: z.enum(["volume", "weight", "ingredients"]).optional()
-                .describe("Optional: filter by category (volume, weight, or ingredients)")
+            description: "Get common cooking unit equivalents and conversion table",
+            inputSchema: {
+                category: z.enum(["volume", "weight", "ingredients"]).optional()
+                    .describe("Optional: filter by category (volume, weight, or ingredients)")
+            },
+            outputSchema: equivalentsOutput,
+            annotations: { readOnlyHint: true }
         },
         async ({ category }) => {
             try {
@@ -284,7 +136,7 @@ export function registerUnitConversionTools(server: McpServer) {
                 ];
                 
                 // Filter based on category if provided
-                let responseData: any = {};
+                const responseData: ToolOutput<typeof equivalentsOutput> = {};
                 
                 if (!category || category === "volume") {
                     responseData.volumeEquivalents = volumeEquivalents;
@@ -302,20 +154,26 @@ export function registerUnitConversionTools(server: McpServer) {
                     ? `# Common ${category.charAt(0).toUpperCase() + category.slice(1)} Cooking Equivalents`
                     : "# Common Cooking Equivalents";
                 
-                return {
-                    content: [{
-                        type: "text",
-                        text: `${title}\n\nUse these common conversion tables to help with your cooking and pantry management.\n\n${JSON.stringify(responseData, null, 2)}`
-                    }]
-                };
+                const sections = [title];
+                const describeEquivalent = (equivalent: { from: string; to: string }) => `${equivalent.from} = ${equivalent.to}`;
+
+                if (responseData.volumeEquivalents) {
+                    sections.push(`## Volume\n${bulletList(responseData.volumeEquivalents, describeEquivalent)}`);
+                }
+
+                if (responseData.weightEquivalents) {
+                    sections.push(`## Weight\n${bulletList(responseData.weightEquivalents, describeEquivalent)}`);
+                }
+
+                if (responseData.ingredientEquivalents) {
+                    sections.push(`## Ingredients\n${bulletList(responseData.ingredientEquivalents, equivalent =>
+                        `${equivalent.ingredient}: ${equivalent.amount} = ${equivalent.equivalents}`)}`);
+                }
+
+                return structuredResult<typeof equivalentsOutput>(responseData, sections.join("\n\n"));
             } catch (error: any) {
                 console.error("Error getting cooking equivalents:", error);
-                return {
-                    content: [{
-                        type: "text",
-                        text: `Error retrieving cooking equivalents: ${error.message}`
-                    }]
-                };
+                return errorResult(error, "Error retrieving cooking equivalents");
             }
         }
     );
@@ -0,0 +1,247 @@
+import { APIErrorCode, APIResponseError, ClientErrorCode, isNotionClientError } from '@notionhq/client';
+
+/**
+ * Machine-readable error codes returned with failed tool calls
+ */
+export type PantryErrorCode =
+    | 'NOT_FOUND'
+    | 'VALIDATION'
+    | 'NOTION_RATE_LIMITED'
+    | 'NOTION_UNAUTHORIZED'
+    | 'SCHEMA_MISMATCH'
+    | 'CONFLICT'
+    | 'INSUFFICIENT_SCOPE'
+    | 'INTERNAL';
+
+export interface PantryErrorOptions {
+    /**
+     * What the user or client can do about it
+     */
+    hint?: string;
+
+    /**
+     * The Notion API or client error code behind this error
+     */
+    notionCode?: string;
+
+    cause?: unknown;
+}
+
+/**
+ * Base class for errors the repositories and tools raise on purpose.
+ * Anything else is reported as INTERNAL.
+ */
+export class PantryError extends Error {
+    readonly code: PantryErrorCode = 'INTERNAL';
+    readonly hint: string;
+    readonly notionCode?: string;
+    readonly cause?: unknown;
+
+    constructor(message: string, options: PantryErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.hint = options.hint ?? 'Try again. If it keeps failing, check the server logs.';
+        this.notionCode = options.notionCode;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * A pantry item, recipe, ingredient or other record doesn't exist
+ */
+export class NotFoundError extends PantryError {
+    readonly code = 'NOT_FOUND';
+
+    constructor(message: string, options: PantryErrorOptions = {}) {
+        super(message, { hint: 'Check the ID. Tools that list records, such as getPantryInfo, getShoppingList and getPantryAndRecipes, show the current IDs.', ...options });
+    }
+}
+
+/**
+ * The request itself is wrong, so retrying it won't help
+ */
+export class ValidationError extends PantryError {
+    readonly code = 'VALIDATION';
+
+    constructor(message: string, options: PantryErrorOptions = {}) {
+        super(message, { hint: 'Fix the arguments and try again.', ...options });
+    }
+}
+
+export class NotionRateLimitedError extends PantryError {
+    readonly code = 'NOTION_RATE_LIMITED';
+
+    /**
+     * How long Notion asked us to wait, when it said
+     */
+    readonly retryAfterSeconds?: number;
+
+    constructor(message: string, options: PantryErrorOptions & { retryAfterSeconds?: number } = {}) {
+        super(message, {
+            hint: options.retryAfterSeconds
+                ? `Notion is rate limiting requests. Wait ${options.retryAfterSeconds} seconds and try again.`
+                : 'Notion is rate limiting requests. Wait a few seconds and try again.',
+            notionCode: APIErrorCode.RateLimited,
+            ...options
+        });
+        this.retryAfterSeconds = options.retryAfterSeconds;
+    }
+}
+
+export class NotionUnauthorizedError extends PantryError {
+    readonly code = 'NOTION_UNAUTHORIZED';
+
+    constructor(message: string, options: PantryErrorOptions = {}) {
+        super(message, {
+            hint: "Check the integration token, share the databases with the integration through their Connections menu, and give it the Read, Update and Insert content capabilities.",
+            notionCode: APIErrorCode.Unauthorized,
+            ...options
+        });
+    }
+}
+
+/**
+ * A Notion database doesn't have the properties the server reads and writes
+ */
+export class SchemaMismatchError extends PantryError {
+    readonly code = 'SCHEMA_MISMATCH';
+
+    constructor(message: string, options: PantryErrorOptions = {}) {
+        super(message, { hint: 'Run the diagnoseSetup tool to find the mismatched properties, then rename them or map them with NOTION_PROPERTY_MAP.', ...options });
+    }
+}
+
+/**
+ * The record changed underneath the request, such as two edits to the same page at once
+ */
+export class ConflictError extends PantryError {
+    readonly code = 'CONFLICT';
+
+    constructor(message: string, options: PantryErrorOptions = {}) {
+        super(message, { hint: 'The data changed while this was running. Read it again and retry.', ...options });
+    }
+}
+
+/**
+ * The OAuth grant doesn't allow the call
+ */
+export class InsufficientScopeError extends PantryError {
+    readonly code = 'INSUFFICIENT_SCOPE';
+
+    constructor(message: string, options: PantryErrorOptions = {}) {
+        super(message, { hint: 'Reconnect the client and grant write access.', ...options });
+    }
+}
+
+/**
+ * A PantryError as plain data, for passing over Workers RPC, which only
+ * keeps a thrown error's message
+ */
+export interface SerializedPantryError {
+    code: PantryErrorCode;
+    message: string;
+    hint: string;
+    notionCode?: string;
+    retryAfterSeconds?: number;
+}
+
+export function serializePantryError(error: PantryError): SerializedPantryError {
+    return {
+        code: error.code,
+        message: error.message,
+        hint: error.hint,
+        notionCode: error.notionCode,
+        retryAfterSeconds: error instanceof NotionRateLimitedError ? error.retryAfterSeconds : undefined
+    };
+}
+
+/**
+ * Rebuild the PantryError subclass for a serialized error's code
+ */
+export function deserializePantryError(error: SerializedPantryError): PantryError {
+    const options = { hint: error.hint, notionCode: error.notionCode };
+
+    switch (error.code) {
+        case 'NOT_FOUND':
+            return new NotFoundError(error.message, options);
+        case 'VALIDATION':
+            return new ValidationError(error.message, options);
+        case 'NOTION_RATE_LIMITED':
+            return new NotionRateLimitedError(error.message, { ...options, retryAfterSeconds: error.retryAfterSeconds });
+        case 'NOTION_UNAUTHORIZED':
+            return new NotionUnauthorizedError(error.message, options);
+        case 'SCHEMA_MISMATCH':
+            return new SchemaMismatchError(error.message, options);
+        case 'CONFLICT':
+            return new ConflictError(error.message, options);
+        case 'INSUFFICIENT_SCOPE':
+            return new InsufficientScopeError(error.message, options);
+        default:
+            return new PantryError(error.message, options);
+    }
+}
+
+/**
+ * Turn a caught error into a PantryError, keeping the Notion error code.
+ * PantryErrors pass through unchanged so the first, most specific one wins.
+ */
+export function toPantryError(error: unknown, message: string): PantryError {
+    if (error instanceof PantryError) {
+        return error;
+    }
+
+    const detail = `${message}: ${error instanceof Error ? error.message : String(error)}`;
+
+    if (!isNotionClientError(error)) {
+        return new PantryError(detail, { cause: error });
+    }
+
+    const options = { notionCode: error.code, cause: error };
+
+    switch (error.code) {
+        case APIErrorCode.ObjectNotFound:
+            return new NotFoundError(detail, {
+                ...options,
+                hint: "Check the ID. If it's right, share the page or database with the integration through its Connections menu."
+            });
+        case APIErrorCode.Unauthorized:
+        case APIErrorCode.RestrictedResource:
+            return new NotionUnauthorizedError(detail, options);
+        case APIErrorCode.RateLimited:
+            return new NotionRateLimitedError(detail, { ...options, retryAfterSeconds: readRetryAfter(error) });
+        case APIErrorCode.ValidationError:
+            // Notion rejects writes to properties that are missing or have another type
+            return /propert/i.test(error.message)
+                ? new SchemaMismatchError(detail, options)
+                : new ValidationError(detail, options);
+        case APIErrorCode.InvalidJSON:
+        case APIErrorCode.InvalidRequest:
+        case APIErrorCode.InvalidRequestURL:
+            return new ValidationError(detail, options);
+        case APIErrorCode.ConflictError:
+            return new ConflictError(detail, options);
+        case ClientErrorCode.RequestTimeout:
+        case APIErrorCode.InternalServerError:
+        case APIErrorCode.ServiceUnavailable:
+            return new PantryError(detail, { ...options, hint: 'Notion is unavailable or slow to respond. Try again in a minute.' });
+        default:
+            return new PantryError(detail, options);
+    }
+}
+
+function readRetryAfter(error: unknown): number | undefined {
+    if (!APIResponseError.isAPIResponseError(error)) return undefined;
+
+    const headers = error.headers as { get?: (name: string) => string | null } | undefined;
+    const seconds = Number(headers?.get?.('retry-after'));
+
+    return seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Whether Notion couldn't find a page. Other validation errors, such as a
+ * malformed ID or filter, are real failures and go through toPantryError.
+ */
+export function isMissingPage(error: unknown): boolean {
+    return isNotionClientError(error) && error.code === APIErrorCode.ObjectNotFound;
+}
@@ -0,0 +1,106 @@
+/**
+ * Pantry events that can be sent to outbound webhooks
+ */
+export const PANTRY_EVENT_TYPES = ['items.expired', 'staple.low', 'purchases.added'] as const;
+
+export type PantryEventType = typeof PANTRY_EVENT_TYPES[number];
+
+/**
+ * Payload of each event type
+ */
+export interface PantryEventData {
+    'items.expired': {
+        items: {
+            name: string;
+            quantity: number;
+            unit: string;
+            expiryDate: string;
+            daysUntilExpiry: number;
+        }[];
+    };
+    'staple.low': {
+        item: {
+            id: string;
+            name: string;
+            quantity: number;
+            minQuantity: number;
+            unit: string;
+            category: string;
+        };
+    };
+    'purchases.added': {
+        count: number;
+        items: PurchasedItemChange[];
+    };
+}
+
+/**
+ * JSON body posted to a webhook
+ */
+export interface PantryEvent<T extends PantryEventType = PantryEventType> {
+    id: string;
+    type: T;
+
+    /**
+     * Household whose pantry the event happened in
+     */
+    householdId: string;
+
+    occurredAt: string;
+    data: PantryEventData[T];
+}
+
+/**
+ * An outbound webhook and the events it receives
+ */
+export interface WebhookConfig {
+    url: string;
+
+    /**
+     * Shared secret used to sign each payload
+     */
+    secret: string;
+
+    events: PantryEventType[];
+}
+
+/**
+ * How a purchased shopping list item landed in the pantry
+ */
+export interface PurchasedItemChange {
+    name: string;
+    action: 'added' | 'updated';
+    quantity: number;
+    unit: string;
+
+    /**
+     * Pantry quantity before and after, for items that were already stocked
+     */
+    before?: number;
+    after?: number;
+}
+
+/**
+ * Receives pantry events from the service layer
+ */
+export interface PantryEventNotifier {
+    /**
+     * Whether anyone is listening for this event type
+     */
+    handles(type: PantryEventType): boolean;
+
+    notify<T extends PantryEventType>(type: T, data: PantryEventData[T]): Promise<void>;
+}
+
+/**
+ * Parts of the pantry data a write can change. Recipe ingredients count
+ * as recipes.
+ */
+export type PantryCollection = 'pantry' | 'recipes' | 'shoppingList' | 'mealPlan';
+
+/**
+ * Told whenever the service layer writes to a collection
+ */
+export interface PantryChangeListener {
+    changed(collection: PantryCollection): void;
+}
@@ -0,0 +1,89 @@
+import type { WebhookConfig } from './events';
+import type { NotionDatabaseName, NotionPropertyMapOverrides } from './notionPropertyMap';
+
+/**
+ * Notion token and database IDs a household's pantry lives in
+ */
+export interface NotionCredentials {
+    token: string;
+    pantryDb: string;
+    recipesDb: string;
+    shoppingListDb: string;
+    recipeIngredientsDb?: string;
+    mealPlanDb?: string;
+
+    /**
+     * Property names that differ from the defaults
+     */
+    propertyMap?: NotionPropertyMapOverrides;
+}
+
+/**
+ * Where each database's ID is configured: the variable for the default
+ * household and the credentials field for registered ones
+ */
+export const NOTION_DATABASE_SETTINGS: Record<NotionDatabaseName, { variable: string; credential: keyof NotionCredentials }> = {
+    pantry: { variable: 'NOTION_PANTRY_DB', credential: 'pantryDb' },
+    recipes: { variable: 'NOTION_RECIPES_DB', credential: 'recipesDb' },
+    shoppingList: { variable: 'NOTION_SHOPPING_LIST_DB', credential: 'shoppingListDb' },
+    recipeIngredients: { variable: 'NOTION_RECIPE_INGREDIENTS_DB', credential: 'recipeIngredientsDb' },
+    mealPlan: { variable: 'NOTION_MEAL_PLAN_DB', credential: 'mealPlanDb' }
+};
+
+/**
+ * A tenant of the server: one household with its own Notion workspace
+ */
+export interface Household {
+    /**
+     * Identifier the household signs in with (lowercase letters, digits and dashes)
+     */
+    id: string;
+
+    name: string;
+
+    notion: NotionCredentials;
+
+    /**
+     * Where the household's pantry events are sent
+     */
+    webhooks?: WebhookConfig[];
+
+    /**
+     * PBKDF2 hash and salt (hex) of the password used to approve MCP clients
+     */
+    passwordHash: string;
+    passwordSalt: string;
+
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A household as shown to admins, without secrets
+ */
+export interface HouseholdSummary {
+    id: string;
+    name: string;
+    databases: Omit<NotionCredentials, 'token'>;
+    webhooks: Omit<WebhookConfig, 'secret'>[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Household IDs: lowercase letters, digits and dashes
+ */
+export const HOUSEHOLD_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export function toHouseholdSummary(household: Household): HouseholdSummary {
+    const { token: _token, ...databases } = household.notion;
+
+    return {
+        id: household.id,
+        name: household.name,
+        databases,
+        webhooks: (household.webhooks ?? []).map(({ url, events }) => ({ url, events })),
+        createdAt: household.createdAt,
+        updatedAt: household.updatedAt
+    };
+}
@@ -1,7 +1,13 @@
 export * from './notion';
+export * from './notionPropertyMap';
 export * from './pantry';
 export * from './recipe';
 export * from './recipeIngredients';
+export * from './ingredientParser';
+export * from './mealPlan';
 export * from './shoppingList';
 export * from './notionSchema';
-export * from './utils';
\ No newline at end of file
+export * from './units';
+export * from './utils';
+export * from './events';
+export * from './household';export * from './errors';
@@ -0,0 +1,240 @@
+import { normalizeUnit, UNIT_ALIASES } from './units';
+
+/**
+ * Everything the parser could read from a single ingredient line
+ */
+export interface ParsedIngredientLine {
+    /**
+     * The line as it was given
+     */
+    original: string;
+
+    /**
+     * Ingredient name with amounts, units and notes removed
+     */
+    name: string;
+
+    /**
+     * Amount needed (the lower bound for ranges, 0 when no amount is given)
+     */
+    quantity: number;
+
+    /**
+     * Upper bound when the line gives a range (e.g., "2-3 cloves")
+     */
+    quantityMax?: number;
+
+    /**
+     * Unit normalized through normalizeUnit ('' when no amount is given)
+     */
+    unit: string;
+
+    /**
+     * Size of each package for lines like "1 (14 oz) can tomatoes"
+     */
+    packageSize?: {
+        quantity: number;
+        unit: string;
+    };
+
+    /**
+     * Preparation notes taken from text after a comma or in parentheses
+     */
+    preparation?: string;
+
+    /**
+     * Marked "optional"
+     */
+    isOptional: boolean;
+
+    /**
+     * Marked "to taste" (no fixed amount)
+     */
+    toTaste: boolean;
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+    '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4',
+    '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5', '⅙': '1/6',
+    '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8'
+};
+
+// "1 1/2", "1/2", "1.5" or ".5"
+const NUMBER_PATTERN = String.raw`(?:\d+\s+\d+\/\d+|\d+\/\d+|\d*\.\d+|\d+)`;
+
+const QUANTITY_REGEX = new RegExp(String.raw`^(${NUMBER_PATTERN})(?:\s*(?:-|–|to)\s*(${NUMBER_PATTERN}))?\s*`, 'i');
+const ARTICLE_REGEX = /^an?\s+/i;
+const OF_REGEX = /^\s*of\s+/i;
+const OPTIONAL_REGEX = /\(\s*optional\s*\)|^optional:?\s+/i;
+const TO_TASTE_REGEX = /,?\s*\bto taste\b/i;
+
+// Longest aliases first so "fl oz" wins over "fl" and "ounces" over "oz"
+const UNIT_ALIAS_LIST = Object.values(UNIT_ALIASES)
+    .flat()
+    .filter(alias => alias.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+// Recipe shorthand where the case picks the unit ("2 T sugar", "1 t salt")
+const CASE_SENSITIVE_UNITS: Record<string, string> = {
+    T: 'tbsp',
+    t: 'tsp'
+};
+
+/**
+ * Parse one line of free-text ingredients, e.g.
+ * "1 1/2 cups flour, sifted" or "1 (14 oz) can diced tomatoes"
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+    const original = line;
+    let text = replaceUnicodeFractions(line)
+        .replace(/^\s*[-*•]\s*/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    let isOptional = false;
+    if (OPTIONAL_REGEX.test(text)) {
+        isOptional = true;
+        text = text.replace(OPTIONAL_REGEX, ' ').trim();
+    }
+
+    let toTaste = false;
+    if (TO_TASTE_REGEX.test(text)) {
+        toTaste = true;
+        text = text.replace(TO_TASTE_REGEX, '').trim();
+    }
+
+    // Amount: a number, a range or a leading "a"/"an"
+    let quantity = 0;
+    let quantityMax: number | undefined;
+    let hasAmount = false;
+
+    const quantityMatch = text.match(QUANTITY_REGEX);
+    if (quantityMatch) {
+        quantity = parseNumber(quantityMatch[1]);
+        quantityMax = quantityMatch[2] ? parseNumber(quantityMatch[2]) : undefined;
+        hasAmount = true;
+        text = text.slice(quantityMatch[0].length);
+    } else if (ARTICLE_REGEX.test(text)) {
+        const afterArticle = text.replace(ARTICLE_REGEX, '');
+        // Only treat the article as "1" when a unit follows ("a pinch of salt")
+        if (matchUnit(afterArticle)) {
+            quantity = 1;
+            hasAmount = true;
+            text = afterArticle;
+        }
+    } else {
+        // A bare unit followed by "of" is one of it ("Pinch of salt")
+        const unitMatch = matchUnit(text);
+        if (unitMatch && OF_REGEX.test(text.slice(unitMatch.length))) {
+            quantity = 1;
+            hasAmount = true;
+        }
+    }
+
+    // Package size: "1 (14 oz) can ..."
+    let packageSize: ParsedIngredientLine['packageSize'];
+    if (hasAmount) {
+        const packageMatch = text.match(new RegExp(String.raw`^\(\s*(${NUMBER_PATTERN})\s*-?\s*([^)]+?)\s*\)\s*`));
+        if (packageMatch && matchUnit(packageMatch[2])) {
+            packageSize = {
+                quantity: parseNumber(packageMatch[1]),
+                unit: normalizeUnit(matchUnit(packageMatch[2])!.alias)
+            };
+            text = text.slice(packageMatch[0].length);
+        }
+    }
+
+    // Unit, then an optional "of"
+    let unit = '';
+    if (hasAmount) {
+        const unitMatch = matchUnit(text);
+        unit = normalizeUnit(unitMatch ? unitMatch.alias : 'count');
+        if (unitMatch) {
+            text = text.slice(unitMatch.length).replace(OF_REGEX, '');
+        }
+    }
+
+    // Remaining parentheses and anything after the first comma are preparation notes
+    const notes: string[] = [];
+    text = text.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+        notes.push(inner);
+        return ' ';
+    });
+
+    const commaIndex = text.indexOf(',');
+    if (commaIndex !== -1) {
+        notes.unshift(text.slice(commaIndex + 1));
+        text = text.slice(0, commaIndex);
+    }
+
+    const preparationParts = notes
+        .flatMap(note => note.split(','))
+        .map(note => note.trim())
+        .filter(note => {
+            if (note.toLowerCase() === 'optional') {
+                isOptional = true;
+                return false;
+            }
+            return note.length > 0;
+        });
+
+    return {
+        original,
+        name: text.replace(/\s+/g, ' ').trim(),
+        quantity,
+        quantityMax,
+        unit,
+        packageSize,
+        preparation: preparationParts.length > 0 ? preparationParts.join(', ') : undefined,
+        isOptional,
+        toTaste
+    };
+}
+
+/**
+ * Format a quantity the way the parser reads it back (no floating point noise)
+ */
+export function formatQuantity(quantity: number): string {
+    return String(Math.round(quantity * 1000) / 1000);
+}
+
+// Turn "1½" into "1 1/2" so the number pattern can read it
+function replaceUnicodeFractions(text: string): string {
+    return text.replace(/(\d)?([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string | undefined, fraction: string) =>
+        `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`);
+}
+
+function parseNumber(value: string): number {
+    return value.trim().split(/\s+/).reduce((total, part) => {
+        if (part.includes('/')) {
+            const [numerator, denominator] = part.split('/').map(Number);
+            return denominator ? total + numerator / denominator : total;
+        }
+        return total + Number(part);
+    }, 0);
+}
+
+// Match a known unit alias at the start of the text (allowing a trailing period)
+function matchUnit(text: string): { alias: string; length: number } | null {
+    const lower = text.toLowerCase();
+
+    for (const alias of UNIT_ALIAS_LIST) {
+        if (!lower.startsWith(alias)) continue;
+
+        let length = alias.length;
+        if (lower[length] === '.') length++;
+
+        // The alias has to be a whole word ("c" must not match "carrots")
+        const next = lower[length];
+        if (next === undefined || next === ' ') {
+            return { alias, length };
+        }
+    }
+
+    const shorthand = text.match(/^([Tt])\.?(?= |$)/);
+    if (shorthand) {
+        return { alias: CASE_SENSITIVE_UNITS[shorthand[1]], length: shorthand[0].length };
+    }
+
+    return null;
+}
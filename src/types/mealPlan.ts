@@ -0,0 +1,164 @@
+import {
+    DEFAULT_NOTION_PROPERTY_MAP,
+    readListProperty,
+    readNumberProperty,
+    readTextProperty,
+    toNotionProperties,
+    type NotionPropertyMap
+} from './notionPropertyMap';
+
+/**
+ * Meals a recipe can be planned for
+ */
+export const MEAL_TYPES = ['Breakfast', 'Lunch', 'Dinner', 'Snack'] as const;
+
+export type MealType = typeof MEAL_TYPES[number];
+
+/**
+ * A recipe assigned to a day and meal
+ */
+export interface MealPlanEntry {
+    /**
+     * Unique identifier from storage (the Notion page ID for the Notion backend)
+     */
+    id: string;
+
+    /**
+     * Url for the Notion page
+     */
+    notionUrl?: string;
+
+    /**
+     * Day the meal is planned for, as YYYY-MM-DD (maps to Notion "Date" date property)
+     */
+    date: string;
+
+    /**
+     * Which meal of the day (maps to Notion "Meal" select property)
+     */
+    meal: MealType;
+
+    /**
+     * Planned recipe (maps to Notion "Recipe" relation property)
+     */
+    recipeId: string;
+
+    /**
+     * Recipe name at the time it was planned (maps to Notion "Name" title property)
+     */
+    recipeName: string;
+
+    /**
+     * Servings to cook, when different from the recipe's own (maps to Notion "Servings" number property)
+     */
+    servings?: number;
+
+    /**
+     * Free-form notes (maps to Notion "Notes" rich text property)
+     */
+    notes?: string;
+
+    /**
+     * When the entry was created
+     */
+    createdAt: string;
+}
+
+/**
+ * Combined amount of one ingredient needed across a meal plan, netted
+ * against the pantry
+ */
+export interface MealPlanIngredientNeed {
+    name: string;
+
+    /**
+     * Total needed across every planned meal, in `unit`
+     */
+    need: number;
+
+    /**
+     * Amount on hand, in `unit` (0 when the pantry doesn't have it)
+     */
+    have: number;
+
+    /**
+     * Amount already waiting on the shopping list, in `unit`
+     */
+    onShoppingList: number;
+
+    /**
+     * What still has to be bought on top of the pantry and the shopping list, in `unit`
+     */
+    shortfall: number;
+
+    unit: string;
+
+    /**
+     * Names of the planned recipes that use this ingredient
+     */
+    recipes: string[];
+}
+
+/**
+ * Everything a meal plan needs, and what's missing from the pantry
+ */
+export interface MealPlanNeeds {
+    startDate: string;
+    endDate: string;
+    entries: MealPlanEntry[];
+    ingredients: MealPlanIngredientNeed[];
+
+    /**
+     * Ingredients whose recipe units can't be compared with the pantry
+     * item's unit. They are reported, not added to the shopping list.
+     */
+    unitMismatches: {
+        name: string;
+        need: number;
+        unit: string;
+        pantryQuantity: number;
+        pantryUnit: string;
+        recipes: string[];
+    }[];
+
+    /**
+     * Planned recipes that no longer exist
+     */
+    missingRecipes: string[];
+}
+
+/**
+ * Convert a Notion page from the Meal Plan database to a MealPlanEntry
+ */
+export function notionPageToMealPlanEntry(
+    page: any,
+    properties: NotionPropertyMap['mealPlan'] = DEFAULT_NOTION_PROPERTY_MAP.mealPlan
+): MealPlanEntry {
+    return {
+        id: page.id,
+        date: readTextProperty(page, properties.date) || '',
+        meal: (readTextProperty(page, properties.meal) || 'Dinner') as MealType,
+        recipeId: readListProperty(page, properties.recipeId)[0] || '',
+        recipeName: readTextProperty(page, properties.recipeName) || '',
+        servings: readNumberProperty(page, properties.servings),
+        notes: readTextProperty(page, properties.notes),
+        createdAt: page.created_time
+    };
+}
+
+/**
+ * Convert a MealPlanEntry to Notion properties for the Meal Plan database
+ */
+export function mealPlanEntryToNotionProperties(
+    entry: Partial<MealPlanEntry>,
+    properties: NotionPropertyMap['mealPlan'] = DEFAULT_NOTION_PROPERTY_MAP.mealPlan
+): any {
+    return toNotionProperties(properties, {
+        recipeName: entry.recipeName,
+        date: entry.date,
+        meal: entry.meal,
+        recipeId: entry.recipeId,
+        servings: entry.servings,
+        notes: entry.notes
+    });
+}
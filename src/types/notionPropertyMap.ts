@@ -0,0 +1,266 @@
+import type { NotionPropertyType } from './notion';
+
+/**
+ * Where a field lives in a Notion database: the property's name and type
+ */
+export interface NotionPropertyMapping {
+    name: string;
+    type: NotionPropertyType;
+}
+
+/**
+ * Property names and types as the setup script creates them. Each
+ * database maps our field names to the Notion property that stores them.
+ */
+export const DEFAULT_NOTION_PROPERTY_MAP = {
+    pantry: {
+        name: { name: 'Name', type: 'title' },
+        quantity: { name: 'Quantity', type: 'number' },
+        unit: { name: 'Unit', type: 'select' },
+        category: { name: 'Category', type: 'select' },
+        location: { name: 'Location', type: 'select' },
+        expiryDate: { name: 'Expiry', type: 'date' },
+        notes: { name: 'Notes', type: 'rich_text' },
+        isStaple: { name: 'Staple', type: 'checkbox' },
+        tags: { name: 'Tags', type: 'multi_select' },
+        minQuantity: { name: 'MinQuantity', type: 'number' }
+    },
+    recipes: {
+        name: { name: 'Name', type: 'title' },
+        tried: { name: 'Tried?', type: 'checkbox' },
+        kitchenTools: { name: 'Kitchen Tools', type: 'relation' },
+        link: { name: 'Link', type: 'url' },
+        tags: { name: 'Tags', type: 'multi_select' },
+        ingredientsText: { name: 'Ingredients', type: 'rich_text' },
+        servings: { name: 'Servings', type: 'number' },
+        createdAt: { name: 'Created On', type: 'created_time' }
+    },
+    shoppingList: {
+        name: { name: 'Name', type: 'title' },
+        quantity: { name: 'Quantity', type: 'number' },
+        unit: { name: 'Unit', type: 'select' },
+        category: { name: 'Category', type: 'select' },
+        priority: { name: 'Priority', type: 'select' },
+        isPurchased: { name: 'Purchased', type: 'checkbox' },
+        isAutoAdded: { name: 'AutoAdded', type: 'checkbox' },
+        notes: { name: 'Notes', type: 'rich_text' }
+    },
+    recipeIngredients: {
+        recipeId: { name: 'Recipe', type: 'relation' },
+        name: { name: 'Name', type: 'title' },
+        quantity: { name: 'Quantity', type: 'number' },
+        unit: { name: 'Unit', type: 'select' },
+        preparation: { name: 'Preparation', type: 'rich_text' },
+        isOptional: { name: 'Optional', type: 'checkbox' }
+    },
+    mealPlan: {
+        recipeName: { name: 'Name', type: 'title' },
+        date: { name: 'Date', type: 'date' },
+        meal: { name: 'Meal', type: 'select' },
+        recipeId: { name: 'Recipe', type: 'relation' },
+        servings: { name: 'Servings', type: 'number' },
+        notes: { name: 'Notes', type: 'rich_text' }
+    }
+} satisfies Record<string, Record<string, NotionPropertyMapping>>;
+
+type DefaultPropertyMap = typeof DEFAULT_NOTION_PROPERTY_MAP;
+
+export type NotionDatabaseName = keyof DefaultPropertyMap;
+
+/**
+ * Property mappings for every database
+ */
+export type NotionPropertyMap = {
+    [Database in NotionDatabaseName]: Record<keyof DefaultPropertyMap[Database], NotionPropertyMapping>;
+};
+
+/**
+ * Partial overrides of the default map. A string renames the property and
+ * keeps its type; an object can change the type as well.
+ */
+export type NotionPropertyMapOverrides = {
+    [Database in NotionDatabaseName]?: Partial<Record<keyof DefaultPropertyMap[Database], string | NotionPropertyMapping>>;
+};
+
+// Types we know how to read a field from
+export const MAPPABLE_PROPERTY_TYPES: NotionPropertyType[] = [
+    'title', 'rich_text', 'number', 'select', 'multi_select', 'date',
+    'checkbox', 'url', 'email', 'phone_number', 'relation', 'created_time'
+];
+
+// Types Notion computes itself, so they're never written
+const READ_ONLY_TYPES: NotionPropertyType[] = ['created_time', 'last_edited_time', 'formula', 'rollup'];
+
+// Notion limits each rich text segment to 2000 characters
+const MAX_RICH_TEXT_LENGTH = 2000;
+
+/**
+ * Merge overrides into the default map, rejecting unknown databases,
+ * fields and property types
+ */
+export function resolveNotionPropertyMap(overrides?: NotionPropertyMapOverrides): NotionPropertyMap {
+    if (!overrides) return DEFAULT_NOTION_PROPERTY_MAP;
+
+    const map = Object.fromEntries(
+        Object.entries(DEFAULT_NOTION_PROPERTY_MAP).map(([database, fields]) => [database, { ...fields }])
+    ) as Record<string, Record<string, NotionPropertyMapping>>;
+
+    for (const [database, fields] of Object.entries(overrides)) {
+        if (!map[database]) {
+            throw new Error(`Unknown database "${database}" in the property map. Expected one of: ${Object.keys(map).join(', ')}`);
+        }
+
+        for (const [field, override] of Object.entries(fields ?? {})) {
+            const current = map[database][field];
+            if (!current) {
+                throw new Error(`Unknown field "${field}" for the ${database} database. Expected one of: ${Object.keys(map[database]).join(', ')}`);
+            }
+
+            const mapping = typeof override === 'string' ? { ...current, name: override } : override;
+            if (!mapping?.name || !MAPPABLE_PROPERTY_TYPES.includes(mapping.type)) {
+                throw new Error(`Invalid mapping for ${database}.${field}: expected a property name or { name, type } with type one of ${MAPPABLE_PROPERTY_TYPES.join(', ')}`);
+            }
+
+            map[database][field] = { name: mapping.name, type: mapping.type };
+        }
+    }
+
+    return map as NotionPropertyMap;
+}
+
+/**
+ * Read the NOTION_PROPERTY_MAP setting: a JSON object of overrides, e.g.
+ * {"pantry": {"expiryDate": "Best Before", "location": {"name": "Shelf", "type": "rich_text"}}}
+ */
+export function parseNotionPropertyMap(value: string | undefined): NotionPropertyMapOverrides | undefined {
+    if (!value) return undefined;
+
+    try {
+        return JSON.parse(value);
+    } catch {
+        throw new Error("NOTION_PROPERTY_MAP must be a JSON object keyed by database");
+    }
+}
+
+// ====== READING ======
+
+/**
+ * A field's value as text, or undefined when it's empty
+ */
+export function readTextProperty(page: any, mapping: NotionPropertyMapping): string | undefined {
+    const property = page.properties?.[mapping.name];
+
+    switch (mapping.type) {
+        case 'title':
+        case 'rich_text':
+            return property?.[mapping.type]?.map((rt: any) => rt.plain_text).join('') || undefined;
+        case 'select':
+            return property?.select?.name || undefined;
+        case 'multi_select':
+            return property?.multi_select?.map((option: any) => option.name).join(', ') || undefined;
+        case 'date':
+            return property?.date?.start || undefined;
+        case 'number':
+            return property?.number?.toString();
+        case 'url':
+        case 'email':
+        case 'phone_number':
+        case 'created_time':
+            return property?.[mapping.type] || undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * A field's value as a number, or undefined when it's empty or not numeric
+ */
+export function readNumberProperty(page: any, mapping: NotionPropertyMapping): number | undefined {
+    if (mapping.type === 'number') {
+        return page.properties?.[mapping.name]?.number ?? undefined;
+    }
+
+    const value = parseFloat(readTextProperty(page, mapping) ?? '');
+    return isNaN(value) ? undefined : value;
+}
+
+export function readBooleanProperty(page: any, mapping: NotionPropertyMapping): boolean {
+    if (mapping.type === 'checkbox') {
+        return page.properties?.[mapping.name]?.checkbox || false;
+    }
+
+    return ['yes', 'true'].includes(readTextProperty(page, mapping)?.toLowerCase() ?? '');
+}
+
+/**
+ * A field's values as a list: option names, related page IDs or comma-separated text
+ */
+export function readListProperty(page: any, mapping: NotionPropertyMapping): string[] {
+    const property = page.properties?.[mapping.name];
+
+    switch (mapping.type) {
+        case 'multi_select':
+            return property?.multi_select?.map((option: any) => option.name) || [];
+        case 'relation':
+            return property?.relation?.map((rel: any) => rel.id) || [];
+        default:
+            return readTextProperty(page, mapping)?.split(',').map(value => value.trim()).filter(Boolean) ?? [];
+    }
+}
+
+// ====== WRITING ======
+
+/**
+ * Notion property values for every field that is set. Fields left
+ * undefined are skipped, as are properties Notion computes itself.
+ */
+export function toNotionProperties<Field extends string>(
+    mappings: Record<Field, NotionPropertyMapping>,
+    values: Partial<Record<Field, unknown>>
+): any {
+    const properties: any = {};
+
+    for (const field of Object.keys(values) as Field[]) {
+        const value = values[field];
+        const mapping = mappings[field];
+
+        if (value === undefined || READ_ONLY_TYPES.includes(mapping.type)) continue;
+
+        properties[mapping.name] = toNotionPropertyValue(mapping.type, value);
+    }
+
+    return properties;
+}
+
+function toNotionPropertyValue(type: NotionPropertyType, value: unknown): any {
+    const values = Array.isArray(value) ? value.map(String) : [];
+    const text = Array.isArray(value) ? values.join(', ') : value === null ? '' : String(value);
+
+    switch (type) {
+        case 'title':
+            return { title: [{ text: { content: text } }] };
+        case 'rich_text':
+            return {
+                rich_text: (text.match(new RegExp(`[\\s\\S]{1,${MAX_RICH_TEXT_LENGTH}}`, 'g')) || []).map(content => ({
+                    text: {
+                        content
+                    }
+                }))
+            };
+        case 'number':
+            return { number: typeof value === 'number' ? value : text ? Number(text) : null };
+        case 'select':
+            return { select: text ? { name: text } : null };
+        case 'multi_select':
+            return { multi_select: (Array.isArray(value) ? values : text.split(',')).map(name => name.trim()).filter(Boolean).map(name => ({ name })) };
+        case 'checkbox':
+            return { checkbox: Boolean(value) };
+        case 'date':
+            return { date: text ? { start: text } : null };
+        case 'relation':
+            return { relation: (Array.isArray(value) ? values : text ? [text] : []).map(id => ({ id })) };
+        default:
+            // url, email and phone_number take a plain string
+            return { [type]: text || null };
+    }
+}
@@ -1,3 +1,10 @@
+import {
+    DEFAULT_NOTION_PROPERTY_MAP,
+    type NotionDatabaseName,
+    type NotionPropertyMap
+} from './notionPropertyMap';
+import type { NotionPropertyType } from './notion';
+
 /**
  * Definition of our Notion Pantry Database schema
  * This helps document the expected structure and property types
@@ -135,6 +142,78 @@ export const RECIPES_DATABASE_SCHEMA = {
     }
 };
 
+/**
+ * Definition of our Notion Recipe Ingredients Database schema
+ * Each row is one ingredient, related back to its recipe
+ */
+export const RECIPE_INGREDIENTS_DATABASE_SCHEMA = {
+    Name: {
+        type: 'title',
+        description: 'The name of the ingredient (should match pantry item names when possible)'
+    },
+    Recipe: {
+        type: 'relation',
+        description: 'The recipe this ingredient belongs to'
+    },
+    Quantity: {
+        type: 'number',
+        description: 'The quantity needed for the recipe',
+        format: 'number'
+    },
+    Unit: {
+        type: 'select',
+        description: 'The unit of measurement',
+        options: [
+            'count', 'oz', 'pounds', 'grams', 'kilograms',
+            'cups', 'tablespoons', 'teaspoons',
+            'milliliters', 'liters', 'gallons', 'quarts',
+            'slices', 'loaf', 'bunch', 'bulb', 'head',
+            'can', 'box', 'package', 'bottle'
+        ]
+    },
+    Preparation: {
+        type: 'rich_text',
+        description: 'Preparation notes (e.g., "finely chopped")'
+    },
+    Optional: {
+        type: 'checkbox',
+        description: 'Whether the ingredient is optional'
+    }
+};
+
+/**
+ * Definition of the optional Notion Meal Plan Database schema
+ * Each row assigns one recipe to a day and meal
+ */
+export const MEAL_PLAN_DATABASE_SCHEMA = {
+    Name: {
+        type: 'title',
+        description: 'The name of the planned recipe'
+    },
+    Date: {
+        type: 'date',
+        description: 'The day the meal is planned for'
+    },
+    Meal: {
+        type: 'select',
+        description: 'Which meal of the day',
+        options: ['Breakfast', 'Lunch', 'Dinner', 'Snack']
+    },
+    Recipe: {
+        type: 'relation',
+        description: 'The recipe to cook'
+    },
+    Servings: {
+        type: 'number',
+        description: 'Servings to cook, if different from the recipe',
+        format: 'number'
+    },
+    Notes: {
+        type: 'rich_text',
+        description: 'Notes about the meal'
+    }
+};
+
 /**
  * Definition of our Notion Shopping List Database schema
  * This helps document the expected structure and property types
@@ -187,4 +266,78 @@ export const SHOPPING_LIST_DATABASE_SCHEMA = {
         type: 'rich_text',
         description: 'Additional notes about the purchase'
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Shape shared by every entry in the *_DATABASE_SCHEMA constants
+ */
+export interface NotionSchemaProperty {
+    type: string;
+    description: string;
+    options?: string[];
+    format?: string;
+    formula?: string;
+}
+
+export const NOTION_DATABASE_SCHEMAS: Record<NotionDatabaseName, Record<string, NotionSchemaProperty>> = {
+    pantry: PANTRY_DATABASE_SCHEMA,
+    recipes: RECIPES_DATABASE_SCHEMA,
+    shoppingList: SHOPPING_LIST_DATABASE_SCHEMA,
+    recipeIngredients: RECIPE_INGREDIENTS_DATABASE_SCHEMA,
+    mealPlan: MEAL_PLAN_DATABASE_SCHEMA
+};
+
+export const NOTION_DATABASE_TITLES: Record<NotionDatabaseName, string> = {
+    pantry: 'Pantry',
+    recipes: 'Recipes',
+    shoppingList: 'Shopping List',
+    recipeIngredients: 'Recipe Ingredients',
+    mealPlan: 'Meal Plan'
+};
+
+// Fields the server reads that a database can do without
+const OPTIONAL_FIELDS: Partial<Record<NotionDatabaseName, string[]>> = {
+    recipes: ['kitchenTools', 'servings']
+};
+
+/**
+ * A property a database should have. `field` is set for the properties the
+ * server reads; the rest of the documented schema is never required.
+ */
+export interface ExpectedNotionProperty extends Omit<NotionSchemaProperty, 'type' | 'description'> {
+    name: string;
+    type: NotionPropertyType;
+    field?: string;
+    required: boolean;
+    description?: string;
+}
+
+/**
+ * Every property a database should have under the given property map: the
+ * mapped fields, plus the documented properties no field maps to
+ */
+export function getExpectedProperties(database: NotionDatabaseName, propertyMap: NotionPropertyMap): ExpectedNotionProperty[] {
+    const schema = NOTION_DATABASE_SCHEMAS[database];
+    const mappings = propertyMap[database] as Record<string, { name: string; type: NotionPropertyType }>;
+    const defaults = DEFAULT_NOTION_PROPERTY_MAP[database] as Record<string, { name: string }>;
+
+    const required = Object.entries(mappings).map(([field, mapping]) => {
+        const documented = schema[defaults[field].name];
+
+        return {
+            // Options and formats only carry over while the type is unchanged
+            ...(documented?.type === mapping.type ? documented : {}),
+            name: mapping.name,
+            type: mapping.type,
+            field,
+            required: !OPTIONAL_FIELDS[database]?.includes(field)
+        };
+    });
+
+    const mappedDefaults = new Set(Object.values(defaults).map(mapping => mapping.name));
+    const optional = Object.entries(schema)
+        .filter(([name]) => !mappedDefaults.has(name))
+        .map(([name, property]) => ({ ...property, name, type: property.type as NotionPropertyType, required: false }));
+
+    return [...required, ...optional];
+}
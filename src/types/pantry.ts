@@ -1,4 +1,12 @@
-import type { NotionPageObject } from './notion';
+import {
+    DEFAULT_NOTION_PROPERTY_MAP,
+    readBooleanProperty,
+    readListProperty,
+    readNumberProperty,
+    readTextProperty,
+    toNotionProperties,
+    type NotionPropertyMap
+} from './notionPropertyMap';
 
 /**
  * PantryItem interface representing an item in the pantry
@@ -57,56 +65,46 @@ export interface PantryItem {
 }
 
 /**
- * Helper function to convert a Notion page to a PantryItem
- * This will be used when integrating with the actual Notion API
+ * Convert a Notion page to a PantryItem
  */
-export function notionPageToPantryItem(page: NotionPageObject): PantryItem {
-    // Extract the properties from the Notion page
-    const properties = page.properties;
-
-    // Map Notion properties to our PantryItem interface
+export function notionPageToPantryItem(
+    page: any,
+    properties: NotionPropertyMap['pantry'] = DEFAULT_NOTION_PROPERTY_MAP.pantry
+): PantryItem {
     return {
         id: page.id,
-        name: extractTitle(properties.Name),
-        quantity: extractNumber(properties.Quantity),
-        unit: extractSelect(properties.Unit),
-        category: extractSelect(properties.Category),
-        location: extractSelect(properties.Location),
-        expiryDate: extractDate(properties.Expiry),
-        notes: extractRichText(properties.Notes),
-        isStaple: extractCheckbox(properties.Staple),
-        tags: extractMultiSelect(properties.Tags),
-        minQuantity: extractNumber(properties.MinQuantity),
+        name: readTextProperty(page, properties.name) || '',
+        quantity: readNumberProperty(page, properties.quantity) || 0,
+        unit: readTextProperty(page, properties.unit) || '',
+        category: readTextProperty(page, properties.category) || '',
+        location: readTextProperty(page, properties.location) || '',
+        expiryDate: readTextProperty(page, properties.expiryDate),
+        notes: readTextProperty(page, properties.notes) || '',
+        isStaple: readBooleanProperty(page, properties.isStaple),
+        tags: readListProperty(page, properties.tags),
+        minQuantity: readNumberProperty(page, properties.minQuantity),
         lastUpdated: page.last_edited_time,
         createdAt: page.created_time
     };
 }
 
-// Helper functions for extracting values from Notion properties
-function extractTitle(property: any): string {
-    return property?.title?.[0]?.plain_text || '';
-}
-
-function extractRichText(property: any): string {
-    return property?.rich_text?.map((rt: any) => rt.plain_text).join('') || '';
-}
-
-function extractNumber(property: any): number {
-    return property?.number || 0;
-}
-
-function extractSelect(property: any): string {
-    return property?.select?.name || '';
-}
-
-function extractMultiSelect(property: any): string[] {
-    return property?.multi_select?.map((select: any) => select.name) || [];
-}
-
-function extractDate(property: any): string | undefined {
-    return property?.date?.start;
+/**
+ * Convert a PantryItem to Notion properties for creates and updates
+ */
+export function pantryItemToNotionProperties(
+    item: Partial<PantryItem>,
+    properties: NotionPropertyMap['pantry'] = DEFAULT_NOTION_PROPERTY_MAP.pantry
+): any {
+    return toNotionProperties(properties, {
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category,
+        location: item.location,
+        expiryDate: item.expiryDate,
+        notes: item.notes,
+        isStaple: item.isStaple,
+        tags: item.tags,
+        minQuantity: item.minQuantity
+    });
 }
-
-function extractCheckbox(property: any): boolean {
-    return property?.checkbox || false;
-}
\ No newline at end of file
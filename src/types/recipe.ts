@@ -1,3 +1,13 @@
+import {
+    DEFAULT_NOTION_PROPERTY_MAP,
+    readBooleanProperty,
+    readListProperty,
+    readNumberProperty,
+    readTextProperty,
+    toNotionProperties,
+    type NotionPropertyMap
+} from './notionPropertyMap';
+
 /**
  * Recipe interface based on your actual Notion database
  */
@@ -38,6 +48,16 @@ export interface Recipe {
      */
     tags: string[];
 
+    /**
+     * Raw ingredient list, one ingredient per line (maps to Notion "Ingredients" rich text property)
+     */
+    ingredientsText?: string;
+
+    /**
+     * How many servings the ingredient amounts make (maps to Notion "Servings" number property)
+     */
+    servings?: number;
+
     /**
      * When the recipe was created (maps to Notion "Created On" created_time property)
      */
@@ -47,59 +67,37 @@ export interface Recipe {
 /**
  * Convert a Notion page to a Recipe object
  */
-export function notionPageToRecipe(page: any): Recipe {
+export function notionPageToRecipe(
+    page: any,
+    properties: NotionPropertyMap['recipes'] = DEFAULT_NOTION_PROPERTY_MAP.recipes
+): Recipe {
     return {
         id: page.id,
-        name: page.properties['Name']?.title?.[0]?.plain_text || '',
-        tried: page.properties['Tried?']?.checkbox || false,
-        kitchenTools: page.properties['Kitchen Tools']?.relation?.map((rel: any) => rel.id) || [],
-        link: page.properties['Link']?.url || '',
-        tags: page.properties['Tags']?.multi_select?.map((ms: any) => ms.name) || [],
-        createdAt: page.properties['Created On']?.created_time || '',
+        name: readTextProperty(page, properties.name) || '',
+        tried: readBooleanProperty(page, properties.tried),
+        kitchenTools: readListProperty(page, properties.kitchenTools),
+        link: readTextProperty(page, properties.link) || '',
+        tags: readListProperty(page, properties.tags),
+        ingredientsText: readTextProperty(page, properties.ingredientsText),
+        servings: readNumberProperty(page, properties.servings),
+        createdAt: readTextProperty(page, properties.createdAt) || '',
     };
 }
 
 /**
  * Convert a Recipe object to Notion properties for updates
  */
-export function recipeToNotionProperties(recipe: Partial<Recipe>): any {
-    const properties: any = {};
-
-    if (recipe.name !== undefined) {
-        properties['Name'] = {
-            title: [
-                {
-                    text: {
-                        content: recipe.name
-                    }
-                }
-            ]
-        };
-    }
-
-    if (recipe.tried !== undefined) {
-        properties['Tried?'] = {
-            checkbox: recipe.tried
-        };
-    }
-
-    if (recipe.kitchenTools !== undefined) {
-        properties['Kitchen Tools'] = {
-            relation: recipe.kitchenTools.map(id => ({ id }))
-        };
-    }
-
-    if (recipe.link !== undefined) {
-        properties['Link'] = {
-            url: recipe.link
-        };
-    }
-
-    if (recipe.tags !== undefined) {
-        properties['Tags'] = {
-            multi_select: recipe.tags.map(tag => ({ name: tag }))
-        };
-    }
-
-    return properties;
-}
\ No newline at end of file
+export function recipeToNotionProperties(
+    recipe: Partial<Recipe>,
+    properties: NotionPropertyMap['recipes'] = DEFAULT_NOTION_PROPERTY_MAP.recipes
+): any {
+    return toNotionProperties(properties, {
+        name: recipe.name,
+        tried: recipe.tried,
+        kitchenTools: recipe.kitchenTools,
+        link: recipe.link,
+        tags: recipe.tags,
+        ingredientsText: recipe.ingredientsText,
+        servings: recipe.servings
+    });
+}
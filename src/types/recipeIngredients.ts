@@ -1,11 +1,28 @@
 import type { PantryItem } from './pantry';
 import type { Recipe } from './recipe';
+import { ValidationError } from './errors';
+import { formatQuantity, parseIngredientLine } from './ingredientParser';
+import {
+    DEFAULT_NOTION_PROPERTY_MAP,
+    readBooleanProperty,
+    readListProperty,
+    readNumberProperty,
+    readTextProperty,
+    toNotionProperties,
+    type NotionPropertyMap
+} from './notionPropertyMap';
+import { convertIngredientQuantity, normalizeUnit, toSensibleUnit } from './units';
 
 /**
  * RecipeIngredient interface for representing ingredients needed in a recipe
  * This will be stored separately since it's not in the main Recipe database
  */
 export interface RecipeIngredient {
+    /**
+     * Unique identifier for this ingredient entry (assigned by storage)
+     */
+    id?: string;
+
     /**
      * Reference to the recipe
      */
@@ -53,58 +70,232 @@ export interface RecipeWithIngredients {
 }
 
 /**
- * Checks if we have all the ingredients for a recipe
+ * How a single recipe ingredient compares with the pantry
+ * - available: the pantry has enough
+ * - insufficient: the pantry has some, but not enough
+ * - missing: the pantry doesn't have it at all
+ * - unknown: the units can't be compared (e.g., "8 oz" against "1 box")
  */
-export function canMakeRecipe(recipe: RecipeWithIngredients, pantry: PantryItem[]): boolean {
-    // For each required ingredient
-    const missingIngredients = recipe.ingredients.filter(ingredient => {
-        // Skip optional ingredients
-        if (ingredient.isOptional) return false;
+export type IngredientStatus = 'available' | 'insufficient' | 'missing' | 'unknown';
 
-        // Find matching pantry item
-        const pantryItem = pantry.find(item =>
-            item.name.toLowerCase() === ingredient.name.toLowerCase()
-        );
+/**
+ * Result of checking one recipe ingredient against the pantry
+ */
+export interface IngredientAvailability {
+    name: string;
+    status: IngredientStatus;
 
-        // If we don't have it or don't have enough, it's missing
-        return !pantryItem || pantryItem.quantity < ingredient.quantity;
-    });
+    /**
+     * Amount on hand in the recipe's unit (the pantry's raw quantity when status is unknown)
+     */
+    have: number;
 
-    // Can make recipe if no required ingredients are missing
-    return missingIngredients.length === 0;
+    need: number;
+    unit: string;
+
+    /**
+     * The matching pantry item's unit, when it differs from the recipe's
+     */
+    pantryUnit?: string;
+
+    /**
+     * Why the amounts couldn't be compared
+     */
+    reason?: string;
+}
+
+/**
+ * A recipe together with how well the pantry covers it
+ */
+export interface RecipeMatch extends RecipeWithIngredients {
+    /**
+     * Share of ingredients confirmed available (optional ones always count)
+     */
+    matchPercentage: number;
+
+    /**
+     * Required ingredients that are missing, insufficient or can't be compared
+     */
+    missingIngredients: IngredientAvailability[];
+}
+
+/**
+ * Find the pantry item for an ingredient by name
+ */
+export function findPantryItem(ingredient: Pick<RecipeIngredient, 'name'>, pantry: PantryItem[]): PantryItem | undefined {
+    return pantry.find(item =>
+        item.name.toLowerCase() === ingredient.name.toLowerCase()
+    );
 }
 
 /**
- * Calculates which ingredients are missing or insufficient for a recipe
+ * Compare one ingredient with the pantry, converting the pantry amount into
+ * the recipe's unit (including ingredient densities for volume vs. weight)
  */
-export function getMissingIngredients(recipe: RecipeWithIngredients, pantry: PantryItem[]): { name: string; have: number; need: number; unit: string }[] {
+export function checkIngredientAvailability(ingredient: RecipeIngredient, pantry: PantryItem[]): IngredientAvailability {
+    const pantryItem = findPantryItem(ingredient, pantry);
+    const base = {
+        name: ingredient.name,
+        need: ingredient.quantity,
+        unit: ingredient.unit
+    };
 
+    if (!pantryItem) {
+        return { ...base, status: 'missing', have: 0 };
+    }
+
+    const pantryUnit = normalizeUnit(pantryItem.unit) !== normalizeUnit(ingredient.unit)
+        ? pantryItem.unit
+        : undefined;
+
+    // No amount given ("Fresh basil"): having any at all is enough
+    if (ingredient.quantity <= 0) {
+        return {
+            ...base,
+            status: pantryItem.quantity > 0 ? 'available' : 'missing',
+            have: pantryItem.quantity,
+            pantryUnit
+        };
+    }
+
+    const have = convertIngredientQuantity(pantryItem.quantity, pantryItem.unit, ingredient.unit, ingredient.name);
+
+    if (have === null) {
+        return {
+            ...base,
+            status: 'unknown',
+            have: pantryItem.quantity,
+            pantryUnit,
+            reason: `Can't compare ${pantryItem.unit || 'count'} with ${ingredient.unit || 'count'}`
+        };
+    }
+
+    return {
+        ...base,
+        status: have >= ingredient.quantity ? 'available' : 'insufficient',
+        have: Math.round(have * 1000) / 1000,
+        pantryUnit
+    };
+}
+
+/**
+ * Checks if we have all the ingredients for a recipe.
+ * Returns 'unknown' when nothing is known to be missing but some
+ * amounts couldn't be compared.
+ */
+export function canMakeRecipe(recipe: RecipeWithIngredients, pantry: PantryItem[]): boolean | 'unknown' {
+    const missingIngredients = getMissingIngredients(recipe, pantry);
+
+    if (missingIngredients.some(ingredient => ingredient.status !== 'unknown')) {
+        return false;
+    }
+
+    // Can make recipe if no required ingredients are missing
+    return missingIngredients.length === 0 ? true : 'unknown';
+}
+
+/**
+ * Calculates which required ingredients are missing, insufficient or
+ * can't be compared for a recipe
+ */
+export function getMissingIngredients(recipe: RecipeWithIngredients, pantry: PantryItem[]): IngredientAvailability[] {
     return recipe.ingredients
         .filter(ingredient => !ingredient.isOptional) // Only check required ingredients
-        .map(ingredient => {
-            // Find matching pantry item
-            const pantryItem = pantry.find(item =>
-                item.name.toLowerCase() === ingredient.name.toLowerCase()
-            );
+        .map(ingredient => checkIngredientAvailability(ingredient, pantry))
+        .filter(availability => availability.status !== 'available');
+}
 
-            const have = pantryItem ? pantryItem.quantity : 0;
-            const need = ingredient.quantity;
+/**
+ * Score how well the pantry covers a recipe
+ */
+export function matchRecipe(recipe: RecipeWithIngredients, pantry: PantryItem[]): RecipeMatch {
+    const missingIngredients = getMissingIngredients(recipe, pantry);
 
-            // Only include if we don't have enough
-            if (have >= need) return null;
+    // Optional ingredients count as covered, like before
+    const matchPercentage = recipe.ingredients.length > 0
+        ? (recipe.ingredients.length - missingIngredients.length) / recipe.ingredients.length
+        : 0;
 
-            return {
-                name: ingredient.name,
-                have,
-                need,
-                unit: ingredient.unit
-            };
-        })
-        .filter(item => item !== null) as { name: string; have: number; need: number; unit: string }[];
+    return {
+        ...recipe,
+        matchPercentage,
+        missingIngredients
+    };
+}
+
+/**
+ * A change made to a pantry item after using some of it
+ */
+export interface PantryDeduction {
+    name: string;
+    before: number;
+    after: number;
+
+    /**
+     * The pantry item's unit (before and after are in this unit)
+     */
+    unit: string;
+
+    used: number;
+    usedUnit: string;
+}
+
+/**
+ * What happened to the pantry after cooking a recipe or using some items
+ */
+export interface PantryUpdateResult {
+    deductions: PantryDeduction[];
+    unitMismatches: UnitMismatch[];
+    addedToShoppingList: string[];
+
+    /**
+     * Used items with no pantry item of the same name
+     */
+    notFound: string[];
+}
+
+/**
+ * A used amount that couldn't be converted into the pantry item's unit,
+ * so the pantry item was left unchanged
+ */
+export interface UnitMismatch {
+    name: string;
+    used: number;
+    usedUnit: string;
+    pantryQuantity: number;
+    pantryUnit: string;
+    reason: string;
 }
 
 /**
- * Updates pantry quantities after making a recipe
+ * Work out a pantry item's quantity after using some of it, converting the
+ * used amount into the pantry item's unit first.
+ * Returns null when the units can't be converted.
+ */
+export function deductFromPantryItem(pantryItem: PantryItem, quantity: number, unit: string): number | null {
+    const used = convertIngredientQuantity(quantity, unit, pantryItem.unit, pantryItem.name);
+    if (used === null) return null;
+
+    return Math.max(0, Math.round((pantryItem.quantity - used) * 1000) / 1000);
+}
+
+/**
+ * Describe why a used amount couldn't be taken off a pantry item
+ */
+export function describeUnitMismatch(pantryItem: PantryItem, quantity: number, unit: string): UnitMismatch {
+    return {
+        name: pantryItem.name,
+        used: quantity,
+        usedUnit: unit,
+        pantryQuantity: pantryItem.quantity,
+        pantryUnit: pantryItem.unit,
+        reason: `Can't convert ${unit || 'count'} to ${pantryItem.unit || 'count'}, so the pantry was not changed`
+    };
+}
+
+/**
+ * Updates pantry quantities after making a recipe.
+ * Items whose units can't be converted are left unchanged.
  */
 export function updatePantryAfterCooking(recipe: RecipeWithIngredients, pantry: PantryItem[]): PantryItem[] {
     // Create a copy of the pantry to avoid mutating the original
@@ -119,7 +310,9 @@ export function updatePantryAfterCooking(recipe: RecipeWithIngredients, pantry:
 
         // If we have this item, update its quantity
         if (index !== -1) {
-            const newQuantity = Math.max(0, updatedPantry[index].quantity - ingredient.quantity);
+            const newQuantity = deductFromPantryItem(updatedPantry[index], ingredient.quantity, ingredient.unit);
+            if (newQuantity === null) return;
+
             updatedPantry[index] = {
                 ...updatedPantry[index],
                 quantity: newQuantity,
@@ -132,44 +325,130 @@ export function updatePantryAfterCooking(recipe: RecipeWithIngredients, pantry:
 }
 
 /**
- * Parse ingredients from text to structured format
+ * Multiply every ingredient amount, re-expressing each result in the most
+ * readable unit (48 tsp becomes 1 cup). Ingredients without an amount
+ * ("salt to taste") are left as they are.
+ */
+export function scaleIngredients(ingredients: RecipeIngredient[], multiplier: number): RecipeIngredient[] {
+    return ingredients.map(ingredient => {
+        if (ingredient.quantity <= 0) return ingredient;
+
+        const scaled = toSensibleUnit(ingredient.quantity * multiplier, ingredient.unit);
+
+        return {
+            ...ingredient,
+            quantity: Math.round(scaled.quantity * 1000) / 1000,
+            unit: scaled.unit
+        };
+    });
+}
+
+/**
+ * Work out how much to scale a recipe by, either from a target number of
+ * servings (against the recipe's own servings) or from an explicit multiplier
+ */
+export function getScaleMultiplier(recipe: Recipe, scale: { servings?: number; multiplier?: number }): number {
+    if (scale.multiplier !== undefined && scale.servings !== undefined) {
+        throw new ValidationError('Give either servings or a multiplier, not both');
+    }
+
+    if (scale.multiplier !== undefined) {
+        if (scale.multiplier <= 0) throw new ValidationError('Multiplier must be greater than 0');
+        return scale.multiplier;
+    }
+
+    if (scale.servings !== undefined) {
+        if (scale.servings <= 0) throw new ValidationError('Servings must be greater than 0');
+        if (!recipe.servings) {
+            throw new ValidationError(`Recipe "${recipe.name}" doesn't say how many servings it makes, so use a multiplier instead`);
+        }
+        return scale.servings / recipe.servings;
+    }
+
+    return 1;
+}
+
+/**
+ * Parse ingredients from text to structured format, one ingredient per line
  */
 export function parseIngredients(ingredientsText: string, recipeId: string = ''): RecipeIngredient[] {
     if (!ingredientsText) return [];
 
-    const lines = ingredientsText.split('\n');
-    const ingredients: RecipeIngredient[] = [];
+    return ingredientsText
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => {
+            const parsed = parseIngredientLine(line);
 
-    for (const line of lines) {
-        // Simple regex to extract quantity, unit, and name
-        // This is a basic implementation, will need to be more robust in production
-        const match = line.match(/^([\d.\/]+)\s+(\w+)\s+(.+?)(?:\s*\((.+)\))?$/);
+            // A package size says how much is really needed: "2 (14 oz) cans" is 28 oz
+            const quantity = parsed.packageSize ? parsed.quantity * parsed.packageSize.quantity : parsed.quantity;
+            const unit = parsed.packageSize ? parsed.packageSize.unit : parsed.unit;
 
-        if (match) {
-            const [_, quantityStr, unit, name, preparation] = match;
-            const quantity = parseFloat(eval(quantityStr.replace('/', '/')));
+            // Keep "to taste" as a note so the line reads the same when written back
+            const preparation = [parsed.preparation, parsed.toTaste ? 'to taste' : undefined]
+                .filter(Boolean)
+                .join(', ');
 
-            ingredients.push({
+            return {
                 recipeId,
-                name: name.trim(),
+                name: parsed.name,
                 quantity,
-                unit: unit.trim(),
-                preparation: preparation?.trim(),
-                isOptional: line.toLowerCase().includes('optional')
-            });
-        } else {
-            // If the line doesn't match our pattern, just add it as a name
-            if (line.trim()) {
-                ingredients.push({
-                    recipeId,
-                    name: line.trim(),
-                    quantity: 0,
-                    unit: 'whole',
-                    isOptional: line.toLowerCase().includes('optional')
-                });
-            }
-        }
-    }
+                unit,
+                preparation: preparation || undefined,
+                // Seasoning "to taste" never blocks a recipe
+                isOptional: parsed.isOptional || parsed.toTaste
+            };
+        })
+        .filter(ingredient => ingredient.name);
+}
+
+/**
+ * Render a structured ingredient back into a single text line
+ * that parseIngredients can read again
+ */
+export function formatIngredientLine(ingredient: Pick<RecipeIngredient, 'name' | 'quantity' | 'unit' | 'preparation' | 'isOptional'>): string {
+    const amount = ingredient.quantity > 0
+        ? `${formatQuantity(ingredient.quantity)} ${ingredient.unit || 'count'} `
+        : '';
+
+    const preparation = ingredient.preparation ? `, ${ingredient.preparation}` : '';
+    const optional = ingredient.isOptional ? ' (optional)' : '';
+
+    return `${amount}${ingredient.name}${preparation}${optional}`;
+}
 
-    return ingredients;
-}
\ No newline at end of file
+/**
+ * Convert a page from the Recipe Ingredients database to a RecipeIngredient
+ */
+export function notionPageToRecipeIngredient(
+    page: any,
+    recipeId?: string,
+    properties: NotionPropertyMap['recipeIngredients'] = DEFAULT_NOTION_PROPERTY_MAP.recipeIngredients
+): RecipeIngredient {
+    return {
+        id: page.id,
+        recipeId: recipeId ?? readListProperty(page, properties.recipeId)[0] ?? '',
+        name: readTextProperty(page, properties.name) || '',
+        quantity: readNumberProperty(page, properties.quantity) || 0,
+        unit: readTextProperty(page, properties.unit) || '',
+        preparation: readTextProperty(page, properties.preparation),
+        isOptional: readBooleanProperty(page, properties.isOptional)
+    };
+}
+
+/**
+ * Convert a RecipeIngredient to Notion properties for the Recipe Ingredients database
+ */
+export function recipeIngredientToNotionProperties(
+    ingredient: Partial<RecipeIngredient>,
+    properties: NotionPropertyMap['recipeIngredients'] = DEFAULT_NOTION_PROPERTY_MAP.recipeIngredients
+): any {
+    return toNotionProperties(properties, {
+        recipeId: ingredient.recipeId,
+        name: ingredient.name,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        preparation: ingredient.preparation,
+        isOptional: ingredient.isOptional
+    });
+}
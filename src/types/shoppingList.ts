@@ -1,3 +1,13 @@
+import {
+    DEFAULT_NOTION_PROPERTY_MAP,
+    readBooleanProperty,
+    readNumberProperty,
+    readTextProperty,
+    toNotionProperties,
+    type NotionPropertyMap
+} from './notionPropertyMap';
+import { convertIngredientQuantity } from './units';
+
 /**
  * ShoppingListItem interface representing an item on the shopping list
  * This maps directly to a row in our Notion Shopping List database
@@ -45,17 +55,20 @@ export interface ShoppingListItem {
 /**
  * Helper function to convert a Notion page to a ShoppingListItem
  */
-export function notionPageToShoppingListItem(page: any): ShoppingListItem {
+export function notionPageToShoppingListItem(
+    page: any,
+    properties: NotionPropertyMap['shoppingList'] = DEFAULT_NOTION_PROPERTY_MAP.shoppingList
+): ShoppingListItem {
     return {
         id: page.id,
-        name: page.properties['Name']?.title?.[0]?.plain_text || '',
-        quantity: page.properties['Quantity']?.number || 0,
-        unit: page.properties['Unit']?.select?.name || '',
-        category: page.properties['Category']?.select?.name || '',
-        priority: page.properties['Priority']?.select?.name || 'Medium',
-        isPurchased: page.properties['Purchased']?.checkbox || false,
-        isAutoAdded: page.properties['AutoAdded']?.checkbox || false,
-        notes: page.properties['Notes']?.rich_text?.map((rt: any) => rt.plain_text).join('') || '',
+        name: readTextProperty(page, properties.name) || '',
+        quantity: readNumberProperty(page, properties.quantity) || 0,
+        unit: readTextProperty(page, properties.unit) || '',
+        category: readTextProperty(page, properties.category) || '',
+        priority: readTextProperty(page, properties.priority) || 'Medium',
+        isPurchased: readBooleanProperty(page, properties.isPurchased),
+        isAutoAdded: readBooleanProperty(page, properties.isAutoAdded),
+        notes: readTextProperty(page, properties.notes) || '',
         addedAt: page.created_time,
         lastUpdated: page.last_edited_time
     };
@@ -64,74 +77,72 @@ export function notionPageToShoppingListItem(page: any): ShoppingListItem {
 /**
  * Convert a ShoppingListItem to Notion properties for updates
  */
-export function shoppingListItemToNotionProperties(item: Partial<ShoppingListItem>): any {
-    const properties: any = {};
-
-    if (item.name !== undefined) {
-        properties['Name'] = {
-            title: [
-                {
-                    text: {
-                        content: item.name
-                    }
-                }
-            ]
-        };
-    }
-
-    if (item.quantity !== undefined) {
-        properties['Quantity'] = {
-            number: item.quantity
-        };
-    }
-
-    if (item.unit !== undefined) {
-        properties['Unit'] = {
-            select: {
-                name: item.unit
-            }
-        };
-    }
-
-    if (item.category !== undefined) {
-        properties['Category'] = {
-            select: {
-                name: item.category
-            }
-        };
-    }
-
-    if (item.priority !== undefined) {
-        properties['Priority'] = {
-            select: {
-                name: item.priority
-            }
-        };
-    }
-
-    if (item.isPurchased !== undefined) {
-        properties['Purchased'] = {
-            checkbox: item.isPurchased
-        };
-    }
-
-    if (item.isAutoAdded !== undefined) {
-        properties['AutoAdded'] = {
-            checkbox: item.isAutoAdded
-        };
-    }
-
-    if (item.notes !== undefined) {
-        properties['Notes'] = {
-            rich_text: item.notes ? [
-                {
-                    text: {
-                        content: item.notes
-                    }
-                }
-            ] : []
-        };
-    }
-
-    return properties;
-}
\ No newline at end of file
+export function shoppingListItemToNotionProperties(
+    item: Partial<ShoppingListItem>,
+    properties: NotionPropertyMap['shoppingList'] = DEFAULT_NOTION_PROPERTY_MAP.shoppingList
+): any {
+    return toNotionProperties(properties, {
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category,
+        priority: item.priority,
+        isPurchased: item.isPurchased,
+        isAutoAdded: item.isAutoAdded,
+        notes: item.notes
+    });
+}
+
+// Higher rank wins when two entries are merged
+const PRIORITY_RANK: Record<string, number> = {
+    Low: 0,
+    Medium: 1,
+    High: 2
+};
+
+/**
+ * Normalize an item name for duplicate detection, so "Milk", " milk "
+ * and "Tomatoes"/"tomato" are treated as the same item
+ */
+export function normalizeShoppingItemName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/oes$/, 'o')
+        .replace(/([^s])s$/, '$1');
+}
+
+/**
+ * Whether an entry is still waiting to be bought and has the same normalized name
+ */
+export function isOpenDuplicate(existing: ShoppingListItem, name: string): boolean {
+    return !existing.isPurchased && normalizeShoppingItemName(existing.name) === normalizeShoppingItemName(name);
+}
+
+/**
+ * Work out the fields of `existing` after folding `incoming` into it:
+ * quantities are summed in the existing unit, the higher priority is kept
+ * and notes are appended. Returns null when the units can't be converted.
+ */
+export function mergeShoppingListItems(
+    existing: ShoppingListItem,
+    incoming: Pick<ShoppingListItem, 'name' | 'quantity' | 'unit' | 'priority' | 'isAutoAdded' | 'notes'>
+): Partial<ShoppingListItem> | null {
+    const quantity = convertIngredientQuantity(incoming.quantity, incoming.unit, existing.unit, existing.name);
+    if (quantity === null) return null;
+
+    const notes = [existing.notes, incoming.notes]
+        .map(note => note?.trim())
+        .filter((note, index, all): note is string => !!note && all.indexOf(note) === index);
+
+    return {
+        quantity: Math.round((existing.quantity + quantity) * 1000) / 1000,
+        priority: (PRIORITY_RANK[incoming.priority] ?? 0) > (PRIORITY_RANK[existing.priority] ?? 0)
+            ? incoming.priority
+            : existing.priority,
+        // Once someone adds an item by hand it is no longer only auto-added
+        isAutoAdded: existing.isAutoAdded && incoming.isAutoAdded,
+        notes: notes.join('; ')
+    };
+}
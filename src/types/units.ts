@@ -0,0 +1,343 @@
+/**
+ * Cooking unit aliases and conversion factors shared by the unit conversion
+ * tools, the ingredient parser and pantry matching
+ */
+
+/**
+ * Canonical unit names and the spellings that map to them
+ */
+export const UNIT_ALIASES: Record<string, string[]> = {
+    // Volume
+    tbsp: ['tablespoon', 'tablespoons', 'tbsp', 'tbs', 'tb'],
+    tsp: ['teaspoon', 'teaspoons', 'tsp', 'ts'],
+    cup: ['cup', 'cups', 'c'],
+    pint: ['pint', 'pints', 'pt'],
+    quart: ['quart', 'quarts', 'qt'],
+    gallon: ['gallon', 'gallons', 'gal'],
+    ml: ['milliliter', 'milliliters', 'ml'],
+    liter: ['liter', 'liters', 'l'],
+    'fl oz': ['fluid ounce', 'fluid ounces', 'fluid oz', 'fl oz', 'fl. oz', 'fl. oz.', 'fl.oz', 'floz'],
+
+    // Weight
+    oz: ['ounce', 'ounces', 'oz'],
+    pound: ['pound', 'pounds', 'lb', 'lbs'],
+    g: ['gram', 'grams', 'g'],
+    kg: ['kilogram', 'kilograms', 'kg'],
+
+    // Count
+    count: ['each', 'ea', 'count', 'ct', 'piece', 'pieces', ''],
+    dozen: ['dozen', 'doz'],
+
+    // Containers
+    can: ['can', 'cans'],
+    package: ['package', 'packages', 'pkg', 'pack'],
+    bottle: ['bottle', 'bottles', 'btl'],
+    box: ['box', 'boxes'],
+    jar: ['jar', 'jars'],
+    stick: ['stick', 'sticks'],
+
+    // Small or loose amounts
+    pinch: ['pinch', 'pinches'],
+    dash: ['dash', 'dashes'],
+    clove: ['clove', 'cloves'],
+    slice: ['slice', 'slices'],
+    bunch: ['bunch', 'bunches'],
+    head: ['head', 'heads'],
+    sprig: ['sprig', 'sprigs'],
+    handful: ['handful', 'handfuls']
+};
+
+/**
+ * Unit conversion constants
+ */
+export const UNIT_CONVERSIONS: Record<string, number> = {
+    // Volume
+    "tbsp_to_oz": 0.5,
+    "tsp_to_oz": 0.1667,
+    "cup_to_oz": 8,
+    "cup_to_ml": 236.59,
+    "oz_to_ml": 29.57,
+    "cup_to_fl oz": 8,
+    "fl oz_to_ml": 29.57,
+    "cup_to_tbsp": 16,
+    "cup_to_tsp": 48,
+    "tbsp_to_tsp": 3,
+    "pint_to_cup": 2,
+    "quart_to_cup": 4,
+    "gallon_to_cup": 16,
+    "liter_to_ml": 1000,
+
+    // Weight
+    "pound_to_oz": 16,
+    "kg_to_pound": 2.20462,
+    "g_to_oz": 0.03527396,
+
+    // Ingredient-specific weight conversions
+    "cup_flour_to_oz": 4.25,
+    "cup_sugar_to_oz": 7.05,
+    "cup_brown_sugar_to_oz": 7.5,
+    "cup_rice_to_oz": 6.53,  // uncooked
+    "cup_oats_to_oz": 2.65,  // dry oats
+    "cup_milk_to_oz": 8.6,
+    "cup_butter_to_oz": 8,
+    "cup_oil_to_oz": 7.63,
+    "cup_honey_to_oz": 12,
+    "cup_yogurt_to_oz": 8.6,
+
+    // Common ingredient by tablespoon
+    "tbsp_honey_to_oz": 0.75,
+    "tbsp_oil_to_oz": 0.5,
+    "tbsp_butter_to_oz": 0.5,
+    "tbsp_flour_to_oz": 0.27,
+    "tbsp_sugar_to_oz": 0.44,
+
+    // Common count conversions
+    "dozen_to_count": 12,
+    "half_dozen_to_count": 6,
+
+    // Common package/container conversions
+    "stick_butter_to_oz": 4,
+    "can_to_oz": 14.5, // Standard can size
+    "package_to_oz": 16, // Common package size
+};
+
+// Reverse lookup from every alias to its canonical unit
+const CANONICAL_UNITS = new Map<string, string>(
+    Object.entries(UNIT_ALIASES).flatMap(([canonical, aliases]) =>
+        aliases.map(alias => [alias, canonical] as const))
+);
+
+/**
+ * Normalize unit names to handle common variations
+ */
+export function normalizeUnit(unit: string): string {
+    unit = unit.toLowerCase().trim();
+
+    // If no normalization found, return the original
+    return CANONICAL_UNITS.get(unit) ?? unit;
+}
+
+/**
+ * Convert between common cooking units
+ */
+export function convertUnit(value: number, fromUnit: string, toUnit: string, ingredient?: string): number | null {
+    // Normalize units to handle aliases
+    const fromUnitNorm = normalizeUnit(fromUnit);
+    const toUnitNorm = normalizeUnit(toUnit);
+
+    // Direct conversion if units are the same
+    if (fromUnitNorm === toUnitNorm) return value;
+
+    // Try ingredient-specific conversion first
+    if (ingredient) {
+        const ingNorm = ingredient.toLowerCase().trim();
+        const specificKey = `${fromUnitNorm}_${ingNorm}_to_oz`;
+
+        // Special case for common ingredients with cup measurements
+        if (fromUnitNorm === 'cup' && toUnitNorm === 'oz' && UNIT_CONVERSIONS[specificKey]) {
+            return value * UNIT_CONVERSIONS[specificKey];
+        }
+
+        // Special case for common ingredients with tablespoon measurements
+        if (fromUnitNorm === 'tbsp' && toUnitNorm === 'oz') {
+            const tbspKey = `tbsp_${ingNorm}_to_oz`;
+            if (UNIT_CONVERSIONS[tbspKey]) {
+                return value * UNIT_CONVERSIONS[tbspKey];
+            }
+        }
+    }
+
+    // Check if we have a direct conversion
+    const conversionKey = `${fromUnitNorm}_to_${toUnitNorm}`;
+    if (UNIT_CONVERSIONS[conversionKey]) {
+        return value * UNIT_CONVERSIONS[conversionKey];
+    }
+
+    // Try reverse conversion
+    const reverseKey = `${toUnitNorm}_to_${fromUnitNorm}`;
+    if (UNIT_CONVERSIONS[reverseKey]) {
+        return value / UNIT_CONVERSIONS[reverseKey];
+    }
+
+    // Multi-step conversions via intermediate units
+
+    // Volume conversions via fluid ounces (the `_to_oz` volume factors are fluid ounces)
+    if (['tbsp', 'tsp', 'cup', 'pint', 'quart', 'gallon', 'fl oz'].includes(fromUnitNorm) &&
+        ['tbsp', 'tsp', 'cup', 'pint', 'quart', 'gallon', 'fl oz'].includes(toUnitNorm)) {
+        // Convert to fluid ounces first, then to target unit
+        const fromFluidOunces = fromUnitNorm === 'fl oz' ? 1 : UNIT_CONVERSIONS[`${fromUnitNorm}_to_oz`];
+        const toFluidOunces = toUnitNorm === 'fl oz' ? 1 : UNIT_CONVERSIONS[`${toUnitNorm}_to_oz`];
+
+        if (fromFluidOunces && toFluidOunces) {
+            const ozValue = value * fromFluidOunces;
+            return ozValue / toFluidOunces;
+        }
+    }
+
+    // Volume/weight via ml/g
+    if (['ml', 'liter'].includes(fromUnitNorm) && ['oz', 'fl oz', 'cup'].includes(toUnitNorm)) {
+        const mlValue = fromUnitNorm === 'liter' ? value * 1000 : value;
+        return mlValue / UNIT_CONVERSIONS['oz_to_ml'] * (toUnitNorm === 'cup' ? (1/8) : 1);
+    }
+
+    // Weight conversions via oz
+    if (['g', 'kg', 'pound'].includes(fromUnitNorm) &&
+        ['g', 'kg', 'pound', 'oz'].includes(toUnitNorm)) {
+        // Convert everything to oz first
+        let ozValue = value;
+
+        if (fromUnitNorm === 'g') ozValue = value * UNIT_CONVERSIONS['g_to_oz'];
+        if (fromUnitNorm === 'kg') ozValue = value * UNIT_CONVERSIONS['kg_to_pound'] * UNIT_CONVERSIONS['pound_to_oz'];
+        if (fromUnitNorm === 'pound') ozValue = value * UNIT_CONVERSIONS['pound_to_oz'];
+
+        // Then convert oz to target
+        if (toUnitNorm === 'g') return ozValue / UNIT_CONVERSIONS['g_to_oz'];
+        if (toUnitNorm === 'kg') return ozValue / UNIT_CONVERSIONS['pound_to_oz'] / UNIT_CONVERSIONS['kg_to_pound'];
+        if (toUnitNorm === 'pound') return ozValue / UNIT_CONVERSIONS['pound_to_oz'];
+        return ozValue; // oz
+    }
+
+    // Cannot convert
+    return null;
+}
+
+// Units grouped by what they measure. Volumes compare in cups, weights in ounces.
+const VOLUME_UNITS = ['tsp', 'tbsp', 'cup', 'pint', 'quart', 'gallon', 'fl oz', 'ml', 'liter'];
+const WEIGHT_UNITS = ['oz', 'pound', 'g', 'kg'];
+const COUNT_UNITS = ['count', 'dozen'];
+
+/**
+ * A quantity expressed in the base unit of its dimension
+ */
+interface Measurement {
+    amount: number;
+    dimension: string;
+}
+
+function measure(quantity: number, unit: string): Measurement {
+    const unitNorm = normalizeUnit(unit);
+
+    if (VOLUME_UNITS.includes(unitNorm)) {
+        return { amount: convertUnit(quantity, unitNorm, 'cup')!, dimension: 'volume' };
+    }
+    if (WEIGHT_UNITS.includes(unitNorm)) {
+        return { amount: convertUnit(quantity, unitNorm, 'oz')!, dimension: 'weight' };
+    }
+    if (COUNT_UNITS.includes(unitNorm)) {
+        return { amount: convertUnit(quantity, unitNorm, 'count')!, dimension: 'count' };
+    }
+
+    // Containers with a standard size (cans, packages) count as weight
+    const asWeight = convertUnit(quantity, unitNorm, 'oz');
+    if (asWeight !== null) {
+        return { amount: asWeight, dimension: 'weight' };
+    }
+
+    // Anything else only compares with itself
+    return { amount: quantity, dimension: unitNorm };
+}
+
+/**
+ * Ounces per cup for an ingredient, from the ingredient-specific conversions
+ */
+export function getIngredientDensity(ingredientName: string): number | null {
+    const name = ` ${ingredientName.toLowerCase().replace(/[^a-z]+/g, ' ').trim()} `;
+
+    // Longest names first so "brown sugar" wins over "sugar"
+    const densities = Object.entries(UNIT_CONVERSIONS)
+        .filter(([key]) => /^cup_.+_to_oz$/.test(key))
+        .map(([key, ouncesPerCup]) => ({
+            ingredient: key.slice('cup_'.length, -'_to_oz'.length).replace(/_/g, ' '),
+            ouncesPerCup
+        }))
+        .sort((a, b) => b.ingredient.length - a.ingredient.length);
+
+    const match = densities.find(density => name.includes(` ${density.ingredient} `));
+    return match ? match.ouncesPerCup : null;
+}
+
+/**
+ * Convert an ingredient amount between any two units that measure the same
+ * thing, bridging volume and weight with the ingredient's density when known.
+ * Returns null when the units can't be compared.
+ */
+export function convertIngredientQuantity(value: number, fromUnit: string, toUnit: string, ingredientName?: string): number | null {
+    const source = measure(value, fromUnit);
+    const target = measure(1, toUnit);
+
+    if (target.amount === 0) return null;
+
+    let amount = source.amount;
+
+    if (source.dimension !== target.dimension) {
+        const ouncesPerCup = ingredientName ? getIngredientDensity(ingredientName) : null;
+        if (ouncesPerCup === null) return null;
+
+        if (source.dimension === 'volume' && target.dimension === 'weight') {
+            amount = amount * ouncesPerCup;
+        } else if (source.dimension === 'weight' && target.dimension === 'volume') {
+            amount = amount / ouncesPerCup;
+        } else {
+            return null;
+        }
+    }
+
+    return amount / target.amount;
+}
+
+/**
+ * Measures a scaled amount may be re-expressed in, largest first. An amount
+ * moves to a unit when it comes to at least `min` there and lands on one of
+ * the `steps` (e.g. quarter or third cups); the smallest unit takes anything.
+ */
+const UNIT_LADDERS: { unit: string; min: number; steps: number[] }[][] = [
+    [
+        { unit: 'gallon', min: 1, steps: [1 / 4] },
+        { unit: 'cup', min: 1 / 4, steps: [1 / 4, 1 / 3] },
+        { unit: 'tbsp', min: 1, steps: [1 / 2] },
+        { unit: 'tsp', min: 0, steps: [] }
+    ],
+    [
+        { unit: 'liter', min: 1, steps: [1 / 10] },
+        { unit: 'ml', min: 0, steps: [] }
+    ],
+    [
+        { unit: 'pound', min: 1, steps: [1 / 4] },
+        { unit: 'oz', min: 0, steps: [] }
+    ],
+    [
+        { unit: 'kg', min: 1, steps: [1 / 10] },
+        { unit: 'g', min: 0, steps: [] }
+    ]
+];
+
+/**
+ * Re-express an amount in the most readable unit of the same kind, so
+ * 48 tsp becomes 1 cup and 0.0625 cup becomes 1 tbsp. Units outside the
+ * kitchen measures (counts, cans, pinches) are returned unchanged.
+ */
+export function toSensibleUnit(quantity: number, unit: string): { quantity: number; unit: string } {
+    const unitNorm = normalizeUnit(unit);
+    const ladder = UNIT_LADDERS.find(rungs => rungs.some(rung => rung.unit === unitNorm));
+
+    if (!ladder || quantity <= 0) return { quantity, unit };
+
+    for (const rung of ladder) {
+        const amount = rung.unit === unitNorm ? quantity : convertUnit(quantity, unitNorm, rung.unit);
+        if (amount === null || amount < rung.min) continue;
+
+        const isSmallest = rung === ladder[ladder.length - 1];
+        if (isSmallest || rung.steps.some(step => isMultipleOf(amount, step))) {
+            // Keep the caller's spelling when the unit doesn't change
+            return { quantity: amount, unit: rung.unit === unitNorm ? unit : rung.unit };
+        }
+    }
+
+    return { quantity, unit };
+}
+
+// Allows for rounding in the conversion factors (e.g. tsp_to_oz)
+function isMultipleOf(amount: number, step: number): boolean {
+    const multiple = amount / step;
+    return Math.abs(multiple - Math.round(multiple)) < 0.02;
+}
@@ -1,3 +1,5 @@
+import type { IngredientAvailability } from './recipeIngredients';
+
 /**
  * Response format for MCP tools and resources
  */
@@ -6,14 +8,43 @@ export interface MealSuggestion {
         id: string;
         name: string;
         tags: string[];
+        tried: boolean;
+        notionUrl?: string;
     };
+
+    // Position in the ranking (1 is the best match)
+    rank: number;
+
+    // Share of ingredients covered by the pantry, 0-100
     matchPercentage: number;
-    missingIngredients: {
-        name: string;
-        have: number;
-        need: number;
-        unit: string;
-    }[];
+
+    // Required ingredients that are missing, short or can't be compared
+    missingIngredients: IngredientAvailability[];
+
+    // Expiring pantry items the recipe uses up ("use it up" mode only)
+    rescuedItems?: RescuedPantryItem[];
+
+    // How much soon-to-expire stock the recipe saves ("use it up" mode only)
+    wasteScore?: number;
+
+    // Why the recipe ranked where it did
+    explanation: string;
+}
+
+/**
+ * An expiring pantry item that a suggested recipe would use up
+ */
+export interface RescuedPantryItem {
+    name: string;
+    expiryDate: string;
+    daysUntilExpiry: number;
+
+    // Amount the recipe uses, in the pantry item's unit (null when the units can't be converted)
+    used: number | null;
+    unit: string;
+
+    // Percentage of the current stock the recipe uses (null when unknown)
+    shareOfStock: number | null;
 }
 
 /**
@@ -26,4 +57,13 @@ export interface PantryStats {
     };
     expiringItems: number;
     lowStapleItems: number;
-}
\ No newline at end of file
+}
+
+/**
+ * A single page of results from a cursor-paginated query
+ */
+export interface PaginatedResult<T> {
+    items: T[];
+    nextCursor: string | null;
+    hasMore: boolean;
+}
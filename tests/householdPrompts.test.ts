@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerHouseholdPrompts } from "../src/prompts/householdPrompts";
+import { registerPantryResources } from "../src/resources/pantryResources";
+import { connectToFakeNotion } from "./support/fakeNotionClient";
+
+type Connection = Awaited<ReturnType<typeof connectToFakeNotion>>;
+
+describe("household prompts against the fake Notion API", () => {
+    let connection: Connection;
+
+    beforeEach(async () => {
+        connection = await connectToFakeNotion(({ server, repository }) =>
+            registerHouseholdPrompts(server, registerPantryResources(server, repository)));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("prepareGroceryTrip embeds the shopping list, meal plan and pantry", async () => {
+        const prompt = await connection.client.getPrompt({ name: "prepareGroceryTrip", arguments: { store: "Aldi" } });
+
+        const embedded = prompt.messages
+            .filter(message => message.content.type === "resource")
+            .map(message => (message.content as { resource: { uri: string } }).resource.uri);
+        expect(embedded).toEqual(["mcp://resource/shopping-list", "mcp://resource/meal-plan", "mcp://resource/pantry"]);
+
+        const instructions = prompt.messages[prompt.messages.length - 1].content as { text: string };
+        expect(instructions.text).toContain("at Aldi");
+    });
+});
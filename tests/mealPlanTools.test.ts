@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerMealPlanTools } from "../src/tools/mealPlanTools";
+import type { Recipe } from "../src/types";
+import { connectToFakeNotion } from "./support/fakeNotionClient";
+
+type Connection = Awaited<ReturnType<typeof connectToFakeNotion>>;
+
+const WEEK = { startDate: "2030-01-07", endDate: "2030-01-13" };
+
+describe("meal plan tools against the fake Notion API", () => {
+    let connection: Connection;
+    let chickenAndRice: Recipe;
+
+    beforeEach(async () => {
+        connection = await connectToFakeNotion(({ server, repository }) => registerMealPlanTools(server, repository));
+        chickenAndRice = (await connection.repository.getRecipes()).find(recipe => recipe.name === "Chicken and Rice")!;
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("planMeal adds an entry that getMealPlan reads back", async () => {
+        const planned = await connection.callTool("planMeal", { date: "2030-01-08", meal: "Dinner", recipeId: chickenAndRice.id, servings: 4 });
+        expect(planned.isError).toBe(false);
+
+        const plan = await connection.callTool("getMealPlan", WEEK);
+        expect(plan.isError).toBe(false);
+
+        const entries = plan.structuredContent.days.flatMap((day: { meals: { id: string }[] }) => day.meals);
+        expect(entries.map((entry: { id: string }) => entry.id)).toContain(planned.structuredContent.entry.id);
+        expect(plan.structuredContent.ingredients.length).toBeGreaterThan(0);
+    });
+
+    it("planMeal rejects an unknown recipe", async () => {
+        const result = await connection.callTool("planMeal", { date: "2030-01-08", recipeId: "missing-recipe" });
+
+        expect(result.isError).toBe(true);
+        expect(result.error?.code).toBe("NOT_FOUND");
+    });
+
+    it("getMealPlan rejects a date that doesn't exist", async () => {
+        const result = await connection.callTool("getMealPlan", { startDate: "2024-13-45" });
+
+        expect(result.isError).toBe(true);
+        expect(result.error?.code).toBe("VALIDATION");
+    });
+
+    it("addMealPlanToShoppingList previews, then adds the shortfall", async () => {
+        await connection.callTool("planMeal", { date: "2030-01-08", recipeId: chickenAndRice.id, servings: 8 });
+        const listBefore = await connection.repository.getShoppingList();
+
+        const preview = await connection.callTool("addMealPlanToShoppingList", { ...WEEK, dryRun: true });
+        expect(preview.isError).toBe(false);
+        expect(preview.structuredContent.wouldAdd.length).toBeGreaterThan(0);
+        expect(await connection.repository.getShoppingList()).toHaveLength(listBefore.length);
+
+        const added = await connection.callTool("addMealPlanToShoppingList", WEEK);
+        expect(added.isError).toBe(false);
+        expect(added.structuredContent.added.length).toBe(preview.structuredContent.wouldAdd.length);
+        expect((await connection.repository.getShoppingList()).length).toBeGreaterThan(listBefore.length);
+    });
+
+    it("addMealPlanToShoppingList doesn't add what's already on the list", async () => {
+        await connection.callTool("planMeal", { date: "2030-01-08", recipeId: chickenAndRice.id, servings: 8 });
+        await connection.callTool("addMealPlanToShoppingList", WEEK);
+        const listAfterFirstRun = await connection.repository.getShoppingList();
+
+        const again = await connection.callTool("addMealPlanToShoppingList", WEEK);
+        expect(again.isError).toBe(false);
+        expect(again.structuredContent.added).toEqual([]);
+        expect(again.structuredContent.alreadyOnShoppingList.length).toBeGreaterThan(0);
+        expect(await connection.repository.getShoppingList()).toEqual(listAfterFirstRun);
+    });
+
+    it("removePlannedMeal removes an entry", async () => {
+        const planned = await connection.callTool("planMeal", { date: "2030-01-09", recipeId: chickenAndRice.id });
+        const entryId = planned.structuredContent.entry.id;
+
+        const removed = await connection.callTool("removePlannedMeal", { entryId });
+        expect(removed.structuredContent.removed).toBe(true);
+        expect(await connection.repository.getMealPlan(WEEK.startDate, WEEK.endDate)).toEqual([]);
+    });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerPantryResources } from "../src/resources/pantryResources";
+import { connectToFakeNotion } from "./support/fakeNotionClient";
+
+type Connection = Awaited<ReturnType<typeof connectToFakeNotion>>;
+
+describe("pantry resources against the fake Notion API", () => {
+    let connection: Connection;
+
+    beforeEach(async () => {
+        connection = await connectToFakeNotion(({ server, repository }) => registerPantryResources(server, repository));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const readJson = async (uri: string) => {
+        const result = await connection.client.readResource({ uri });
+        return JSON.parse((result.contents[0] as { text: string }).text);
+    };
+
+    it("reads the pantry", async () => {
+        const pantry = await readJson("mcp://resource/pantry");
+
+        expect(pantry.total).toBe(8);
+        expect(pantry.items.map((item: { name: string }) => item.name)).toContain("Rice");
+    });
+
+    it("lists and reads individual pantry items", async () => {
+        const { resources } = await connection.client.listResources();
+        const rice = resources.find(resource => resource.name === "Rice" && resource.uri.startsWith("pantry-item://"));
+
+        const item = await readJson(rice!.uri);
+        expect(item).toMatchObject({ name: "Rice", quantity: 3, unit: "pounds" });
+    });
+
+    it("reports a missing pantry item", async () => {
+        const item = await readJson("pantry-item://missing-item");
+
+        expect(item.error).toBe("Item with ID missing-item not found");
+    });
+
+    it("reads the shopping list", async () => {
+        const shoppingList = await readJson("mcp://resource/shopping-list");
+
+        expect(shoppingList.total).toBe(3);
+        expect(shoppingList.purchased).toBe(1);
+    });
+
+    it("reads the recipes", async () => {
+        const recipes = await readJson("mcp://resource/recipes");
+
+        expect(JSON.stringify(recipes)).toContain("Chicken and Rice");
+    });
+
+    it("converts units when checking a recipe's ingredients against the pantry", async () => {
+        const milk = (await connection.repository.getPantryItems()).find(item => item.name === "Milk");
+        await connection.repository.updatePantryItem(milk!.id, { quantity: 0.5, unit: "liters" });
+
+        const oatmeal = (await connection.repository.getRecipes()).find(recipe => recipe.name === "Apple Cinnamon Oatmeal");
+        const recipe = await readJson(`recipe://${encodeURIComponent(oatmeal!.id)}`);
+
+        // Half a liter covers the recipe's cup of milk
+        expect(recipe.ingredients.find((ingredient: { name: string }) => ingredient.name === "Milk").available).toBe("Yes");
+        expect(recipe.canMake).toBe(false);
+    });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerPantryTools } from "../src/tools/pantryTools";
+import { connectToFakeNotion } from "./support/fakeNotionClient";
+
+type Connection = Awaited<ReturnType<typeof connectToFakeNotion>>;
+
+describe("pantry tools against the fake Notion API", () => {
+    let connection: Connection;
+
+    beforeEach(async () => {
+        connection = await connectToFakeNotion(({ server, repository }) => registerPantryTools(server, repository));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const findItem = async (name: string) =>
+        (await connection.repository.getPantryItems()).find(item => item.name === name);
+
+    describe("reading", () => {
+        it("getPantryInfo lists the pantry with metadata", async () => {
+            const result = await connection.callTool("getPantryInfo");
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.items.map((item: { name: string }) => item.name)).toContain("Eggs");
+            expect(result.structuredContent.metadata).toBeDefined();
+        });
+
+        it("getPantryInfo filters by category", async () => {
+            const eggs = await findItem("Eggs");
+            const result = await connection.callTool("getPantryInfo", { filterByCategory: eggs!.category });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.items.length).toBeGreaterThan(0);
+            for (const item of result.structuredContent.items) {
+                expect(item.category).toBe(eggs!.category);
+            }
+        });
+
+        it("getPantryAndRecipes returns both collections", async () => {
+            const result = await connection.callTool("getPantryAndRecipes", { maxRecipes: 2 });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.pantry.length).toBeGreaterThan(0);
+            expect(result.structuredContent.recipes).toHaveLength(2);
+        });
+
+        it("getShoppingList groups the list and counts purchases", async () => {
+            const result = await connection.callTool("getShoppingList");
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.totalCount).toBe(3);
+            expect(result.structuredContent.purchasedCount).toBe(1);
+        });
+    });
+
+    describe("writing", () => {
+        it("addPantryItem creates a page, then adds to it", async () => {
+            const created = await connection.callTool("addPantryItem", { name: "Pears", quantity: 3, unit: "count", category: "Produce" });
+            expect(created.isError).toBe(false);
+            expect(created.structuredContent.wasUpdated).toBe(false);
+
+            const merged = await connection.callTool("addPantryItem", { name: "Pears", quantity: 2, unit: "count", category: "Produce" });
+            expect(merged.structuredContent.wasUpdated).toBe(true);
+
+            expect((await findItem("Pears"))?.quantity).toBe(5);
+        });
+
+        it("updatePantryItems changes quantities and adds new items", async () => {
+            const result = await connection.callTool("updatePantryItems", {
+                items: [
+                    { name: "Rice", quantity: -1, unit: "pounds" },
+                    { name: "Saffron", quantity: 2, unit: "g" },
+                    { name: "Truffles", quantity: -1, unit: "count" }
+                ]
+            });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.results.map((change: { name: string }) => change.name)).toEqual(["Rice", "Saffron"]);
+            expect((await findItem("Rice"))?.quantity).toBe(2);
+            expect((await findItem("Saffron"))?.quantity).toBe(2);
+            expect(await findItem("Truffles")).toBeUndefined();
+        });
+
+        it("updatePantryAfterCooking deducts a recipe's ingredients", async () => {
+            const recipe = (await connection.repository.getRecipes()).find(recipe => recipe.name === "Apple Cinnamon Oatmeal");
+
+            const result = await connection.callTool("updatePantryAfterCooking", { recipeId: recipe!.id, addToShoppingList: false });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.changes.map((change: { name: string }) => change.name)).toContain("Apples");
+            expect(result.structuredContent.addedToShoppingList).toEqual([]);
+            expect((await findItem("Apples"))?.quantity).toBe(5);
+        });
+
+        it("updatePantryAfterCooking rejects an unknown recipe", async () => {
+            const result = await connection.callTool("updatePantryAfterCooking", { recipeId: "missing-recipe" });
+
+            expect(result.isError).toBe(true);
+            expect(result.error?.code).toBe("NOT_FOUND");
+        });
+
+        it("updatePantryWithUsedItems adds items that run out to the shopping list", async () => {
+            const result = await connection.callTool("updatePantryWithUsedItems", {
+                items: [
+                    { name: "Garlic", quantity: 1, unit: "bulb" },
+                    { name: "Ghost Pepper", quantity: 1, unit: "count" }
+                ]
+            });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.notFoundItems).toEqual(["Ghost Pepper"]);
+            expect((await findItem("Garlic"))?.quantity).toBe(0);
+
+            const shoppingList = await connection.repository.getShoppingList();
+            expect(shoppingList.some(item => item.name === "Garlic")).toBe(true);
+        });
+
+        it("addToShoppingList merges an entry with convertible units", async () => {
+            await connection.callTool("addToShoppingList", { name: "Flour", quantity: 1, unit: "kg", category: "Baking" });
+            const merged = await connection.callTool("addToShoppingList", { name: "flour", quantity: 500, unit: "g", category: "Baking" });
+
+            expect(merged.isError).toBe(false);
+            expect(merged.structuredContent.wasUpdated).toBe(true);
+            expect(merged.structuredContent.item.quantity).toBe(1.5);
+        });
+
+        it("consolidateShoppingList previews without changing the list", async () => {
+            const before = await connection.repository.getShoppingList();
+            const result = await connection.callTool("consolidateShoppingList", { dryRun: true });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.dryRun).toBe(true);
+            expect(await connection.repository.getShoppingList()).toHaveLength(before.length);
+        });
+
+        it("replenishStaples adds staples at or below their minimum", async () => {
+            await connection.callTool("updatePantryItems", { items: [{ name: "Onions", quantity: -3, unit: "count" }] });
+
+            const result = await connection.callTool("replenishStaples", {});
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.added.map((item: { name: string }) => item.name)).toContain("Onions");
+        });
+
+        it("replenishStaples tops a staple up to its par level", async () => {
+            await connection.callTool("updatePantryItems", { items: [{ name: "Onions", quantity: -2, unit: "count" }] });
+
+            const result = await connection.callTool("replenishStaples", { parMultiplier: 1.5 });
+
+            const onions = result.structuredContent.added.find((item: { name: string }) => item.name === "Onions");
+            expect(onions).toMatchObject({ quantity: 2, parLevel: 3, topUp: 1 });
+        });
+
+        it("markItemAsPurchased and addPurchasedItemsToPantry move purchases into the pantry", async () => {
+            const tomatoes = (await connection.repository.getShoppingList()).find(item => item.name === "Tomatoes");
+
+            const marked = await connection.callTool("markItemAsPurchased", { itemId: tomatoes!.id });
+            expect(marked.structuredContent.item.isPurchased).toBe(true);
+
+            const added = await connection.callTool("addPurchasedItemsToPantry");
+            expect(added.isError).toBe(false);
+            expect(added.structuredContent.itemsAddedToPantry.map((item: { name: string }) => item.name)).toEqual(
+                expect.arrayContaining(["Tomatoes", "Cheese"])
+            );
+            expect((await findItem("Tomatoes"))?.quantity).toBe(4);
+        });
+
+        it("markItemAsPurchased rejects an unknown item", async () => {
+            const result = await connection.callTool("markItemAsPurchased", { itemId: "missing-item" });
+
+            expect(result.isError).toBe(true);
+            expect(result.error?.code).toBe("NOT_FOUND");
+        });
+
+        it("removeExpiredItems previews, then removes", async () => {
+            const preview = await connection.callTool("removeExpiredItems", { checkExpiryBefore: "2025-05-19", dryRun: true });
+            expect(preview.structuredContent.dryRun).toBe(true);
+            expect(preview.structuredContent.totalRemoved).toBe(2);
+            expect(await findItem("Bread")).toBeDefined();
+
+            const removed = await connection.callTool("removeExpiredItems", { checkExpiryBefore: "2025-05-19", addToShoppingList: false });
+            expect(removed.structuredContent.totalRemoved).toBe(2);
+            expect(await findItem("Bread")).toBeUndefined();
+            expect(await findItem("Chicken Breast")).toBeUndefined();
+        });
+
+        it("addRecipe creates a recipe page", async () => {
+            const result = await connection.callTool("addRecipe", { name: "Toast", tags: ["Breakfast"], servings: 1 });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.recipe.name).toBe("Toast");
+            expect((await connection.repository.getRecipes()).some(recipe => recipe.name === "Toast")).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerRecipeTools } from "../src/tools/recipeTools";
+import type { Recipe } from "../src/types";
+import { connectToFakeNotion } from "./support/fakeNotionClient";
+
+type Connection = Awaited<ReturnType<typeof connectToFakeNotion>>;
+
+describe("recipe tools against the fake Notion API", () => {
+    let connection: Connection;
+    let oatmeal: Recipe;
+
+    beforeEach(async () => {
+        connection = await connectToFakeNotion(({ server, repository }) => registerRecipeTools(server, repository));
+        oatmeal = (await connection.repository.getRecipes()).find(recipe => recipe.name === "Apple Cinnamon Oatmeal")!;
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const ingredientNames = async (recipeId: string) =>
+        (await connection.repository.getRecipeWithIngredients(recipeId))!.ingredients.map(ingredient => ingredient.name);
+
+    describe("reading", () => {
+        it("suggestMeals ranks recipes by what's in the pantry", async () => {
+            const result = await connection.callTool("suggestMeals");
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.count).toBe(result.structuredContent.suggestions.length);
+            expect(result.structuredContent.suggestions.length).toBeGreaterThan(0);
+        });
+
+        it("suggestMeals returns nothing for an unknown tag", async () => {
+            const result = await connection.callTool("suggestMeals", { requiredTags: ["Dessert"] });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.suggestions).toEqual([]);
+        });
+
+        it("scaleRecipe scales the ingredients to a serving count", async () => {
+            const result = await connection.callTool("scaleRecipe", { recipeId: oatmeal.id, servings: 4 });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.multiplier).toBe(2);
+
+            const oats = result.structuredContent.ingredients.find((ingredient: { name: string }) => ingredient.name === "Oats");
+            expect(oats.quantity).toBe(2);
+        });
+
+        it("scaleRecipe rejects an unknown recipe", async () => {
+            const result = await connection.callTool("scaleRecipe", { recipeId: "missing-recipe", multiplier: 2 });
+
+            expect(result.isError).toBe(true);
+            expect(result.error?.code).toBe("NOT_FOUND");
+        });
+
+        it("parseIngredientText splits free text into ingredients", async () => {
+            const result = await connection.callTool("parseIngredientText", { text: "1 1/2 cups flour, sifted\nsalt to taste" });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.lineCount).toBe(2);
+            expect(result.structuredContent.ingredients[0]).toMatchObject({ name: "flour", quantity: 1.5, unit: "cup" });
+        });
+
+        it("parseIngredientText reads fluid ounces, T/t shorthand and a bare pinch", async () => {
+            const result = await connection.callTool("parseIngredientText", {
+                text: "8 fl oz cream\n2 T sugar\n1 t vanilla\nPinch of salt"
+            });
+
+            expect(result.isError).toBe(false);
+            expect(result.structuredContent.ingredients).toMatchObject([
+                { name: "cream", quantity: 8, unit: "fl oz" },
+                { name: "sugar", quantity: 2, unit: "tbsp" },
+                { name: "vanilla", quantity: 1, unit: "tsp" },
+                { name: "salt", quantity: 1, unit: "pinch" }
+            ]);
+        });
+    });
+
+    describe("writing", () => {
+        it("addRecipeIngredient, updateRecipeIngredient and removeRecipeIngredient edit a recipe", async () => {
+            const added = await connection.callTool("addRecipeIngredient", {
+                recipeId: oatmeal.id,
+                name: "Raisins",
+                quantity: 2,
+                unit: "tablespoons"
+            });
+            expect(added.isError).toBe(false);
+            expect(await ingredientNames(oatmeal.id)).toContain("Raisins");
+
+            const ingredientId = added.structuredContent.ingredient.id;
+
+            const updated = await connection.callTool("updateRecipeIngredient", { ingredientId, quantity: 3 });
+            expect(updated.isError).toBe(false);
+            expect(updated.structuredContent.ingredient.quantity).toBe(3);
+
+            const removed = await connection.callTool("removeRecipeIngredient", { ingredientId });
+            expect(removed.structuredContent.removed).toBe(true);
+            expect(await ingredientNames(oatmeal.id)).not.toContain("Raisins");
+        });
+
+        it("removeRecipeIngredient rejects an unknown ingredient", async () => {
+            const result = await connection.callTool("removeRecipeIngredient", { ingredientId: "missing-ingredient" });
+
+            expect(result.isError).toBe(true);
+            expect(result.error?.code).toBe("NOT_FOUND");
+        });
+    });
+});
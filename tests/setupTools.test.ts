@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NotionDatabaseSetup } from "../src/services/databaseSetup";
+import { SetupDiagnostics } from "../src/services/setupDiagnostics";
+import { registerSetupTools } from "../src/tools/setupTools";
+import { registerUnitConversionTools } from "../src/tools/unitConversionTools";
+import { connectToFakeNotion, FAKE_NOTION_BASE_URL, FAKE_NOTION_CREDENTIALS } from "./support/fakeNotionClient";
+
+type Connection = Awaited<ReturnType<typeof connectToFakeNotion>>;
+
+describe("setup and unit conversion tools against the fake Notion API", () => {
+    let connection: Connection;
+
+    beforeEach(async () => {
+        connection = await connectToFakeNotion(({ server }) => {
+            registerSetupTools(
+                server,
+                new SetupDiagnostics('notion', FAKE_NOTION_CREDENTIALS, FAKE_NOTION_BASE_URL),
+                new NotionDatabaseSetup(FAKE_NOTION_CREDENTIALS, FAKE_NOTION_BASE_URL)
+            );
+            registerUnitConversionTools(server);
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("diagnoseSetup reaches every configured database", async () => {
+        const result = await connection.callTool("diagnoseSetup");
+
+        expect(result.isError).toBe(false);
+        expect(result.structuredContent.backend).toBe("notion");
+        expect(result.structuredContent.summary.error).toBe(0);
+        for (const database of result.structuredContent.databases) {
+            expect(database.accessible).toBe(true);
+        }
+    });
+
+    it("setupDatabases finds the existing databases without changing them in a dry run", async () => {
+        const result = await connection.callTool("setupDatabases", { dryRun: true });
+
+        expect(result.isError).toBe(false);
+        expect(result.structuredContent.dryRun).toBe(true);
+        for (const database of result.structuredContent.databases) {
+            expect(database.status).not.toBe("created");
+        }
+        expect(result.structuredContent.settings.NOTION_PANTRY_DB).toBe(FAKE_NOTION_CREDENTIALS.pantryDb);
+    });
+
+    it("convertCookingUnits converts between volumes", async () => {
+        const result = await connection.callTool("convertCookingUnits", { value: 2, fromUnit: "cup", toUnit: "tbsp" });
+
+        expect(result.isError).toBe(false);
+        expect(result.structuredContent.convertedValue).toBe(32);
+    });
+
+    it("convertCookingUnits treats fluid ounces as a volume", async () => {
+        const toCups = await connection.callTool("convertCookingUnits", { value: 8, fromUnit: "fl oz", toUnit: "cup" });
+        expect(toCups.structuredContent.convertedValue).toBe(1);
+
+        const toMilliliters = await connection.callTool("convertCookingUnits", { value: 2, fromUnit: "fluid ounces", toUnit: "ml" });
+        expect(toMilliliters.structuredContent.convertedValue).toBe(59.14);
+
+        const toWeight = await connection.callTool("convertCookingUnits", { value: 8, fromUnit: "fl oz", toUnit: "oz" });
+        expect(toWeight.isError).toBe(true);
+    });
+
+    it("convertCookingUnits rejects an unknown unit", async () => {
+        const result = await connection.callTool("convertCookingUnits", { value: 2, fromUnit: "cup", toUnit: "furlong" });
+
+        expect(result.isError).toBe(true);
+    });
+
+    it("getCookingEquivalents lists one category", async () => {
+        const result = await connection.callTool("getCookingEquivalents", { category: "weight" });
+
+        expect(result.isError).toBe(false);
+        expect(result.structuredContent.weightEquivalents).toBeDefined();
+        expect(result.structuredContent.volumeEquivalents).toBeUndefined();
+    });
+});
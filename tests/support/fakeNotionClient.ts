@@ -0,0 +1,91 @@
+// tests/support/fakeNotionClient.ts
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { vi } from "vitest";
+import { NotionPantryService } from "../../src/services/notionPantryService";
+import {
+    FAKE_MEAL_PLAN_DB_ID,
+    FAKE_PANTRY_DB_ID,
+    FAKE_RECIPE_INGREDIENTS_DB_ID,
+    FAKE_RECIPES_DB_ID,
+    FAKE_SHOPPING_LIST_DB_ID,
+    FakeNotionApi
+} from "../../src/testing/fakeNotionApi";
+import type { NotionCredentials } from "../../src/types";
+
+// Never resolved: every Notion request is answered by the fake
+export const FAKE_NOTION_BASE_URL = "http://fake-notion.test";
+
+export const FAKE_NOTION_CREDENTIALS: NotionCredentials = {
+    token: "secret_fake",
+    pantryDb: FAKE_PANTRY_DB_ID,
+    recipesDb: FAKE_RECIPES_DB_ID,
+    shoppingListDb: FAKE_SHOPPING_LIST_DB_ID,
+    recipeIngredientsDb: FAKE_RECIPE_INGREDIENTS_DB_ID,
+    mealPlanDb: FAKE_MEAL_PLAN_DB_ID
+};
+
+export interface FakeNotionContext {
+    api: FakeNotionApi;
+    repository: NotionPantryService;
+    server: McpServer;
+}
+
+/**
+ * A result as the tests read it: the structured content for successful
+ * calls, or the error code and message for failed ones
+ */
+export interface ToolCallResult {
+    isError: boolean;
+    text: string;
+    structuredContent: Record<string, any>;
+    error?: { code: string; message: string };
+}
+
+/**
+ * Seed a fake Notion workspace, point the Notion client at it and connect
+ * an MCP client to a server set up by `register`
+ */
+export async function connectToFakeNotion(register: (context: FakeNotionContext) => void): Promise<{
+    client: Client;
+    api: FakeNotionApi;
+    repository: NotionPantryService;
+    callTool: (name: string, args?: Record<string, unknown>) => Promise<ToolCallResult>;
+}> {
+    const api = FakeNotionApi.withSampleData();
+
+    // The Notion client captures fetch when it's constructed
+    vi.stubGlobal("fetch", (input: RequestInfo | URL, init?: RequestInit) => api.fetch(input, init));
+
+    const repository = new NotionPantryService(
+        FAKE_NOTION_CREDENTIALS.token,
+        FAKE_NOTION_CREDENTIALS.pantryDb,
+        FAKE_NOTION_CREDENTIALS.recipesDb,
+        FAKE_NOTION_CREDENTIALS.shoppingListDb,
+        FAKE_NOTION_BASE_URL,
+        FAKE_NOTION_CREDENTIALS.recipeIngredientsDb,
+        FAKE_NOTION_CREDENTIALS.mealPlanDb
+    );
+
+    const server = new McpServer({ name: "Pantry MCP Server (test)", version: "0.0.0" });
+    register({ api, repository, server });
+
+    const client = new Client({ name: "pantry-tests", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const callTool = async (name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> => {
+        const result = await client.callTool({ name, arguments: args });
+        const content = result.content as { type: string; text: string }[];
+
+        return {
+            isError: !!result.isError,
+            text: content.map(part => part.text).join("\n"),
+            structuredContent: (result.structuredContent ?? {}) as Record<string, any>,
+            error: (result._meta as { error?: ToolCallResult['error'] } | undefined)?.error
+        };
+    };
+
+    return { client, api, repository, callTool };
+}